@@ -1,11 +1,20 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
   AppState, 
   INITIAL_STATE, 
   Portfolio, 
   Trade, 
   Asset,
-  NetWorthSnapshot
+  TradeInput,
+  CashTransactionType,
+  CostBasisMethod,
+  Order,
+  OrderInput,
+  OrderKind,
+  OrderStatus,
+  MarginSettings,
+  TradeNotes,
+  BASE_CURRENCY
 } from './types';
 import { 
   LayoutGrid, 
@@ -30,14 +39,44 @@ import {
   ChevronDown,
   ChevronUp,
   Trash2,
+  NotebookPen,
   Calendar,
   Clock,
   Briefcase,
-  AlertCircle
+  AlertCircle,
+  ClipboardList,
+  Pencil,
+  CandlestickChart,
+  FlaskConical,
+  Code2,
+  Repeat,
+  Scale,
+  ArrowLeftRight,
+  Undo2,
+  ShieldCheck,
+  ShieldAlert
 } from 'lucide-react';
 import { Card, CardHeader, Button, Input, formatCurrency, formatNumber, numberToPersianWords } from './components/ui';
 import { PortfolioTree } from './components/PortfolioTree';
 import { TradeForm } from './components/TradeForm';
+import { FxRateModal } from './components/FxRateModal';
+import { InstrumentModal } from './components/InstrumentModal';
+import { PriceChartModal } from './components/PriceChartModal';
+import { PlanModal } from './components/PlanModal';
+import { RebalanceModal } from './components/RebalanceModal';
+import { TransferModal } from './components/TransferModal';
+import { DeletePortfolioModal } from './components/DeletePortfolioModal';
+import { HealthCheckModal } from './components/HealthCheckModal';
+import { MarketFeedPanel } from './components/MarketFeedPanel';
+import { BacktestModal } from './components/BacktestModal';
+import { BacktestBar } from './components/BacktestBar';
+import { StrategyLab } from './components/StrategyLab';
+import { BenchmarkPanel } from './components/BenchmarkPanel';
+import { RiskPanel } from './components/RiskPanel';
+import { TradeStatsPanel } from './components/TradeStatsPanel';
+import { NotesModal } from './components/NotesModal';
+import { TradeEditModal } from './components/TradeEditModal';
+import { positionTags } from './lib/tradeStats';
 import { 
   PieChart, Pie, Cell, Tooltip, ResponsiveContainer, 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend, ReferenceLine,
@@ -46,118 +85,74 @@ import {
 import { supabase, SQL_SCHEMA, SQL_SCHEMA_VERSION } from './supabaseClient';
 import { Auth } from './components/Auth';
 import { Session } from '@supabase/supabase-js';
+import {
+  findPortfolioRecursive,
+  calculatePortfolioTotal,
+  getAllPortfolioIds,
+  flattenPortfolios,
+  calculateTotalAssets
+} from './lib/portfolioTree';
+import { applyCommand, buildPositions, calculateFreeCash, lastStructuralEvent, LedgerCommand, OcoInput } from './lib/ledger';
+import { compactMarketQuotes, hydrateState } from './lib/journal';
+import { COST_BASIS_LABELS } from './lib/costBasis';
+import { calculateMarginMetrics, DEFAULT_MARGIN } from './lib/margin';
+import { findCurrency, formatMoney, fromBase, rateAt, splitFxReturn } from './lib/currency';
+import { ASSET_CLASS_LABELS, findInstrument, formatPrice } from './lib/instruments';
+import { nextDueDate, PLAN_FREQUENCY_LABELS } from './lib/plans';
+import { maxDrift, rebalanceCommands } from './lib/rebalance';
+import { checkAllocations } from './lib/allocation';
+import { buildMarketSnapshot, Quote } from './lib/marketData';
+import { advanceBacktest, BacktestSession, BacktestStep, BacktestSummary, createBacktestSession, summarizeBacktest } from './lib/backtest';
+import { StrategyDefinition } from './lib/strategy';
+import { BenchmarkSettings, EMPTY_BENCHMARK_SETTINGS } from './lib/benchmark';
+import { PERFORMANCE_PERIOD_LABELS, PerformancePeriod, PerformanceTrack, periodReturn, updatePerformance } from './lib/performance';
+import { DEFAULT_RISK_SETTINGS, RiskSettings } from './lib/risk';
 
 // --- Constants ---
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#6366f1'];
 const ALL_PORTFOLIOS_ID = 'ALL_ROOT';
-
-// --- Types for Position Logic ---
-interface PositionView {
-  id: string; // generated
-  assetName: string;
-  portfolioId: string;
-  status: 'OPEN' | 'CLOSED';
-  totalBuyAmount: number;
-  remainingAmount: number;
-  avgBuyPrice: number;
-  realizedPnl: number; // accumulated PnL from sells
-  totalCost: number; // current cost basis
-  trades: Trade[];
-  startDate: string;
-  endDate?: string;
-  durationDays: number;
-  lastUpdateDate?: string;
-}
-
-// --- Helper Functions for Nested State ---
-const findPortfolioRecursive = (portfolios: Portfolio[], id: string): Portfolio | null => {
-  for (const p of portfolios) {
-    if (p.id === id) return p;
-    const found = findPortfolioRecursive(p.children, id);
-    if (found) return found;
-  }
-  return null;
-};
-
-const updatePortfolioRecursive = (portfolios: Portfolio[], updated: Portfolio): Portfolio[] => {
-  return portfolios.map(p => {
-    if (p.id === updated.id) return updated;
-    if (p.children.length > 0) {
-      return { ...p, children: updatePortfolioRecursive(p.children, updated) };
-    }
-    return p;
-  });
-};
-
-const addPortfolioRecursive = (portfolios: Portfolio[], parentId: string, newPortfolio: Portfolio): Portfolio[] => {
-  return portfolios.map(p => {
-    if (p.id === parentId) {
-      return { ...p, children: [...p.children, newPortfolio] };
-    }
-    if (p.children.length > 0) {
-      return { ...p, children: addPortfolioRecursive(p.children, parentId, newPortfolio) };
-    }
-    return p;
-  });
-};
-
-const editPortfolioRecursive = (portfolios: Portfolio[], id: string, name: string, allocation: number): Portfolio[] => {
-  return portfolios.map(p => {
-    if (p.id === id) return { ...p, name, allocation };
-    if (p.children.length > 0) return { ...p, children: editPortfolioRecursive(p.children, id, name, allocation) };
-    return p;
-  });
-};
-
-const deletePortfolioRecursive = (portfolios: Portfolio[], id: string): Portfolio[] => {
-  return portfolios.filter(p => p.id !== id).map(p => ({
-    ...p,
-    children: deletePortfolioRecursive(p.children, id)
-  }));
-};
-
-// --- Helper for Calculations ---
-const calculatePortfolioTotal = (p: Portfolio): number => {
-  const assetsValue = p.assets.reduce((sum, a) => sum + (a.amount * a.currentPrice), 0);
-  const childrenValue = p.children.reduce((sum, child) => sum + calculatePortfolioTotal(child), 0);
-  return assetsValue + childrenValue;
+const CASH_TX_LABELS: Record<CashTransactionType, { label: string; className: string }> = {
+  deposit: { label: 'واریز', className: 'bg-green-100 text-green-700' },
+  withdrawal: { label: 'برداشت', className: 'bg-red-100 text-red-700' },
+  fee: { label: 'کارمزد', className: 'bg-amber-100 text-amber-700' },
+  trade_settlement: { label: 'تسویه معامله', className: 'bg-blue-100 text-blue-700' },
+  transfer: { label: 'انتقال', className: 'bg-purple-100 text-purple-700' }
 };
 
-const calculatePortfolioCost = (p: Portfolio): number => {
-  const assetsCost = p.assets.reduce((sum, a) => sum + (a.amount * a.avgBuyPrice), 0);
-  const childrenCost = p.children.reduce((sum, child) => sum + calculatePortfolioCost(child), 0);
-  return assetsCost + childrenCost;
+const ORDER_KIND_LABELS: Record<OrderKind, string> = {
+  limit: 'محدود (Limit)',
+  stop: 'حد ضرر (Stop)',
+  takeProfit: 'حد سود (TP)'
 };
 
-const getAllPortfolioIds = (p: Portfolio): string[] => {
-  let ids = [p.id];
-  p.children.forEach(c => ids = [...ids, ...getAllPortfolioIds(c)]);
-  return ids;
-};
-
-// Flatten all portfolios for easy lookup
-const flattenPortfolios = (portfolios: Portfolio[]): Portfolio[] => {
-    let flat: Portfolio[] = [];
-    portfolios.forEach(p => {
-        flat.push(p);
-        flat = [...flat, ...flattenPortfolios(p.children)];
-    });
-    return flat;
+const ORDER_STATUS_LABELS: Record<OrderStatus, { label: string; className: string }> = {
+  open: { label: 'باز', className: 'bg-blue-100 text-blue-700' },
+  filled: { label: 'اجرا شده', className: 'bg-green-100 text-green-700' },
+  cancelled: { label: 'لغو شده', className: 'bg-slate-100 text-slate-600' },
+  rejected: { label: 'رد شده', className: 'bg-red-100 text-red-700' }
 };
 
-const recordHistory = (history: NetWorthSnapshot[], newValue: number): NetWorthSnapshot[] => {
-  const now = new Date();
-  const newSnapshot: NetWorthSnapshot = { date: now.toISOString(), value: newValue };
-  return [...history, newSnapshot];
-};
-
-const CustomTooltip = ({ active, payload, label }: any) => {
+const CostBasisSelect = ({ value, onChange }: { value: CostBasisMethod, onChange: (method: CostBasisMethod) => void }) => (
+  <div className="space-y-1.5">
+    <label className="text-sm font-medium text-slate-700">روش محاسبه بهای تمام شده</label>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as CostBasisMethod)}
+      className="w-full h-10 rounded-md border border-slate-300 px-3 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none"
+    >
+      {(Object.keys(COST_BASIS_LABELS) as CostBasisMethod[]).map(m => <option key={m} value={m}>{COST_BASIS_LABELS[m]}</option>)}
+    </select>
+  </div>
+);
+
+// `currency` is the reporting currency the chart values are already expressed in
+const CustomTooltip = ({ active, payload, label, currency }: any) => {
   if (active && payload && payload.length) {
       return (
           <div className="bg-white p-3 border border-slate-200 shadow-lg rounded-lg text-sm">
               <p className="font-bold text-slate-700 dir-ltr">{label}</p>
               <p className="text-brand-600 dir-ltr font-mono">
-                  {formatCurrency(payload[0].value)}
+                  {currency ? formatMoney(payload[0].value, currency) : formatCurrency(payload[0].value)}
               </p>
           </div>
       );
@@ -171,25 +166,66 @@ export default function App() {
   const [authLoading, setAuthLoading] = useState(true);
 
   // --- App State ---
-  const [state, setState] = useState<AppState>(INITIAL_STATE);
+  const [liveState, setLiveState] = useState<AppState>(INITIAL_STATE);
+  const [backtest, setBacktest] = useState<BacktestSession | null>(null);
+  const [backtestResults, setBacktestResults] = useState<BacktestSummary[]>([]);
+  const [strategies, setStrategies] = useState<StrategyDefinition[]>([]); // Saved on this device only, like backtest results
+  const [benchmarkSettings, setBenchmarkSettings] = useState<BenchmarkSettings>(EMPTY_BENCHMARK_SETTINGS); // Device-local too
+  const [riskSettings, setRiskSettings] = useState<RiskSettings>(DEFAULT_RISK_SETTINGS);
+  // While a backtest runs the whole dashboard works on the session's state; the live save is left alone
+  const state = backtest ? backtest.state : liveState;
+  const setState = (update: AppState | ((prev: AppState) => AppState)) => {
+    if (!backtest) {
+      setLiveState(update);
+      return;
+    }
+    setBacktest(prev => prev && { ...prev, state: typeof update === 'function' ? update(prev.state) : update });
+  };
+  // Commands are stamped with the virtual clock during a backtest
+  const clockNow = (): Date => backtest ? new Date(backtest.clock) : new Date();
   const [isClient, setIsClient] = useState(false);
   const [dataLoaded, setDataLoaded] = useState(false);
 
   // --- UI State ---
-  const [activeTab, setActiveTab] = useState<'assets' | 'history' | 'analytics'>('assets');
+  const [performancePeriod, setPerformancePeriod] = useState<PerformancePeriod>('inception');
+  const [activeTab, setActiveTab] = useState<'assets' | 'history' | 'orders' | 'cash' | 'analytics' | 'strategies'>('assets');
   const [assetSubViewId, setAssetSubViewId] = useState<string | null>(null); 
   
   const [showAddPortfolioModal, setShowAddPortfolioModal] = useState<{isOpen: boolean, parentId: string | null}>({isOpen: false, parentId: null});
   const [showEditPortfolioModal, setShowEditPortfolioModal] = useState<{isOpen: boolean, portfolio: Portfolio | null}>({isOpen: false, portfolio: null});
   const [newPortfolioName, setNewPortfolioName] = useState('');
   const [newPortfolioAlloc, setNewPortfolioAlloc] = useState('');
+  const [newPortfolioMethod, setNewPortfolioMethod] = useState<CostBasisMethod>('average');
   const [editPortfolioName, setEditPortfolioName] = useState('');
   const [editPortfolioAlloc, setEditPortfolioAlloc] = useState('');
+  const [editPortfolioMethod, setEditPortfolioMethod] = useState<CostBasisMethod>('average');
+  const [editMarginEnabled, setEditMarginEnabled] = useState(false);
+  const [editLeverage, setEditLeverage] = useState('');
+  const [editMaintenance, setEditMaintenance] = useState('');
+  const [editBorrowRate, setEditBorrowRate] = useState('');
   
-  const [showTetherModal, setShowTetherModal] = useState(false);
-  const [tempTetherPrice, setTempTetherPrice] = useState('');
+  const [rateModalCurrency, setRateModalCurrency] = useState<string | null>(null); // Currency whose rate timeline is open
+  const [showAddCurrencyModal, setShowAddCurrencyModal] = useState(false);
+  const [showInstrumentModal, setShowInstrumentModal] = useState(false);
+  const [showBacktestModal, setShowBacktestModal] = useState(false);
+  const [showPlanModal, setShowPlanModal] = useState(false);
+  const [showRebalanceModal, setShowRebalanceModal] = useState(false);
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [deletingPortfolioId, setDeletingPortfolioId] = useState<string | null>(null); // Portfolio whose delete/merge dialog is open
+  const [showHealthCheck, setShowHealthCheck] = useState(false);
+  const [editingTrade, setEditingTrade] = useState<Trade | null>(null);
+  const [editingNotes, setEditingNotes] = useState<{ target: 'trade' | 'position'; targetId: string; title: string; notes?: TradeNotes } | null>(null);
+  const [chartInstrumentId, setChartInstrumentId] = useState<string | null>(null); // Instrument whose price chart is open
+  const [newCurrency, setNewCurrency] = useState({ code: '', name: '', symbol: '', rate: '' });
   const [showDepositModal, setShowDepositModal] = useState(false);
   const [depositAmount, setDepositAmount] = useState('');
+  const [cashKind, setCashKind] = useState<'deposit' | 'withdraw' | 'chargeFee' | 'convert'>('deposit');
+  const [cashNote, setCashNote] = useState('');
+  const [cashCurrency, setCashCurrency] = useState(BASE_CURRENCY);
+  const [convertTo, setConvertTo] = useState('tether');
+  const [editingOrder, setEditingOrder] = useState<Order | null>(null);
+  const [editOrderAmount, setEditOrderAmount] = useState('');
+  const [editOrderPrice, setEditOrderPrice] = useState('');
   
   const [showSqlCopied, setShowSqlCopied] = useState(false);
   const [hasSqlUpdate, setHasSqlUpdate] = useState(false);
@@ -201,6 +237,15 @@ export default function App() {
   useEffect(() => {
     setIsClient(true);
 
+    const savedBacktests = localStorage.getItem('traderSimBacktests');
+    if (savedBacktests) setBacktestResults(JSON.parse(savedBacktests));
+    const savedStrategies = localStorage.getItem('traderSimStrategies');
+    if (savedStrategies) setStrategies(JSON.parse(savedStrategies));
+    const savedBenchmarks = localStorage.getItem('traderSimBenchmarks');
+    if (savedBenchmarks) setBenchmarkSettings(JSON.parse(savedBenchmarks));
+    const savedRisk = localStorage.getItem('traderSimRisk');
+    if (savedRisk) setRiskSettings({ ...DEFAULT_RISK_SETTINGS, ...JSON.parse(savedRisk) });
+
     // Check SQL Version
     const savedVer = localStorage.getItem('sql_schema_version');
     if (savedVer !== SQL_SCHEMA_VERSION) {
@@ -220,7 +265,7 @@ export default function App() {
       if (session) {
          loadData(session.user.id);
       } else {
-         setState(INITIAL_STATE);
+         setLiveState(INITIAL_STATE);
       }
     });
 
@@ -244,17 +289,13 @@ export default function App() {
         .single();
 
       if (data && data.state) {
-        let loadedState = data.state;
-         if (!loadedState.netWorthHistory || !Array.isArray(loadedState.netWorthHistory)) {
-           const totalAssets = loadedState.rootPortfolios.reduce((sum: number, p: Portfolio) => sum + calculatePortfolioTotal(p), 0);
-           loadedState.netWorthHistory = [{ date: new Date().toISOString(), value: loadedState.cash + totalAssets }];
-        }
-        setState(loadedState);
+        // Projection fields are rebuilt from the journal (legacy saves are migrated)
+        setLiveState(hydrateState(data.state));
       } else {
         const saved = localStorage.getItem('traderSimState');
         if (saved) {
-           const parsed = JSON.parse(saved);
-           setState(parsed);
+           const parsed = hydrateState(JSON.parse(saved));
+           setLiveState(parsed);
            saveDataToSupabase(userId, parsed);
         }
       }
@@ -265,14 +306,32 @@ export default function App() {
     }
   };
 
+  // Warned once per failing stretch, since the save runs on every change
+  const saveWarned = useRef(false);
+
   useEffect(() => {
     if (!isClient || !session || !dataLoaded) return;
-    localStorage.setItem('traderSimState', JSON.stringify(state));
+    try {
+      localStorage.setItem('traderSimState', JSON.stringify(liveState));
+      saveWarned.current = false;
+    } catch (e) {
+      // Usually the storage quota. Old feed ticks are folded first; the smaller state saves on the next run.
+      const compacted = compactMarketQuotes(liveState, new Date());
+      if (compacted !== liveState) {
+        setLiveState(prev => prev === liveState ? compacted : prev);
+        return;
+      }
+      console.error("Error saving locally", e);
+      if (!saveWarned.current) {
+        saveWarned.current = true;
+        alert('حافظه مرورگر پر است و آخرین تغییرات روی این دستگاه ذخیره نشد. تا وقتی به حساب متصل هستید، اطلاعات در سرور ذخیره می‌شود.');
+      }
+    }
     const timeoutId = setTimeout(() => {
-       saveDataToSupabase(session.user.id, state);
+       saveDataToSupabase(session.user.id, liveState);
     }, 2000);
     return () => clearTimeout(timeoutId);
-  }, [state, session, isClient, dataLoaded]);
+  }, [liveState, session, isClient, dataLoaded]);
 
   const saveDataToSupabase = async (userId: string, appState: AppState) => {
       try {
@@ -285,133 +344,99 @@ export default function App() {
       }
   };
 
+  // Live plans are checked on load and every minute; during a backtest each step runs them instead
+  useEffect(() => {
+    if (!dataLoaded || backtest) return;
+    const runPlans = () => setLiveState(prev => {
+      const result = applyCommand(prev, { type: 'runPlans' });
+      return result.ok === false || result.state === prev ? prev : result.state;
+    });
+    runPlans();
+    const id = setInterval(runPlans, 60000);
+    return () => clearInterval(id);
+  }, [dataLoaded, !!backtest]);
+
   // --- Derived Data ---
   const totalAssetsValue = state.rootPortfolios.reduce((sum, p) => sum + calculatePortfolioTotal(p), 0);
   const totalNetWorth = state.cash + totalAssetsValue;
+  const freeCash = calculateFreeCash(state.cash, state.rootPortfolios);
 
   // --- Helper: Position Processing ---
-  const processPositions = useMemo(() => {
-    const sortedTrades = [...state.tradeHistory].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-    const positions: PositionView[] = [];
-    const openMap = new Map<string, PositionView>(); // Key: assetName + portfolioId
-
-    sortedTrades.forEach(trade => {
-        const key = `${trade.portfolioId}-${trade.assetName}`;
-        let position = openMap.get(key);
-
-        if (!position && trade.type === 'buy') {
-            // Start new position
-            position = {
-                id: `pos-${trade.id}`,
-                assetName: trade.assetName,
-                portfolioId: trade.portfolioId,
-                status: 'OPEN',
-                totalBuyAmount: 0,
-                remainingAmount: 0,
-                avgBuyPrice: 0,
-                totalCost: 0,
-                realizedPnl: 0,
-                trades: [],
-                startDate: trade.timestamp,
-                durationDays: 0
-            };
-            openMap.set(key, position);
-        }
+  const processPositions = useMemo(() => buildPositions(state.tradeHistory, clockNow(), state.transfers, state.instruments, state.positionNotes), [state.tradeHistory, state.transfers, state.positionNotes, backtest?.clock]);
+
+
+  // --- Ledger Commands ---
+  // Runs a command through the pure ledger; returns false (and alerts unless silent) on failure
+  // Several commands run as one step: if any fails, none of them is applied
+  const runLedgerCommand = (command: LedgerCommand | LedgerCommand[], silent = false): boolean => {
+    let next = state;
+    for (const c of Array.isArray(command) ? command : [command]) {
+      const result = applyCommand(next, c, clockNow());
+      if (result.ok === false) {
+        if (!silent) alert(result.error.message);
+        return false;
+      }
+      next = result.state;
+    }
+    setState(next);
+    return true;
+  };
 
-        if (position) {
-            position.trades.push(trade);
-            position.lastUpdateDate = trade.timestamp; // Track last activity
-
-            if (trade.type === 'buy') {
-                const newTotalAmount = position.remainingAmount + trade.amount;
-                // Weighted Avg Price Calculation
-                // (Old Cost + New Buy Value) / New Total Amount
-                const currentCost = position.remainingAmount * position.avgBuyPrice;
-                const newBuyValue = trade.totalValue; // Using total value from trade (price * amount)
-                
-                position.totalCost += newBuyValue;
-                position.avgBuyPrice = (currentCost + newBuyValue) / newTotalAmount;
-                position.remainingAmount = newTotalAmount;
-                position.totalBuyAmount += trade.amount;
-                
-            } else if (trade.type === 'sell') {
-                // Realized PnL = (Sell Price - Avg Buy Price) * Sell Amount - Fee
-                const sellValue = trade.totalValue;
-                const costOfSold = trade.amount * position.avgBuyPrice;
-                const tradePnl = sellValue - costOfSold - trade.fee; // Net PnL (Fees are usually deducted from result)
-                // Note: We track fee separately in aggregated stats for global view, but here PnL per position includes fee deduction if we want accurate "Net PnL"
-                
-                position.realizedPnl += tradePnl;
-                position.remainingAmount -= trade.amount;
-
-                // Close position if amount is negligible
-                if (position.remainingAmount <= 0.000001) {
-                    position.status = 'CLOSED';
-                    position.endDate = trade.timestamp;
-                    positions.push({...position}); // Save closed position
-                    openMap.delete(key); // Remove from open
-                }
-            }
-        }
+  // Feed ticks arrive from timers, so they read and update the latest state rather than this render's
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const handleMarketQuotes = (providerId: string, quotes: Quote[]) => {
+    setState(prev => {
+      const result = applyCommand(prev, { type: 'applyQuotes', providerId, quotes });
+      if (result.ok === false) {
+        console.error('Quotes rejected', result.error.message);
+        return prev;
+      }
+      return result.state;
     });
+  };
 
-    // Add remaining open positions
-    openMap.forEach(p => positions.push(p));
-
-    // Calculate Duration
-    return positions.map(p => {
-        const start = new Date(p.startDate);
-        const end = p.endDate ? new Date(p.endDate) : new Date();
-        const diffTime = Math.abs(end.getTime() - start.getTime());
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
-        return { ...p, durationDays: diffDays };
-    }).sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime()); // Newest first
-
-  }, [state.tradeHistory]);
-
-
-  // --- Helper: Replay Trades for Integrity ---
-  const replayPortfolioAssets = (portfolioId: string, trades: Trade[]) => {
-      const pTrades = trades.filter(t => t.portfolioId === portfolioId).sort((a,b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-      
-      const assetsMap = new Map<string, Asset>();
-      // We assume initial assets are empty when replay starts from history
-      
-      pTrades.forEach(t => {
-          let asset = assetsMap.get(t.assetName);
-          if (!asset) {
-              asset = {
-                  id: `ast-replay-${t.assetName}`, // ID generation might need to be consistent if reused, but for state update it's fine
-                  name: t.assetName,
-                  symbol: t.assetName.substring(0,3).toUpperCase(),
-                  amount: 0,
-                  avgBuyPrice: 0,
-                  currentPrice: t.price // Update current price to latest trade price
-              };
-          }
-          
-          asset.currentPrice = t.price; // Always update current price to latest action
-
-          if (t.type === 'buy') {
-              const totalCost = asset.amount * asset.avgBuyPrice;
-              const newCost = t.totalValue;
-              const newAmount = asset.amount + t.amount;
-              asset.avgBuyPrice = (totalCost + newCost) / newAmount;
-              asset.amount = newAmount;
-          } else {
-              asset.amount = Math.max(0, asset.amount - t.amount);
-          }
-
-          if (asset.amount > 0.000001) {
-              assetsMap.set(t.assetName, asset);
-          } else {
-              assetsMap.delete(t.assetName);
-          }
-      });
-
-      return Array.from(assetsMap.values());
+  // --- Backtest ---
+  const handleStartBacktest = (steps: BacktestStep[], name: string, startCash: number): boolean => {
+    const result = createBacktestSession(liveState, steps, name, startCash, new Date());
+    if (result.ok === false) {
+      alert(result.message);
+      return false;
+    }
+    setBacktest(result.session);
+    setShowBacktestModal(false);
+    return true;
+  };
+
+  const handleBacktestStep = useCallback(() => setBacktest(prev => prev && advanceBacktest(prev)), []);
+
+  const saveBacktestResults = (results: BacktestSummary[]) => {
+    setBacktestResults(results);
+    localStorage.setItem('traderSimBacktests', JSON.stringify(results));
   };
 
+  const saveStrategies = (list: StrategyDefinition[]) => {
+    setStrategies(list);
+    localStorage.setItem('traderSimStrategies', JSON.stringify(list));
+  };
+
+  const saveBenchmarkSettings = (settings: BenchmarkSettings) => {
+    setBenchmarkSettings(settings);
+    localStorage.setItem('traderSimBenchmarks', JSON.stringify(settings));
+  };
+
+  const saveRiskSettings = (settings: RiskSettings) => {
+    setRiskSettings(settings);
+    localStorage.setItem('traderSimRisk', JSON.stringify(settings));
+  };
+
+  const handleEndBacktest = () => {
+    if (!backtest || !confirm('بک‌تست پایان یابد؟ نتیجه ذخیره می‌شود و به حساب اصلی بازمی‌گردید.')) return;
+    saveBacktestResults([summarizeBacktest(backtest, new Date()), ...backtestResults]);
+    setBacktest(null);
+    setShowBacktestModal(true);
+  };
 
   // --- Handlers ---
   const handleSelectPortfolio = (id: string) => {
@@ -421,309 +446,152 @@ export default function App() {
   const handleAddPortfolio = () => {
     if (!newPortfolioName) return;
     const allocationAmount = parseFloat(newPortfolioAlloc) || 0;
+    if (!runLedgerCommand({ type: 'addPortfolio', parentId: showAddPortfolioModal.parentId, name: newPortfolioName, allocation: allocationAmount, costBasisMethod: newPortfolioMethod })) return;
 
-    if (showAddPortfolioModal.parentId === null) {
-       const currentTotalAllocated = state.rootPortfolios.reduce((sum, p) => sum + p.allocation, 0);
-       if (currentTotalAllocated + allocationAmount > totalNetWorth) {
-           alert(`خطا: مجموع بودجه تخصیص یافته (${formatCurrency(currentTotalAllocated + allocationAmount)}) نمی‌تواند بیشتر از کل دارایی‌ها (${formatCurrency(totalNetWorth)}) باشد.`);
-           return;
-       }
-    } else {
-       const parent = findPortfolioRecursive(state.rootPortfolios, showAddPortfolioModal.parentId);
-       if (parent) {
-           const currentChildrenAllocated = parent.children.reduce((sum, p) => sum + p.allocation, 0);
-           if (currentChildrenAllocated + allocationAmount > parent.allocation) {
-                alert(`خطا: مجموع بودجه زیرمجموعه‌ها (${formatCurrency(currentChildrenAllocated + allocationAmount)}) نمی‌تواند بیشتر از بودجه سبد والد (${formatCurrency(parent.allocation)}) باشد.`);
-                return;
-           }
-       }
-    }
-
-    const newP: Portfolio = {
-      id: `p-${Date.now()}`,
-      name: newPortfolioName,
-      allocation: allocationAmount,
-      assets: [],
-      children: []
-    };
-
-    if (showAddPortfolioModal.parentId === null) {
-      setState(prev => ({ ...prev, rootPortfolios: [...prev.rootPortfolios, newP] }));
-    } else {
-      setState(prev => ({
-        ...prev,
-        rootPortfolios: addPortfolioRecursive(prev.rootPortfolios, showAddPortfolioModal.parentId!, newP)
-      }));
-    }
     setShowAddPortfolioModal({isOpen: false, parentId: null});
     setNewPortfolioName('');
     setNewPortfolioAlloc('');
+    setNewPortfolioMethod('average');
   };
 
   const handleOpenEditPortfolio = (portfolio: Portfolio) => {
     setEditPortfolioName(portfolio.name);
     setEditPortfolioAlloc(portfolio.allocation.toString());
+    setEditPortfolioMethod(portfolio.costBasisMethod || 'average');
+    const margin = portfolio.margin || DEFAULT_MARGIN;
+    setEditMarginEnabled(!!portfolio.margin);
+    setEditLeverage(margin.leverage.toString());
+    setEditMaintenance(margin.maintenanceMargin.toString());
+    setEditBorrowRate(margin.borrowRate.toString());
     setShowEditPortfolioModal({ isOpen: true, portfolio });
   };
 
   const handleUpdatePortfolio = () => {
     if (!showEditPortfolioModal.portfolio || !editPortfolioName) return;
     const allocationAmount = parseFloat(editPortfolioAlloc) || 0;
-    setState(prev => ({
-      ...prev,
-      rootPortfolios: editPortfolioRecursive(prev.rootPortfolios, showEditPortfolioModal.portfolio!.id, editPortfolioName, allocationAmount)
-    }));
+    const portfolio = showEditPortfolioModal.portfolio;
+    const commands: LedgerCommand[] = [{ type: 'editPortfolio', portfolioId: portfolio.id, name: editPortfolioName, allocation: allocationAmount, costBasisMethod: editPortfolioMethod }];
+    const margin: MarginSettings | null = editMarginEnabled
+      ? { leverage: parseFloat(editLeverage), maintenanceMargin: parseFloat(editMaintenance), borrowRate: parseFloat(editBorrowRate) }
+      : null;
+    if (JSON.stringify(margin) !== JSON.stringify(portfolio.margin || null)) {
+      commands.push({ type: 'setMargin', portfolioId: portfolio.id, margin });
+    }
+    if (!runLedgerCommand(commands)) return;
     setShowEditPortfolioModal({ isOpen: false, portfolio: null });
   };
 
+  // Portfolios holding something get a choice to merge instead of discarding
   const handleDeletePortfolio = (id: string) => {
-    if (confirm('آیا از حذف این سبد و تمام دارایی‌های آن اطمینان دارید؟')) {
-       setState(prev => ({
-         ...prev,
-         rootPortfolios: deletePortfolioRecursive(prev.rootPortfolios, id),
-         selectedPortfolioId: prev.selectedPortfolioId === id ? null : prev.selectedPortfolioId
-       }));
+    const portfolio = findPortfolioRecursive(state.rootPortfolios, id);
+    if (portfolio && (portfolio.assets.length > 0 || portfolio.children.length > 0)) {
+      setDeletingPortfolioId(id);
+    } else if (confirm('آیا از حذف این سبد اطمینان دارید؟')) {
+      deletePortfolio(id);
     }
   };
 
-  // --- Trade Logic ---
-  const handleTrade = (tradeData: any) => {
-    if (!state.selectedPortfolioId || state.selectedPortfolioId === ALL_PORTFOLIOS_ID) {
-        alert("لطفا یک سبد خاص را انتخاب کنید.");
-        return;
+  const deletePortfolio = (id: string, mergeInto?: string) => {
+    const result = applyCommand(state, { type: 'deletePortfolio', portfolioId: id, mergeInto }, clockNow());
+    if (result.ok === false) {
+      alert(result.error.message);
+      return;
     }
-    const portfolio = findPortfolioRecursive(state.rootPortfolios, state.selectedPortfolioId);
-    if (!portfolio) return;
-
-    let newTrade: Trade = {
-      id: `tr-${Date.now()}`,
-      portfolioId: portfolio.id,
-      timestamp: new Date().toISOString(),
-      ...tradeData
-    };
+    setState({
+      ...result.state,
+      selectedPortfolioId: state.selectedPortfolioId === id ? mergeInto || null : state.selectedPortfolioId
+    });
+    setDeletingPortfolioId(null);
+  };
 
-    let updatedAssets = [...portfolio.assets];
-    const existingAssetIndex = updatedAssets.findIndex(a => a.name === tradeData.assetName);
+  const handleUndoStructure = () => {
+    const result = applyCommand(state, { type: 'undoStructure' }, clockNow());
+    if (result.ok === false) {
+      alert(result.error.message);
+      return;
+    }
+    // The selected portfolio may not exist any more
+    const selected = result.state.selectedPortfolioId;
+    const stillExists = !selected || selected === ALL_PORTFOLIOS_ID || findPortfolioRecursive(result.state.rootPortfolios, selected);
+    setState({ ...result.state, selectedPortfolioId: stillExists ? selected : null });
+  };
 
-    if (tradeData.type === 'buy') {
-      if (existingAssetIndex >= 0) {
-        const asset = updatedAssets[existingAssetIndex];
-        const newAmount = asset.amount + tradeData.amount;
-        const oldTotalCost = asset.amount * asset.avgBuyPrice;
-        const newTotalCost = oldTotalCost + tradeData.totalValue; 
-        
-        updatedAssets[existingAssetIndex] = {
-          ...asset,
-          amount: newAmount,
-          avgBuyPrice: newTotalCost / newAmount,
-          currentPrice: tradeData.price 
-        };
-      } else {
-        updatedAssets.push({
-          id: `ast-${Date.now()}`,
-          name: tradeData.assetName,
-          symbol: tradeData.assetName.substring(0, 3).toUpperCase(),
-          amount: tradeData.amount,
-          avgBuyPrice: tradeData.price,
-          currentPrice: tradeData.price 
-        });
-      }
-      
-      setState(prev => {
-        const newCash = prev.cash - (tradeData.totalValue + tradeData.fee);
-        const updatedPortfolios = updatePortfolioRecursive(prev.rootPortfolios, { ...portfolio, assets: updatedAssets });
-        const newTotalAssets = updatedPortfolios.reduce((sum, p) => sum + calculatePortfolioTotal(p), 0);
-        const newNetWorth = newCash + newTotalAssets;
-
-        return {
-          ...prev,
-          cash: newCash,
-          tradeHistory: [newTrade, ...prev.tradeHistory],
-          rootPortfolios: updatedPortfolios,
-          netWorthHistory: recordHistory(prev.netWorthHistory, newNetWorth)
-        };
-      });
+  const rateModalInfo = rateModalCurrency ? state.currencies.find(c => c.code === rateModalCurrency) : undefined;
+  const chartInstrument = chartInstrumentId ? findInstrument(state.instruments, chartInstrumentId) : undefined;
 
-    } else {
-      if (existingAssetIndex >= 0) {
-        const asset = updatedAssets[existingAssetIndex];
-        const realizedPnl = (tradeData.price - asset.avgBuyPrice) * tradeData.amount;
-        newTrade.realizedPnl = realizedPnl;
-        const newAmount = asset.amount - tradeData.amount;
-        
-        if (newAmount <= 0.000001) {
-           updatedAssets.splice(existingAssetIndex, 1);
-        } else {
-           updatedAssets[existingAssetIndex] = {
-             ...asset,
-             amount: newAmount,
-             currentPrice: tradeData.price
-           };
-        }
+  const handleAddCurrency = () => {
+    const { code, name, symbol, rate } = newCurrency;
+    if (!runLedgerCommand({ type: 'addCurrency', code, name, symbol, rate: parseFloat(rate) })) return;
+    setShowAddCurrencyModal(false);
+    setNewCurrency({ code: '', name: '', symbol: '', rate: '' });
+  };
 
-        setState(prev => {
-          const newCash = prev.cash + (tradeData.totalValue - tradeData.fee);
-          const netPnl = realizedPnl - tradeData.fee;
-
-          // Propagate PnL logic (Same as before)
-          const updatePortfoliosWithPnL = (list: Portfolio[]): { updated: Portfolio[], found: boolean } => {
-             let foundInThisLayer = false;
-             const updated = list.map(p => {
-                 if (p.id === state.selectedPortfolioId) {
-                     foundInThisLayer = true;
-                     return { 
-                         ...p, 
-                         assets: updatedAssets, 
-                         allocation: p.allocation + netPnl 
-                     };
-                 }
-                 if (p.children.length > 0) {
-                     const childResult = updatePortfoliosWithPnL(p.children);
-                     if (childResult.found) {
-                         foundInThisLayer = true;
-                         return {
-                             ...p,
-                             children: childResult.updated,
-                             allocation: p.allocation + netPnl 
-                         };
-                     }
-                 }
-                 return p;
-             });
-             return { updated, found: foundInThisLayer };
-          };
-
-          const { updated: updatedPortfolios } = updatePortfoliosWithPnL(prev.rootPortfolios);
-          const newTotalAssets = updatedPortfolios.reduce((sum, p) => sum + calculatePortfolioTotal(p), 0);
-          const newNetWorth = newCash + newTotalAssets;
-
-          return {
-            ...prev,
-            cash: newCash,
-            tradeHistory: [newTrade, ...prev.tradeHistory],
-            rootPortfolios: updatedPortfolios,
-            netWorthHistory: recordHistory(prev.netWorthHistory, newNetWorth)
-          };
-        });
-      }
+  // --- Trade Logic ---
+  const handleTrade = (tradeData: TradeInput) => {
+    if (!state.selectedPortfolioId || state.selectedPortfolioId === ALL_PORTFOLIOS_ID) {
+        alert("لطفا یک سبد خاص را انتخاب کنید.");
+        return;
     }
+    runLedgerCommand({ ...tradeData, portfolioId: state.selectedPortfolioId });
   };
 
-  const handleDeleteTrade = (tradeId: string, portfolioId: string) => {
-    if (!confirm('آیا مطمئن هستید؟ با حذف این معامله، دارایی‌ها بر اساس تاریخچه مجدداً محاسبه می‌شوند.')) return;
+  const handlePlaceOrder = (order: OrderInput) => {
+    if (!state.selectedPortfolioId || state.selectedPortfolioId === ALL_PORTFOLIOS_ID) {
+        alert("لطفا یک سبد خاص را انتخاب کنید.");
+        return;
+    }
+    runLedgerCommand({ ...order, type: 'placeOrder', portfolioId: state.selectedPortfolioId });
+  };
 
-    // 1. Remove trade from history
-    const updatedHistory = state.tradeHistory.filter(t => t.id !== tradeId);
-    
-    // 2. Identify target portfolio
-    const targetPortfolio = findPortfolioRecursive(state.rootPortfolios, portfolioId);
-    if (!targetPortfolio) return;
-
-    // 3. Replay trades for this portfolio to get correct assets
-    const recalculatedAssets = replayPortfolioAssets(portfolioId, updatedHistory);
-
-    // 4. Calculate Cash Delta (Simplification: Revert the specific trade's cash effect)
-    const deletedTrade = state.tradeHistory.find(t => t.id === tradeId);
-    let cashChange = 0;
-    if (deletedTrade) {
-        if (deletedTrade.type === 'buy') {
-            // We get money back (Trade Value + Fee)
-            cashChange = deletedTrade.totalValue + deletedTrade.fee;
-        } else {
-            // We lose the money we got (Trade Value - Fee)
-            // Note: If fee was deducted from payout, we give back payout.
-            cashChange = -(deletedTrade.totalValue - deletedTrade.fee);
-        }
+  const handlePlaceOco = (oco: OcoInput) => {
+    if (!state.selectedPortfolioId || state.selectedPortfolioId === ALL_PORTFOLIOS_ID) {
+        alert("لطفا یک سبد خاص را انتخاب کنید.");
+        return;
     }
+    runLedgerCommand({ ...oco, type: 'placeOco', portfolioId: state.selectedPortfolioId });
+  };
 
-    setState(prev => {
-        const updatedPortfolio = { ...targetPortfolio, assets: recalculatedAssets };
-        const updatedRootPortfolios = updatePortfolioRecursive(prev.rootPortfolios, updatedPortfolio);
-        
-        let finalRoots = updatedRootPortfolios;
-        if (deletedTrade && deletedTrade.type === 'sell') {
-             const netPnl = (deletedTrade.realizedPnl || 0) - deletedTrade.fee;
-             // We need to SUBTRACT this netPnl from allocation because we are undoing the sell
-             // Logic mirrors handleTrade but with negative netPnl
-             const revertPnL = (list: Portfolio[]): Portfolio[] => {
-                return list.map(p => {
-                    if (p.id === portfolioId) {
-                        return { ...p, allocation: p.allocation - netPnl };
-                    }
-                    if (p.children.length > 0) {
-                        return { ...p, children: revertPnL(p.children), allocation: p.allocation - netPnl }; // simplified propogation
-                    }
-                    return p;
-                });
-             };
-             finalRoots = revertPnL(updatedRootPortfolios);
-        }
+  const handleCancelOrder = (orderId: string) => {
+    if (!confirm('سفارش لغو شود؟')) return;
+    runLedgerCommand({ type: 'cancelOrder', orderId });
+  };
 
-        const newTotalAssets = finalRoots.reduce((sum, p) => sum + calculatePortfolioTotal(p), 0);
-        const newCash = prev.cash + cashChange;
-        const newNetWorth = newCash + newTotalAssets;
-
-        return {
-            ...prev,
-            cash: newCash,
-            tradeHistory: updatedHistory,
-            rootPortfolios: finalRoots,
-            netWorthHistory: recordHistory(prev.netWorthHistory, newNetWorth)
-        };
-    });
+  const handleOpenModifyOrder = (order: Order) => {
+    setEditingOrder(order);
+    setEditOrderAmount(order.amount.toString());
+    setEditOrderPrice(order.triggerPrice.toString());
   };
 
-  const handleAssetPriceUpdate = (assetId: string, newPrice: number) => {
-    // If specific portfolio selected:
-    if (state.selectedPortfolioId && state.selectedPortfolioId !== ALL_PORTFOLIOS_ID) {
-        const portfolio = findPortfolioRecursive(state.rootPortfolios, state.selectedPortfolioId);
-        if (!portfolio) return;
-
-        const updatedAssets = portfolio.assets.map(a => 
-            a.id === assetId ? { ...a, currentPrice: newPrice } : a
-        );
-        updateStateWithAssetChange(portfolio, updatedAssets);
-    } else {
-        // If ALL selected
-        const allPorts = flattenPortfolios(state.rootPortfolios);
-        const targetP = allPorts.find(p => p.assets.some(a => a.id === assetId));
-        if (targetP) {
-             const updatedAssets = targetP.assets.map(a => 
-                a.id === assetId ? { ...a, currentPrice: newPrice } : a
-            );
-            updateStateWithAssetChange(targetP, updatedAssets);
-        }
-    }
+  const handleModifyOrder = () => {
+    if (!editingOrder) return;
+    const amount = parseFloat(editOrderAmount);
+    const triggerPrice = parseFloat(editOrderPrice);
+    if (!runLedgerCommand({ type: 'modifyOrder', orderId: editingOrder.id, amount, triggerPrice })) return;
+    setEditingOrder(null);
   };
 
-  const updateStateWithAssetChange = (portfolio: Portfolio, updatedAssets: Asset[]) => {
-      setState(prev => {
-          const updatedPortfolios = updatePortfolioRecursive(prev.rootPortfolios, { ...portfolio, assets: updatedAssets });
-          const newTotalAssets = updatedPortfolios.reduce((sum, p) => sum + calculatePortfolioTotal(p), 0);
-          const newNetWorth = prev.cash + newTotalAssets;
-          return {
-            ...prev,
-            rootPortfolios: updatedPortfolios,
-            netWorthHistory: recordHistory(prev.netWorthHistory, newNetWorth)
-          }
-      });
+  const handleDeleteTrade = (tradeId: string) => {
+    if (!confirm('آیا مطمئن هستید؟ با حذف این معامله، دارایی‌ها بر اساس تاریخچه مجدداً محاسبه می‌شوند.')) return;
+    runLedgerCommand({ type: 'deleteTrade', tradeId });
+  };
+
+  const handleAssetPriceUpdate = (assetId: string, newPrice: number) => {
+    // Invalid intermediate input (e.g. an emptied field) is ignored silently
+    runLedgerCommand({ type: 'priceUpdate', assetId, price: newPrice }, true);
   };
 
   const handleDeposit = () => {
     const amount = parseFloat(depositAmount) || 0;
     if (amount === 0) return;
-    setState(prev => {
-       const newCash = prev.cash + amount;
-       const currentTotalAssets = prev.rootPortfolios.reduce((sum, p) => sum + calculatePortfolioTotal(p), 0);
-       const newNetWorth = newCash + currentTotalAssets;
-       return {
-         ...prev,
-         cash: newCash,
-         netWorthHistory: recordHistory(prev.netWorthHistory, newNetWorth)
-       };
-    });
+    const command: LedgerCommand = cashKind === 'convert'
+      ? { type: 'convertCurrency', from: cashCurrency, to: convertTo, amount }
+      : cashKind === 'chargeFee'
+        ? { type: 'chargeFee', amount, note: cashNote }
+        : { type: cashKind, amount, note: cashNote, currency: cashCurrency };
+    if (!runLedgerCommand(command)) return;
     setShowDepositModal(false);
     setDepositAmount('');
+    setCashNote('');
   };
 
   const handleCopySql = () => {
@@ -742,12 +610,39 @@ export default function App() {
   const isAllPortfolios = state.selectedPortfolioId === ALL_PORTFOLIOS_ID;
   
   // Flatten portfolios for name lookup
+  const allocationIssues = useMemo(() => checkAllocations(state.cash, state.rootPortfolios), [state.cash, state.rootPortfolios]);
+
   const flatPortfoliosMap = useMemo(() => {
      const map = new Map<string, string>();
      flattenPortfolios(state.rootPortfolios).forEach(p => map.set(p.id, p.name));
      return map;
   }, [state.rootPortfolios]);
 
+  // Every note written so far, for tag and setup suggestions
+  const journalNotes = useMemo(
+    () => [...state.tradeHistory.map(t => t.notes), ...Object.keys(state.positionNotes).map(id => state.positionNotes[id])].filter((n): n is TradeNotes => !!n),
+    [state.tradeHistory, state.positionNotes]
+  );
+
+  // Cash ledger with a running balance (transactions are stored newest first)
+  const cashLedgerRows = useMemo(() => {
+     let balance = 0;
+     return [...state.cashTransactions].reverse().map(tx => {
+        balance += tx.amount;
+        return { tx, balance };
+     }).reverse();
+  }, [state.cashTransactions]);
+
+  // Orders of the selected portfolio subtree, open ones first then newest first
+  const displayedOrders = useMemo(() => {
+     const selected = isAllPortfolios ? null : findPortfolioRecursive(state.rootPortfolios, state.selectedPortfolioId || '');
+     const ids = selected ? getAllPortfolioIds(selected) : null;
+     return [...state.orders]
+       .filter(o => !ids || ids.includes(o.portfolioId))
+       .reverse()
+       .sort((a, b) => (a.status === 'open' ? 0 : 1) - (b.status === 'open' ? 0 : 1));
+  }, [state.orders, state.rootPortfolios, state.selectedPortfolioId, isAllPortfolios]);
+
   // Determine what to show
   let displayedPortfolios: Portfolio[] = [];
   if (isAllPortfolios) {
@@ -834,12 +729,15 @@ export default function App() {
   // Net Total Return = (Realized + Unrealized) - All Fees Paid
   const totalPnl = (unrealizedPnl + realizedPnl) - aggregatedStats.totalFees;
   
-  // Percentage based on TOTAL CAPITAL (Current Net Worth), not just cost basis, as requested
-  // However, mathematically for ROI: Total PnL / (Net Worth - Total PnL) approximates initial capital
-  // Or simply Total PnL / Total Net Worth to show "Profit Share"
-  // Let's use Total PnL / Total Cost for standard ROI, but since user asked "Relative to Total Capital",
-  // We'll show (Total PnL / Net Worth) * 100
-  const totalPnlPercent = totalNetWorth > 0 ? (totalPnl / totalNetWorth) * 100 : 0;
+  // Returns read from the journal's cash flows, so deposits and withdrawals do not count as profit
+  // Extended event by event as the journal grows; price ticks must not replay the whole journal
+  const performanceTrack = useRef<PerformanceTrack | null>(null);
+  const performance = useMemo(() => {
+    performanceTrack.current = updatePerformance(performanceTrack.current, state.journal, selectedPortfolio?.id || null);
+    return performanceTrack.current.points;
+  }, [state.journal, selectedPortfolio?.id]);
+  const sinceInception = periodReturn(performance, 'inception', clockNow());
+  const periodStats = periodReturn(performance, performancePeriod, clockNow());
   
   // Open PnL Percentage (Strictly based on cost basis of open assets)
   const unrealizedPnlPercent = aggregatedStats.totalCost > 0 ? (unrealizedPnl / aggregatedStats.totalCost) * 100 : 0;
@@ -850,11 +748,33 @@ export default function App() {
     color: COLORS[index % COLORS.length]
   }));
   
-  const netWorthData = state.netWorthHistory.map(item => ({
-      date: new Date(item.date).toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' }) + ' ' + new Date(item.date).toLocaleDateString('fa-IR'),
-      rawDate: item.date,
-      value: item.value
-  }));
+  // Reporting currency: Toman amounts are converted at the current rate for display
+  const reporting = findCurrency(state.currencies, state.reportingCurrency);
+  const inReporting = (toman: number) => fromBase(toman, reporting);
+  const formatReporting = (toman: number) => formatMoney(inReporting(toman), reporting);
+
+  // Open positions in foreign-quoted instruments, with their PnL split into asset and currency effects
+  const fxSplit = useMemo(() => {
+    const rows = aggregatedStats.assets
+      .map(asset => ({ asset, currency: findInstrument(state.instruments, asset.instrumentId)?.quoteCurrency || BASE_CURRENCY }))
+      .filter(({ currency }) => currency !== BASE_CURRENCY)
+      .map(({ asset, currency }) => ({ asset, currency, ...splitFxReturn(asset, currency, state.fxRateHistory, state.currencies) }));
+    return {
+      rows,
+      assetReturn: rows.reduce((sum, r) => sum + r.assetReturn, 0),
+      currencyReturn: rows.reduce((sum, r) => sum + r.currencyReturn, 0)
+    };
+  }, [aggregatedStats.assets, state.instruments, state.fxRateHistory, state.currencies]);
+
+  // Each snapshot is converted at the rate of its own date, so past values do not move with today's rate
+  const netWorthData = useMemo(() => state.netWorthHistory.map(item => {
+      const rate = rateAt(state.fxRateHistory, reporting.code, item.date) ?? reporting.rate;
+      return {
+        date: new Date(item.date).toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' }) + ' ' + new Date(item.date).toLocaleDateString('fa-IR'),
+        rawDate: item.date,
+        value: rate > 0 ? item.value / rate : 0
+      };
+  }), [state.netWorthHistory, state.fxRateHistory, reporting]);
 
   // Helper to toggle position details
   const togglePosition = (posId: string) => {
@@ -885,7 +805,15 @@ export default function App() {
                <h1 className="font-bold text-slate-800 text-lg">شبیه‌ساز تریدر پرو</h1>
                <div className="flex items-center gap-2 text-xs text-slate-500">
                   <span>ارزش کل دارایی:</span>
-                  <span className="font-bold text-brand-600 dir-ltr">{formatCurrency(totalNetWorth)}</span>
+                  <span className="font-bold text-brand-600 dir-ltr">{formatReporting(totalNetWorth)}</span>
+                  <select
+                    value={reporting.code}
+                    onChange={(e) => setState(prev => ({ ...prev, reportingCurrency: e.target.value }))}
+                    className="h-6 rounded border border-slate-200 bg-white px-1 text-xs outline-none"
+                    title="ارز گزارش"
+                  >
+                    {state.currencies.map(c => <option key={c.code} value={c.code}>{c.name}</option>)}
+                  </select>
                </div>
             </div>
           </div>
@@ -900,7 +828,10 @@ export default function App() {
                {showSqlCopied ? <Check size={20} className="text-green-500" /> : <Database size={20} />}
             </button>
             <div className="h-6 w-px bg-slate-200 mx-1"></div>
-            <button onClick={() => { if(confirm('بازنشانی کل سیستم؟')) setState(INITIAL_STATE); }} className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg">
+            <button onClick={() => setShowBacktestModal(true)} disabled={!!backtest} className="p-2 text-slate-500 hover:bg-slate-100 hover:text-brand-600 rounded-lg disabled:opacity-40" title="بک‌تست">
+               <FlaskConical size={20} />
+            </button>
+            <button onClick={() => { if(confirm('بازنشانی کل سیستم؟')) setLiveState(INITIAL_STATE); }} disabled={!!backtest} className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg disabled:opacity-40">
                <Activity size={20} />
             </button>
             <button onClick={handleLogout} className="p-2 text-red-500 hover:bg-red-50 rounded-lg">
@@ -911,6 +842,7 @@ export default function App() {
             </div>
           </div>
         </div>
+        {backtest && <BacktestBar session={backtest} onStep={handleBacktestStep} onEnd={handleEndBacktest} />}
       </header>
 
       <main className="flex-1 max-w-[1920px] mx-auto w-full p-6 grid grid-cols-12 gap-6 items-start">
@@ -918,14 +850,23 @@ export default function App() {
         {/* Left: Navigation */}
         <aside className="col-span-12 lg:col-span-3 xl:col-span-2 flex flex-col gap-4">
           <Card className="p-4 bg-gradient-to-br from-slate-900 to-slate-800 text-white border-none">
-             <div className="flex justify-between items-start mb-2">
+             <div className="flex justify-between items-start mb-3">
                <div className="flex items-center gap-2 text-slate-300">
                  <Coins size={16} />
-                 <span className="text-sm">قیمت تتر</span>
+                 <span className="text-sm">نرخ ارزها</span>
                </div>
-               <button onClick={() => { setTempTetherPrice(state.tetherPrice.toString()); setShowTetherModal(true); }} className="text-xs bg-white/10 hover:bg-white/20 px-2 py-1 rounded">ویرایش</button>
+               <button onClick={() => setShowAddCurrencyModal(true)} className="text-xs bg-white/10 hover:bg-white/20 px-2 py-1 rounded">افزودن ارز</button>
+             </div>
+             <div className="space-y-2">
+               {state.currencies.filter(c => c.code !== BASE_CURRENCY).map(c => (
+                 <div key={c.code} className="flex justify-between items-center">
+                   <span className="text-xs text-slate-400">{c.name} <span className="font-mono">({c.symbol})</span></span>
+                   <button onClick={() => setRateModalCurrency(c.code)} className="text-lg font-bold font-mono tracking-wider hover:text-brand-200" title="تاریخچه نرخ">
+                     {formatNumber(c.rate)} <span className="text-[10px] font-sans text-slate-400">تومان</span>
+                   </button>
+                 </div>
+               ))}
              </div>
-             <div className="text-2xl font-bold font-mono tracking-wider">{formatNumber(state.tetherPrice)} <span className="text-xs font-sans text-slate-400">تومان</span></div>
           </Card>
 
            {allocationPieData.length > 0 && (
@@ -951,7 +892,20 @@ export default function App() {
            )}
 
           <Card className="flex-1 overflow-hidden min-h-[300px] flex flex-col">
-            <CardHeader title="مدیریت سبدها" />
+            <CardHeader
+              title="مدیریت سبدها"
+              action={
+                <div className="flex items-center gap-1">
+                  <button onClick={() => setShowHealthCheck(true)} className={`relative p-1.5 rounded hover:bg-slate-100 ${allocationIssues.length > 0 ? 'text-amber-500' : 'text-slate-400 hover:text-brand-600'}`} title="بررسی سلامت بودجه‌ها">
+                    {allocationIssues.length > 0 ? <ShieldAlert size={16} /> : <ShieldCheck size={16} />}
+                    {allocationIssues.length > 0 && <span className="absolute -top-1 -left-1 min-w-[16px] h-4 px-1 rounded-full bg-amber-500 text-white text-[10px] leading-4">{formatNumber(allocationIssues.length)}</span>}
+                  </button>
+                  <button onClick={handleUndoStructure} disabled={!lastStructuralEvent(state.journal)} className="p-1.5 rounded text-slate-400 hover:text-brand-600 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent" title="بازگردانی آخرین تغییر ساختار">
+                    <Undo2 size={16} />
+                  </button>
+                </div>
+              }
+            />
             <div className="p-3 flex-1 overflow-y-auto">
                <PortfolioTree 
                  portfolios={state.rootPortfolios}
@@ -960,6 +914,7 @@ export default function App() {
                  onAdd={(parentId) => setShowAddPortfolioModal({isOpen: true, parentId})}
                  onEdit={handleOpenEditPortfolio}
                  onDelete={handleDeletePortfolio}
+                 onMove={(portfolioId, parentId, beforeId) => runLedgerCommand({ type: 'movePortfolio', portfolioId, parentId, beforeId })}
                />
             </div>
           </Card>
@@ -978,7 +933,7 @@ export default function App() {
                       </div>
                       <div>
                         <div className="text-white/70 text-sm mb-1">{isAllPortfolios ? 'کل بودجه تخصیص یافته' : 'بودجه تخصیص یافته به این سبد'}</div>
-                        <div className="text-3xl font-bold font-mono dir-ltr tracking-tight">{formatCurrency(aggregatedStats.allocation)}</div>
+                        <div className="text-3xl font-bold font-mono dir-ltr tracking-tight">{formatReporting(aggregatedStats.allocation)}</div>
                       </div>
                     </div>
                     
@@ -1006,39 +961,67 @@ export default function App() {
                        <Activity size={20} className="text-brand-500" />
                        وضعیت عملکرد
                        <span className="text-xs font-normal text-slate-500 bg-slate-100 px-2 py-1 rounded-full mr-2">
-                         {activeTab === 'assets' ? 'نمای دارایی‌ها' : activeTab === 'history' ? 'تاریخچه پوزیشن‌ها' : 'نمای تحلیل'}
+                         {activeTab === 'assets' ? 'نمای دارایی‌ها' : activeTab === 'history' ? 'تاریخچه پوزیشن‌ها' : activeTab === 'orders' ? 'سفارش‌ها' : activeTab === 'cash' ? 'گردش نقدی' : activeTab === 'strategies' ? 'آزمایشگاه استراتژی' : 'نمای تحلیل'}
                        </span>
                     </h2>
+                    {selectedPortfolio && (
+                      <Button variant="outline" size="sm" className="text-xs gap-1" onClick={() => setShowRebalanceModal(true)}>
+                        <Scale size={14} /> تعادل‌بخشی
+                        {selectedPortfolio.targets && (
+                          <span className={`mr-1 px-1.5 rounded-full text-[10px] ${maxDrift(state, selectedPortfolio) >= 5 ? 'bg-red-100 text-red-600' : 'bg-slate-100 text-slate-500'}`}>
+                            {maxDrift(state, selectedPortfolio).toFixed(1)}٪
+                          </span>
+                        )}
+                      </Button>
+                    )}
                   </div>
 
                   <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
                      <div className="bg-slate-50 rounded-xl p-4 border border-slate-100 relative overflow-hidden group hover:border-brand-200 transition-colors">
                         <div className="flex items-center gap-2 text-slate-500 text-xs font-medium mb-1"><DollarSign size={14} className="text-blue-500" />ارزش دارایی‌ها</div>
-                        <div className="text-lg font-bold text-slate-800 dir-ltr">{formatNumber(Math.round(aggregatedStats.totalVal))}</div>
-                        <div className="text-[10px] text-slate-400 mt-1">تومان</div>
+                        <div className="text-lg font-bold text-slate-800 dir-ltr">{formatNumber(Math.round(inReporting(aggregatedStats.totalVal)))}</div>
+                        <div className="text-[10px] text-slate-400 mt-1">{reporting.symbol}</div>
                      </div>
                      <div className="bg-slate-50 rounded-xl p-4 border border-slate-100 group hover:border-brand-200 transition-colors">
                         <div className="flex items-center gap-2 text-slate-500 text-xs font-medium mb-1"><Activity size={14} className={unrealizedPnl >= 0 ? "text-green-500" : "text-red-500"} />سود/زیان باز</div>
-                        <div className={`text-lg font-bold dir-ltr ${unrealizedPnl < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatNumber(Math.round(unrealizedPnl))}</div>
+                        <div className={`text-lg font-bold dir-ltr ${unrealizedPnl < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatNumber(Math.round(inReporting(unrealizedPnl)))}</div>
                         <div className={`text-[10px] mt-1 dir-ltr flex items-center gap-1 ${unrealizedPnl < 0 ? 'text-red-500' : 'text-green-500'}`}>
                            {unrealizedPnl >= 0 ? <ArrowUpRight size={10} /> : <ArrowDownRight size={10} />}{unrealizedPnlPercent.toFixed(2)}%
                         </div>
                      </div>
                      <div className="bg-slate-50 rounded-xl p-4 border border-slate-100 group hover:border-brand-200 transition-colors">
                         <div className="flex items-center gap-2 text-slate-500 text-xs font-medium mb-1"><Wallet size={14} className={realizedPnl >= 0 ? "text-green-500" : "text-red-500"} />سود تحقق یافته</div>
-                        <div className={`text-lg font-bold dir-ltr ${realizedPnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatNumber(Math.round(realizedPnl))}</div>
-                        <div className="text-[10px] text-slate-400 mt-1">تومان</div>
+                        <div className={`text-lg font-bold dir-ltr ${realizedPnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatNumber(Math.round(inReporting(realizedPnl)))}</div>
+                        <div className="text-[10px] text-slate-400 mt-1">{reporting.symbol}</div>
                      </div>
                      <div className="bg-slate-50 rounded-xl p-4 border border-slate-100 group hover:border-brand-200 transition-colors">
                         <div className="flex items-center gap-2 text-slate-500 text-xs font-medium mb-1"><PieIcon size={14} className="text-purple-500" />بازده کل (با کارمزد)</div>
-                        <div className={`text-lg font-bold dir-ltr ${totalPnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatNumber(Math.round(totalPnl))}</div>
+                        <div className={`text-lg font-bold dir-ltr ${totalPnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatNumber(Math.round(inReporting(totalPnl)))}</div>
                         <div className={`text-[10px] mt-1 dir-ltr flex items-center gap-1 ${totalPnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-                           <span className="text-slate-400 ml-1">(نسبت به کل سرمایه)</span>
-                           {totalPnlPercent.toFixed(2)}%
+                           <span className="text-slate-400 ml-1">(TWR از ابتدا)</span>
+                           {sinceInception.twr.toFixed(2)}%
                         </div>
                      </div>
                   </div>
 
+                  <div className="flex flex-wrap items-center gap-x-6 gap-y-2 -mt-4 mb-6 p-3 bg-slate-50 rounded-xl border border-slate-100 text-xs">
+                     <div className="flex bg-white p-0.5 rounded-lg border border-slate-200">
+                       {(Object.keys(PERFORMANCE_PERIOD_LABELS) as PerformancePeriod[]).map(period => (
+                         <button key={period} onClick={() => setPerformancePeriod(period)} className={`px-2 py-1 rounded-md transition-all ${performancePeriod === period ? 'bg-brand-600 text-white' : 'text-slate-500 hover:text-slate-700'}`}>
+                           {PERFORMANCE_PERIOD_LABELS[period]}
+                         </button>
+                       ))}
+                     </div>
+                     <span title="بازده وزنی-زمانی: عملکرد دارایی‌ها بدون اثر واریز و برداشت">
+                       TWR: <b className={`dir-ltr inline-block ${periodStats.twr < 0 ? 'text-red-600' : 'text-green-600'}`}>{periodStats.twr.toFixed(2)}%</b>
+                     </span>
+                     <span title="بازده وزنی-پولی سالانه، با در نظر گرفتن زمان و مبلغ هر واریز و برداشت">
+                       XIRR: <b className={`dir-ltr inline-block ${(periodStats.xirr || 0) < 0 ? 'text-red-600' : 'text-green-600'}`}>{periodStats.xirr === null ? '-' : `${periodStats.xirr.toFixed(2)}%`}</b>
+                     </span>
+                     <span>سود دوره: <b className={`dir-ltr inline-block ${periodStats.gain < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatNumber(Math.round(inReporting(periodStats.gain)))}</b></span>
+                     <span>خالص واریز: <b className="dir-ltr inline-block text-slate-700">{formatNumber(Math.round(inReporting(periodStats.netFlow)))}</b> <span className="text-slate-400">{reporting.symbol}</span></span>
+                  </div>
+
                   <div className="flex border-b border-slate-200">
                      <button onClick={() => setActiveTab('assets')} className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${activeTab === 'assets' ? 'border-brand-500 text-brand-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>
                        <Wallet size={16} className="inline ml-2" /> دارایی‌ها
@@ -1046,9 +1029,21 @@ export default function App() {
                      <button onClick={() => setActiveTab('history')} className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${activeTab === 'history' ? 'border-brand-500 text-brand-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>
                        <History size={16} className="inline ml-2" /> تاریخچه پوزیشن‌ها
                      </button>
+                     <button onClick={() => setActiveTab('orders')} className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${activeTab === 'orders' ? 'border-brand-500 text-brand-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>
+                       <ClipboardList size={16} className="inline ml-2" /> سفارش‌ها
+                       {state.orders.some(o => o.status === 'open') && (
+                         <span className="mr-1 text-[10px] bg-blue-100 text-blue-700 px-1.5 rounded-full">{formatNumber(state.orders.filter(o => o.status === 'open').length)}</span>
+                       )}
+                     </button>
+                     <button onClick={() => setActiveTab('cash')} className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${activeTab === 'cash' ? 'border-brand-500 text-brand-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>
+                       <Wallet size={16} className="inline ml-2" /> گردش نقدی
+                     </button>
                      <button onClick={() => setActiveTab('analytics')} className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${activeTab === 'analytics' ? 'border-brand-500 text-brand-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>
                        <PieIcon size={16} className="inline ml-2" /> تحلیل
                      </button>
+                     <button onClick={() => setActiveTab('strategies')} className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${activeTab === 'strategies' ? 'border-brand-500 text-brand-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>
+                       <Code2 size={16} className="inline ml-2" /> استراتژی‌ها
+                     </button>
                   </div>
 
                   <div className="mt-4">
@@ -1090,6 +1085,24 @@ export default function App() {
                            </div>
                          )}
 
+                         {!isAllPortfolios && displayPortfolioForAssets?.margin && (() => {
+                           const metrics = calculateMarginMetrics(displayPortfolioForAssets);
+                           const tone = metrics.status === 'ok' ? 'bg-slate-50 border-slate-200' : 'bg-red-50 border-red-200';
+                           return (
+                             <div className={`rounded-lg border p-3 grid grid-cols-2 md:grid-cols-5 gap-3 text-xs ${tone}`}>
+                               <div><div className="text-slate-500">ارزش ویژه (Equity)</div><div className="font-bold font-mono mt-1">{formatNumber(Math.round(metrics.equity))}</div></div>
+                               <div><div className="text-slate-500">حجم پوزیشن‌ها</div><div className="font-bold font-mono mt-1">{formatNumber(Math.round(metrics.exposure))}</div></div>
+                               <div><div className="text-slate-500">قدرت خرید (اهرم {formatNumber(displayPortfolioForAssets.margin.leverage)}x)</div><div className="font-bold font-mono mt-1">{formatNumber(Math.round(metrics.buyingPower))}</div></div>
+                               <div><div className="text-slate-500">استقراض / بهره معوق</div><div className="font-bold font-mono mt-1">{formatNumber(Math.round(metrics.borrowed))} / {formatNumber(Math.round(displayPortfolioForAssets.accruedInterest || 0))}</div></div>
+                               <div>
+                                 <div className="text-slate-500">حد نگهداری</div>
+                                 <div className="font-bold font-mono mt-1">{formatNumber(Math.round(metrics.maintenanceRequirement))}</div>
+                                 {metrics.status === 'call' && <div className="text-red-600 font-bold mt-1 flex items-center gap-1"><AlertCircle size={12} /> کال مارجین</div>}
+                               </div>
+                             </div>
+                           );
+                         })()}
+
                          <div className="overflow-x-auto">
                            {(isAllPortfolios ? aggregatedStats.assets : displayPortfolioForAssets?.assets || []).length === 0 ? (
                              <div className="text-center py-10 text-slate-400 border border-dashed border-slate-200 rounded-lg">
@@ -1112,13 +1125,29 @@ export default function App() {
                                    const currentValue = asset.amount * asset.currentPrice;
                                    const costBasis = asset.amount * asset.avgBuyPrice;
                                    const pnl = currentValue - costBasis;
-                                   const pnlPercent = costBasis > 0 ? (pnl / costBasis) * 100 : 0;
+                                   const pnlPercent = costBasis !== 0 ? (pnl / Math.abs(costBasis)) * 100 : 0;
+                                   const instrument = findInstrument(state.instruments, asset.instrumentId);
                                    
                                    return (
                                      <tr key={asset.id} className="hover:bg-slate-50 transition-colors group">
-                                       <td className="p-3 font-medium">{asset.name}</td>
+                                       <td className="p-3 font-medium">
+                                         <span className="font-mono text-xs text-slate-400 ml-1">{asset.symbol}</span>
+                                         {asset.name}
+                                         {instrument && <span className="text-[10px] bg-slate-100 text-slate-500 px-1.5 rounded mr-1">{ASSET_CLASS_LABELS[instrument.assetClass]}</span>}
+                                         {asset.amount < 0 && <span className="text-[10px] bg-red-100 text-red-700 px-1.5 rounded mr-1">شورت</span>}
+                                         {instrument && (
+                                           <button onClick={() => setChartInstrumentId(instrument.id)} className="p-1 mr-1 align-middle text-slate-300 hover:text-brand-600 rounded opacity-0 group-hover:opacity-100 transition-opacity" title="نمودار قیمت">
+                                             <CandlestickChart size={14} />
+                                           </button>
+                                         )}
+                                         {asset.lots && asset.lots.length > 1 && (
+                                           <div className="text-[10px] text-slate-400 font-normal" title={asset.lots.map(l => `${formatNumber(l.amount)} @ ${formatNumber(Math.round(l.unitCost))}`).join('\n')}>
+                                             {formatNumber(asset.lots.length)} لات
+                                           </div>
+                                         )}
+                                       </td>
                                        <td className="p-3">{formatNumber(asset.amount)}</td>
-                                       <td className="p-3 text-slate-500">{formatNumber(Math.round(asset.avgBuyPrice))}</td>
+                                       <td className="p-3 text-slate-500">{formatPrice(asset.avgBuyPrice, instrument)}</td>
                                        <td className="p-3">
                                          <input 
                                            type="number" 
@@ -1144,6 +1173,11 @@ export default function App() {
                     {/* POSITIONS HISTORY TAB */}
                     {activeTab === 'history' && (
                         <div className="space-y-4">
+                           <TradeStatsPanel
+                             positions={displayedPositions}
+                             instruments={state.instruments}
+                             portfolioName={id => flatPortfoliosMap.get(id) || id}
+                           />
                            {displayedPositions.length === 0 ? (
                                <div className="text-center py-12 text-slate-400 border border-dashed border-slate-200 rounded-lg">
                                    <Briefcase size={32} className="mx-auto mb-2 opacity-50" />
@@ -1166,8 +1200,18 @@ export default function App() {
                                                    </div>
                                                    <div>
                                                        <div className="font-bold text-slate-800 text-lg flex items-center gap-2">
-                                                           {pos.assetName}
+                                                           {findInstrument(state.instruments, pos.instrumentId)?.name || pos.assetName}
+                                                           <span className="font-mono text-xs text-slate-400 font-normal">{findInstrument(state.instruments, pos.instrumentId)?.symbol}</span>
+                                                           {pos.side === 'SHORT' && <span className="text-[10px] px-2 py-0.5 rounded-full bg-red-100 text-red-700 font-normal">شورت</span>}
                                                            <span className="text-[10px] px-2 py-0.5 rounded-full bg-slate-100 text-slate-500 font-normal">{flatPortfoliosMap.get(pos.portfolioId)}</span>
+                                                           {positionTags(pos).map(tag => <span key={tag} className="text-[10px] px-2 py-0.5 rounded-full bg-brand-50 text-brand-700 font-normal">#{tag}</span>)}
+                                                           <button
+                                                             onClick={e => { e.stopPropagation(); setEditingNotes({ target: 'position', targetId: pos.id, title: `پوزیشن ${pos.assetName}`, notes: pos.notes }); }}
+                                                             className={`p-1 rounded hover:bg-slate-100 ${pos.notes ? 'text-brand-600' : 'text-slate-300 hover:text-slate-500'}`}
+                                                             title="یادداشت پوزیشن"
+                                                           >
+                                                               <NotebookPen size={14} />
+                                                           </button>
                                                        </div>
                                                        <div className="text-xs text-slate-500 flex items-center gap-3 mt-1">
                                                            <span className="flex items-center gap-1"><Calendar size={10} /> {new Date(pos.startDate).toLocaleDateString('fa-IR')}</span>
@@ -1199,6 +1243,24 @@ export default function App() {
                                            {/* Expanded Details: Trade List */}
                                            {isExpanded && (
                                                <div className="bg-slate-50 border-t border-slate-100 p-4">
+                                                   {pos.notes && (
+                                                       <div className="mb-4 p-3 bg-white rounded-lg border border-slate-200 text-xs space-y-1">
+                                                           {(pos.notes.setup || pos.notes.emotion) && (
+                                                               <div className="flex gap-4 text-slate-500">
+                                                                   {pos.notes.setup && <span>ستاپ: <b className="text-slate-700">{pos.notes.setup}</b></span>}
+                                                                   {pos.notes.emotion && <span>حال: <b className="text-slate-700">{pos.notes.emotion}</b></span>}
+                                                               </div>
+                                                           )}
+                                                           {pos.notes.note && <p className="text-slate-700 whitespace-pre-line">{pos.notes.note}</p>}
+                                                           {pos.notes.screenshots && (
+                                                               <div className="flex flex-wrap gap-2 pt-1">
+                                                                   {pos.notes.screenshots.map(link => (
+                                                                       <a key={link} href={link} target="_blank" rel="noreferrer"><img src={link} alt="" className="h-16 w-24 object-cover rounded border border-slate-200" /></a>
+                                                                   ))}
+                                                               </div>
+                                                           )}
+                                                       </div>
+                                                   )}
                                                    <h4 className="text-xs font-bold text-slate-500 mb-3 uppercase tracking-wider">ریز معاملات این پوزیشن</h4>
                                                    <div className="overflow-x-auto bg-white rounded-lg border border-slate-200">
                                                        <table className="w-full text-xs text-right">
@@ -1220,6 +1282,10 @@ export default function App() {
                                                                            <span className={`px-2 py-0.5 rounded ${trade.type === 'buy' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
                                                                                {trade.type === 'buy' ? 'خرید' : 'فروش'}
                                                                            </span>
+                                                                           {trade.liquidation && <span className="mr-1 px-2 py-0.5 rounded bg-amber-100 text-amber-700">لیکوئید</span>}
+                                                                           {trade.transferId && <span className="mr-1 px-2 py-0.5 rounded bg-blue-100 text-blue-700">انتقال</span>}
+                                                                           {trade.notes?.tags?.map(tag => <span key={tag} className="mr-1 text-[10px] text-brand-700">#{tag}</span>)}
+                                                                           {trade.notes?.note && <div className="text-[11px] text-slate-500 mt-1 max-w-xs truncate" title={trade.notes.note}>{trade.notes.note}</div>}
                                                                        </td>
                                                                        <td className="p-2 dir-ltr text-right text-slate-500">{new Date(trade.timestamp).toLocaleDateString('fa-IR')}</td>
                                                                        <td className="p-2 font-mono">{formatNumber(Math.round(trade.price))}</td>
@@ -1227,14 +1293,27 @@ export default function App() {
                                                                        <td className="p-2 font-mono">{formatNumber(Math.round(trade.totalValue))}</td>
                                                                        <td className="p-2 text-slate-400">{formatNumber(Math.round(trade.fee))}</td>
                                                                        <td className="p-2 flex justify-center gap-2">
-                                                                           {/* We only implement Delete for robustness, Edit is complex with recalculation so usually Delete+Re-enter is safer in simulators */}
-                                                                           <button 
-                                                                             onClick={() => handleDeleteTrade(trade.id, trade.portfolioId)}
+                                                                           {!trade.transferId && <button
+                                                                             onClick={() => setEditingNotes({ target: 'trade', targetId: trade.id, title: `معامله ${trade.type === 'buy' ? 'خرید' : 'فروش'} ${new Date(trade.timestamp).toLocaleDateString('fa-IR')}`, notes: trade.notes })}
+                                                                             className={`p-1 rounded transition-colors hover:bg-slate-100 ${trade.notes ? 'text-brand-600' : 'text-slate-400 hover:text-slate-600'}`}
+                                                                             title="یادداشت معامله"
+                                                                           >
+                                                                               <NotebookPen size={14} />
+                                                                           </button>}
+                                                                           {!trade.transferId && !trade.liquidation && <button
+                                                                             onClick={() => setEditingTrade(trade)}
+                                                                             className="p-1 text-slate-400 hover:text-brand-600 hover:bg-brand-50 rounded transition-colors"
+                                                                             title="ویرایش معامله"
+                                                                           >
+                                                                               <Pencil size={14} />
+                                                                           </button>}
+                                                                           {!trade.transferId && <button 
+                                                                             onClick={() => handleDeleteTrade(trade.id)}
                                                                              className="p-1 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
                                                                              title="حذف معامله"
                                                                            >
                                                                                <Trash2 size={14} />
-                                                                           </button>
+                                                                           </button>}
                                                                        </td>
                                                                    </tr>
                                                                ))}
@@ -1250,9 +1329,152 @@ export default function App() {
                         </div>
                     )}
 
+                    {/* ORDERS TAB */}
+                    {activeTab === 'orders' && (
+                        <div className="overflow-x-auto">
+                           {displayedOrders.length > 0 ? (
+                           <table className="w-full text-sm text-right">
+                             <thead className="bg-slate-50 text-slate-500">
+                               <tr>
+                                 <th className="p-3 rounded-r-lg">تاریخ ثبت</th>
+                                 <th className="p-3">دارایی</th>
+                                 <th className="p-3">نوع</th>
+                                 <th className="p-3">مقدار</th>
+                                 <th className="p-3">قیمت فعال‌سازی</th>
+                                 <th className="p-3">وضعیت</th>
+                                 <th className="p-3 rounded-l-lg"></th>
+                               </tr>
+                             </thead>
+                             <tbody className="divide-y divide-slate-100">
+                               {displayedOrders.map(order => (
+                                 <tr key={order.id} className="hover:bg-slate-50 transition-colors">
+                                   <td className="p-3 text-slate-500 text-xs">{new Date(order.createdAt).toLocaleDateString('fa-IR')} {new Date(order.createdAt).toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' })}</td>
+                                   <td className="p-3">
+                                     <div className="font-medium">{order.assetName}</div>
+                                     <div className="text-[10px] text-slate-400">{flatPortfoliosMap.get(order.portfolioId) || '-'}</div>
+                                   </td>
+                                   <td className="p-3">
+                                     <span className={`text-xs font-bold ${order.side === 'buy' ? 'text-green-600' : 'text-red-600'}`}>{order.side === 'buy' ? 'خرید' : 'فروش'}</span>
+                                     <span className="text-xs text-slate-500 mr-1">{ORDER_KIND_LABELS[order.kind]}</span>
+                                     {order.ocoGroupId && <span className="text-[10px] bg-purple-100 text-purple-700 px-1.5 rounded mr-1">OCO</span>}
+                                   </td>
+                                   <td className="p-3 font-mono">{formatNumber(order.amount)}</td>
+                                   <td className="p-3 font-mono">{formatNumber(order.triggerPrice)}</td>
+                                   <td className="p-3">
+                                     <span className={`px-2 py-0.5 rounded text-xs ${ORDER_STATUS_LABELS[order.status].className}`}>{ORDER_STATUS_LABELS[order.status].label}</span>
+                                     {order.note && <div className="text-[10px] text-slate-400 mt-1">{order.note}</div>}
+                                   </td>
+                                   <td className="p-3">
+                                     {order.status === 'open' && (
+                                       <div className="flex gap-1">
+                                         <button onClick={() => handleOpenModifyOrder(order)} className="text-slate-400 hover:text-brand-600 p-1" title="ویرایش سفارش"><Pencil size={14} /></button>
+                                         <button onClick={() => handleCancelOrder(order.id)} className="text-slate-400 hover:text-red-600 p-1" title="لغو سفارش"><X size={14} /></button>
+                                       </div>
+                                     )}
+                                   </td>
+                                 </tr>
+                               ))}
+                             </tbody>
+                           </table>
+                           ) : (
+                             <div className="text-center py-10 text-slate-400">
+                               <ClipboardList size={48} className="mx-auto mb-3 opacity-20" />
+                               <p>هیچ سفارشی ثبت نشده است.</p>
+                             </div>
+                           )}
+                        </div>
+                    )}
+
+                    {/* CASH LEDGER TAB */}
+                    {activeTab === 'cash' && (
+                        <div className="overflow-x-auto">
+                           <table className="w-full text-sm text-right">
+                             <thead className="bg-slate-50 text-slate-500">
+                               <tr>
+                                 <th className="p-3 rounded-r-lg">تاریخ</th>
+                                 <th className="p-3">نوع</th>
+                                 <th className="p-3">شرح</th>
+                                 <th className="p-3">سبد</th>
+                                 <th className="p-3">مبلغ</th>
+                                 <th className="p-3 rounded-l-lg">مانده</th>
+                               </tr>
+                             </thead>
+                             <tbody className="divide-y divide-slate-100">
+                               {cashLedgerRows.map(({ tx, balance }) => (
+                                 <tr key={tx.id} className="hover:bg-slate-50 transition-colors">
+                                   <td className="p-3 text-slate-500 text-xs">{new Date(tx.timestamp).toLocaleDateString('fa-IR')} {new Date(tx.timestamp).toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' })}</td>
+                                   <td className="p-3">
+                                     <span className={`px-2 py-0.5 rounded text-xs ${CASH_TX_LABELS[tx.type].className}`}>{CASH_TX_LABELS[tx.type].label}</span>
+                                   </td>
+                                   <td className="p-3 text-slate-600">{tx.note || '-'}</td>
+                                   <td className="p-3 text-xs text-slate-400">{tx.portfolioId ? flatPortfoliosMap.get(tx.portfolioId) : '-'}</td>
+                                   <td className={`p-3 font-mono dir-ltr text-right ${tx.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatNumber(Math.round(tx.amount))}</td>
+                                   <td className="p-3 font-mono text-slate-500">{formatNumber(Math.round(balance))}</td>
+                                 </tr>
+                               ))}
+                             </tbody>
+                           </table>
+                        </div>
+                    )}
+
                     {/* ANALYTICS TAB */}
                     {activeTab === 'analytics' && (
                         <div className="space-y-6 mt-4">
+                           <BenchmarkPanel
+                             state={state}
+                             performance={performance}
+                             portfolioId={selectedPortfolio?.id || null}
+                             scopeName={selectedPortfolio?.name || 'کل حساب'}
+                             settings={benchmarkSettings}
+                             onChange={saveBenchmarkSettings}
+                           />
+
+                           <RiskPanel
+                             performance={performance}
+                             scopeName={selectedPortfolio?.name || 'کل حساب'}
+                             formatAmount={formatReporting}
+                             settings={riskSettings}
+                             onChange={saveRiskSettings}
+                           />
+
+                           {fxSplit.rows.length > 0 && (
+                             <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
+                               <h4 className="font-bold text-slate-700 mb-1 flex items-center gap-2">
+                                 <Coins size={18} className="text-brand-600" />
+                                 تفکیک بازده: عملکرد دارایی در برابر تغییر نرخ ارز
+                               </h4>
+                               <p className="text-xs text-slate-400 mb-4">سود/زیان باز پوزیشن نمادهایی که به ارز خارجی قیمت‌گذاری می‌شوند؛ اثر ارز با نرخ زمان خرید هر لات نسبت به نرخ فعلی محاسبه می‌شود.</p>
+                               <table className="w-full text-sm text-right">
+                                 <thead className="bg-slate-50 text-slate-500">
+                                   <tr>
+                                     <th className="p-3 rounded-r-lg">دارایی</th>
+                                     <th className="p-3">ارز</th>
+                                     <th className="p-3">بازده دارایی</th>
+                                     <th className="p-3">اثر ارز</th>
+                                     <th className="p-3 rounded-l-lg">مجموع</th>
+                                   </tr>
+                                 </thead>
+                                 <tbody className="divide-y divide-slate-100">
+                                   {fxSplit.rows.map(({ asset, currency, assetReturn, currencyReturn }) => (
+                                     <tr key={asset.id} className="hover:bg-slate-50 transition-colors">
+                                       <td className="p-3 font-bold text-slate-700">{asset.name}</td>
+                                       <td className="p-3 text-xs text-slate-500">{findCurrency(state.currencies, currency).name}</td>
+                                       <td className={`p-3 font-mono dir-ltr text-right ${assetReturn < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatNumber(Math.round(inReporting(assetReturn)))}</td>
+                                       <td className={`p-3 font-mono dir-ltr text-right ${currencyReturn < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatNumber(Math.round(inReporting(currencyReturn)))}</td>
+                                       <td className="p-3 font-mono dir-ltr text-right text-slate-700">{formatNumber(Math.round(inReporting(assetReturn + currencyReturn)))}</td>
+                                     </tr>
+                                   ))}
+                                   <tr className="bg-slate-50 font-bold">
+                                     <td className="p-3" colSpan={2}>جمع ({reporting.symbol})</td>
+                                     <td className={`p-3 font-mono dir-ltr text-right ${fxSplit.assetReturn < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatNumber(Math.round(inReporting(fxSplit.assetReturn)))}</td>
+                                     <td className={`p-3 font-mono dir-ltr text-right ${fxSplit.currencyReturn < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatNumber(Math.round(inReporting(fxSplit.currencyReturn)))}</td>
+                                     <td className="p-3 font-mono dir-ltr text-right">{formatNumber(Math.round(inReporting(fxSplit.assetReturn + fxSplit.currencyReturn)))}</td>
+                                   </tr>
+                                 </tbody>
+                               </table>
+                             </div>
+                           )}
+
                            {/* Chart 1: Net Worth (Area) - Now the only main chart */}
                            <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm h-[500px]">
                              <h4 className="font-bold text-slate-700 mb-6 text-lg text-center flex items-center justify-center gap-2">
@@ -1270,8 +1492,8 @@ export default function App() {
                                     </defs>
                                     <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
                                     <XAxis dataKey="date" tick={{fontSize: 12}} axisLine={false} tickMargin={10} />
-                                    <YAxis tickFormatter={(val) => `${(val/1000000000).toFixed(2)}B`} tick={{fontSize: 12}} stroke="#64748b" domain={['auto', 'auto']}/>
-                                    <Tooltip content={<CustomTooltip />} />
+                                    <YAxis tickFormatter={(val) => new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 2 }).format(val)} tick={{fontSize: 12}} stroke="#64748b" domain={['auto', 'auto']}/>
+                                    <Tooltip content={<CustomTooltip currency={reporting} />} />
                                     <Area type="monotone" dataKey="value" name="value" stroke="#2563eb" fillOpacity={1} fill="url(#colorValue)" strokeWidth={3}/>
                                   </AreaChart>
                                </ResponsiveContainer>
@@ -1281,6 +1503,11 @@ export default function App() {
                            </div>
                         </div>
                     )}
+
+                    {/* STRATEGIES TAB */}
+                    {activeTab === 'strategies' && (
+                        <StrategyLab base={state} strategies={strategies} onSaveStrategies={saveStrategies} />
+                    )}
                   </div>
                </div>
              </>
@@ -1297,27 +1524,67 @@ export default function App() {
            <Card className="p-5 bg-white border-brand-100">
              <div className="mb-4 pb-4 border-b border-slate-100">
                 <div className="flex items-center gap-2 text-slate-500 mb-1"><Coins size={14} /><span className="text-xs font-medium">ارزش کل سرمایه</span></div>
-                <div className="text-xl font-bold text-brand-600 dir-ltr tracking-tight">{formatCurrency(totalNetWorth)}</div>
-                <div className="text-xs text-slate-400 mt-1">{numberToPersianWords(totalNetWorth)} تومان</div>
+                <div className="text-xl font-bold text-brand-600 dir-ltr tracking-tight">{formatReporting(totalNetWorth)}</div>
+                {reporting.code === BASE_CURRENCY && <div className="text-xs text-slate-400 mt-1">{numberToPersianWords(totalNetWorth)} تومان</div>}
              </div>
              <div className="flex justify-between items-center mb-4">
                <div>
                    <span className="text-sm text-slate-500 font-medium block">موجودی نقد (آزاد)</span>
-                   <div className="text-2xl font-bold text-slate-800 mt-1">{formatCurrency(state.cash)}</div>
+                   <div className="text-2xl font-bold text-slate-800 mt-1">{formatReporting(state.cash)}</div>
+                   {state.currencies.filter(c => Math.abs(state.cashBalances[c.code] || 0) > 0.000001).map(c => (
+                     <div key={c.code} className="flex justify-between text-xs text-slate-500 mt-1">
+                       <span>{c.name}</span>
+                       <span className="dir-ltr font-mono">{formatMoney(state.cashBalances[c.code], c)}</span>
+                     </div>
+                   ))}
                </div>
                <div className="p-3 bg-green-50 text-green-600 rounded-xl"><Wallet size={24} /></div>
              </div>
-             <Button variant="outline" className="w-full text-xs" onClick={() => { setDepositAmount(''); setShowDepositModal(true); }}>مدیریت موجودی</Button>
+             <Button variant="outline" className="w-full text-xs" onClick={() => { setDepositAmount(''); setCashNote(''); setCashKind('deposit'); setCashCurrency(BASE_CURRENCY); setShowDepositModal(true); }}>مدیریت موجودی</Button>
+             <Button variant="ghost" className="w-full text-xs mt-2 gap-1" onClick={() => setShowTransferModal(true)} disabled={flattenPortfolios(state.rootPortfolios).length < 2}>
+               <ArrowLeftRight size={14} /> انتقال بین سبدها
+             </Button>
            </Card>
 
            <TradeForm 
              portfolio={selectedPortfolio} 
              rootPortfolios={state.rootPortfolios}
              onPortfolioSelect={handleSelectPortfolio}
-             tetherPrice={state.tetherPrice}
+             currencies={state.currencies}
+             fxRateHistory={state.fxRateHistory}
+             instruments={state.instruments}
+             onManageInstruments={() => setShowInstrumentModal(true)}
              cashBalance={state.cash}
              onTrade={handleTrade}
+             onPlaceOrder={handlePlaceOrder}
+             onPlaceOco={handlePlaceOco}
            />
+
+           {selectedPortfolio && (
+             <Card className="p-4">
+               <div className="flex justify-between items-center mb-3">
+                 <div className="flex items-center gap-2 font-bold text-slate-700 text-sm"><Repeat size={16} /> خرید دوره‌ای</div>
+                 <Button variant="outline" size="sm" className="text-xs" onClick={() => setShowPlanModal(true)}>مدیریت</Button>
+               </div>
+               {state.plans.filter(p => p.portfolioId === selectedPortfolio.id).map(plan => {
+                 const next = nextDueDate(plan, clockNow());
+                 const lastRun = state.planRuns.find(r => r.planId === plan.id);
+                 return (
+                   <div key={plan.id} className="flex justify-between items-center py-1.5 text-xs border-t border-slate-100">
+                     <div>
+                       <span className="font-mono font-bold text-slate-700">{state.instruments.find(i => i.id === plan.instrumentId)?.symbol}</span>
+                       <span className="text-slate-400 mr-1">{PLAN_FREQUENCY_LABELS[plan.frequency]}</span>
+                       {lastRun && !lastRun.tradeId && <div className="text-amber-600 mt-0.5">آخرین اجرا رد شد: {lastRun.skipReason}</div>}
+                     </div>
+                     <span className="text-slate-500">{!plan.active ? 'متوقف' : next ? new Date(next).toLocaleDateString('fa-IR') : 'پایان یافته'}</span>
+                   </div>
+                 );
+               })}
+               {!state.plans.some(p => p.portfolioId === selectedPortfolio.id) && <p className="text-xs text-slate-400">برنامه‌ای برای این سبد تعریف نشده است</p>}
+             </Card>
+           )}
+
+           {!backtest && <MarketFeedPanel getMarket={() => buildMarketSnapshot(stateRef.current)} onQuotes={handleMarketQuotes} />}
         </aside>
       </main>
 
@@ -1329,6 +1596,7 @@ export default function App() {
             <div className="space-y-4">
               <Input label="نام سبد" value={newPortfolioName} onChange={e => setNewPortfolioName(e.target.value)} autoFocus />
               <Input label="بودجه تخصیصی (تومان)" type="number" value={newPortfolioAlloc} onChange={e => setNewPortfolioAlloc(e.target.value)} />
+              <CostBasisSelect value={newPortfolioMethod} onChange={setNewPortfolioMethod} />
               <Button onClick={handleAddPortfolio} className="w-full mt-2">ایجاد سبد</Button>
             </div>
           </Card>
@@ -1342,18 +1610,177 @@ export default function App() {
             <div className="space-y-4">
               <Input label="نام سبد" value={editPortfolioName} onChange={e => setEditPortfolioName(e.target.value)} autoFocus />
               <Input label="بودجه تخصیصی (تومان)" type="number" value={editPortfolioAlloc} onChange={e => setEditPortfolioAlloc(e.target.value)} />
+              <CostBasisSelect value={editPortfolioMethod} onChange={setEditPortfolioMethod} />
+              <p className="text-xs text-slate-500">تغییر روش بهای تمام شده فقط روی فروش‌های بعد از این لحظه اثر دارد.</p>
+              <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-3">
+                <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+                  <input type="checkbox" checked={editMarginEnabled} onChange={e => setEditMarginEnabled(e.target.checked)} />
+                  حساب مارجین (اهرم و فروش استقراضی)
+                </label>
+                {editMarginEnabled && (
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input label="اهرم" type="number" step="any" value={editLeverage} onChange={e => setEditLeverage(e.target.value)} suffix="x" />
+                    <Input label="حد نگهداری" type="number" step="any" value={editMaintenance} onChange={e => setEditMaintenance(e.target.value)} suffix="%" />
+                    <Input label="بهره سالانه" type="number" step="any" value={editBorrowRate} onChange={e => setEditBorrowRate(e.target.value)} suffix="%" />
+                  </div>
+                )}
+              </div>
               <div className="flex gap-2"><Button onClick={handleUpdatePortfolio} className="flex-1 mt-2">ذخیره تغییرات</Button><Button variant="secondary" onClick={() => setShowEditPortfolioModal({isOpen: false, portfolio: null})} className="flex-1 mt-2">انصراف</Button></div>
             </div>
           </Card>
         </div>
       )}
 
-      {showTetherModal && (
+      {editingOrder && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <Card className="w-full max-w-sm p-6">
+            <div className="flex justify-between items-center mb-4"><h3 className="font-bold text-lg">ویرایش سفارش {editingOrder.assetName}</h3><button onClick={() => setEditingOrder(null)}><X size={20} /></button></div>
+            <div className="space-y-4">
+              <Input label="مقدار (تعداد)" type="number" step="any" value={editOrderAmount} onChange={e => setEditOrderAmount(e.target.value)} />
+              <Input label="قیمت فعال‌سازی (تومان)" type="number" step="any" value={editOrderPrice} onChange={e => setEditOrderPrice(e.target.value)} />
+              <div className="flex gap-2"><Button onClick={handleModifyOrder} className="flex-1 mt-2">ذخیره تغییرات</Button><Button variant="secondary" onClick={() => setEditingOrder(null)} className="flex-1 mt-2">انصراف</Button></div>
+            </div>
+          </Card>
+        </div>
+      )}
+
+      {showBacktestModal && (
+        <BacktestModal
+          results={backtestResults}
+          liveNetWorth={liveState.cash + calculateTotalAssets(liveState.rootPortfolios)}
+          onStart={handleStartBacktest}
+          onDeleteResult={(id) => saveBacktestResults(backtestResults.filter(r => r.id !== id))}
+          onClose={() => setShowBacktestModal(false)}
+        />
+      )}
+
+      {showInstrumentModal && (
+        <InstrumentModal
+          instruments={state.instruments}
+          currencies={state.currencies}
+          onAdd={(input) => runLedgerCommand({ ...input, type: 'addInstrument' })}
+          onEdit={(instrumentId, input) => runLedgerCommand({ ...input, type: 'editInstrument', instrumentId })}
+          onClose={() => setShowInstrumentModal(false)}
+        />
+      )}
+
+      {deletingPortfolioId && findPortfolioRecursive(state.rootPortfolios, deletingPortfolioId) && (
+        <DeletePortfolioModal
+          portfolio={findPortfolioRecursive(state.rootPortfolios, deletingPortfolioId)!}
+          rootPortfolios={state.rootPortfolios}
+          onDelete={(mergeInto) => deletePortfolio(deletingPortfolioId, mergeInto)}
+          onClose={() => setDeletingPortfolioId(null)}
+        />
+      )}
+
+      {editingTrade && (
+        <TradeEditModal
+          trade={editingTrade}
+          portfolios={flattenPortfolios(state.rootPortfolios).map(p => ({ id: p.id, name: p.name }))}
+          instruments={state.instruments}
+          currencyName={findCurrency(state.currencies, editingTrade.currency || BASE_CURRENCY).name}
+          onSave={trade => {
+            const result = applyCommand(state, { type: 'editTrade', tradeId: editingTrade.id, trade }, clockNow());
+            if (result.ok === false) return result.error.message;
+            setState(result.state);
+            return null;
+          }}
+          onClose={() => setEditingTrade(null)}
+        />
+      )}
+
+      {editingNotes && (
+        <NotesModal
+          title={editingNotes.title}
+          notes={editingNotes.notes}
+          knownTags={journalNotes.flatMap(n => n.tags || []).filter((t, i, all) => all.indexOf(t) === i)}
+          knownSetups={journalNotes.map(n => n.setup || '').filter((s, i, all) => s && all.indexOf(s) === i)}
+          onSave={notes => runLedgerCommand({ type: 'setNotes', target: editingNotes.target, targetId: editingNotes.targetId, notes })}
+          onClose={() => setEditingNotes(null)}
+        />
+      )}
+
+      {showHealthCheck && (
+        <HealthCheckModal
+          cash={state.cash}
+          rootPortfolios={state.rootPortfolios}
+          onRepair={(changes) => runLedgerCommand({ type: 'setAllocations', changes })}
+          onClose={() => setShowHealthCheck(false)}
+        />
+      )}
+
+      {showTransferModal && (
+        <TransferModal
+          rootPortfolios={state.rootPortfolios}
+          instruments={state.instruments}
+          transfers={state.transfers}
+          defaultFromId={selectedPortfolio?.id || null}
+          onTransfer={(input) => runLedgerCommand({ ...input, type: 'transfer' })}
+          onCancel={(transferId) => runLedgerCommand({ type: 'cancelTransfer', transferId })}
+          onClose={() => setShowTransferModal(false)}
+        />
+      )}
+
+      {showRebalanceModal && selectedPortfolio && (
+        <RebalanceModal
+          state={state}
+          portfolio={selectedPortfolio}
+          now={clockNow()}
+          onSaveTargets={(targets) => runLedgerCommand({ type: 'setTargets', portfolioId: selectedPortfolio.id, targets })}
+          onExecute={(trades) => runLedgerCommand(rebalanceCommands(trades))}
+          onClose={() => setShowRebalanceModal(false)}
+        />
+      )}
+
+      {showPlanModal && selectedPortfolio && (
+        <PlanModal
+          portfolio={selectedPortfolio}
+          plans={state.plans.filter(p => p.portfolioId === selectedPortfolio.id)}
+          runs={state.planRuns}
+          instruments={state.instruments}
+          currencies={state.currencies}
+          now={clockNow()}
+          onAdd={(input) => runLedgerCommand([{ ...input, type: 'addPlan', portfolioId: selectedPortfolio.id }, { type: 'runPlans' }])}
+          onEdit={(planId, input) => runLedgerCommand([{ ...input, type: 'editPlan', planId }, { type: 'runPlans' }])}
+          onDelete={(planId) => runLedgerCommand({ type: 'deletePlan', planId })}
+          onClose={() => setShowPlanModal(false)}
+        />
+      )}
+
+      {chartInstrument && (
+        <PriceChartModal
+          instrument={chartInstrument}
+          points={state.priceHistory[chartInstrument.id] || []}
+          fills={state.tradeHistory.filter(t => t.instrumentId === chartInstrument.id)}
+          onImport={(prices) => runLedgerCommand({ type: 'importPrices', instrumentId: chartInstrument.id, prices })}
+          onClose={() => setChartInstrumentId(null)}
+        />
+      )}
+
+      {rateModalInfo && (
+        <FxRateModal
+          currency={rateModalInfo}
+          history={state.fxRateHistory}
+          onAdd={(rate, effectiveAt) => runLedgerCommand({ type: 'setFxRate', currency: rateModalInfo.code, rate, effectiveAt })}
+          onEdit={(originalAt, effectiveAt, rate) => runLedgerCommand({ type: 'editFxRate', currency: rateModalInfo.code, originalAt, effectiveAt, rate })}
+          onImport={(rates) => runLedgerCommand({ type: 'importFxRates', currency: rateModalInfo.code, rates })}
+          onClose={() => setRateModalCurrency(null)}
+        />
+      )}
+
+      {showAddCurrencyModal && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
           <Card className="w-full max-w-sm p-6">
-            <h3 className="font-bold text-lg mb-4">بروزرسانی قیمت تتر</h3>
-            <Input label="قیمت جدید (تومان)" type="number" value={tempTetherPrice} onChange={e => setTempTetherPrice(e.target.value)} />
-            <div className="flex gap-2 mt-4"><Button onClick={() => { setState(p => ({...p, tetherPrice: parseFloat(tempTetherPrice) || p.tetherPrice})); setShowTetherModal(false); }} className="flex-1">ذخیره</Button><Button variant="secondary" onClick={() => setShowTetherModal(false)} className="flex-1">انصراف</Button></div>
+            <div className="flex justify-between items-center mb-4"><h3 className="font-bold text-lg">افزودن ارز</h3><button onClick={() => setShowAddCurrencyModal(false)}><X size={20} /></button></div>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                <Input label="کد (لاتین)" placeholder="usd" value={newCurrency.code} onChange={e => setNewCurrency({ ...newCurrency, code: e.target.value })} />
+                <Input label="نماد" placeholder="$" value={newCurrency.symbol} onChange={e => setNewCurrency({ ...newCurrency, symbol: e.target.value })} />
+              </div>
+              <Input label="نام" placeholder="دلار" value={newCurrency.name} onChange={e => setNewCurrency({ ...newCurrency, name: e.target.value })} />
+              <Input label="نرخ (تومان)" type="number" value={newCurrency.rate} onChange={e => setNewCurrency({ ...newCurrency, rate: e.target.value })} />
+              <Button onClick={handleAddCurrency} className="w-full mt-2">افزودن</Button>
+            </div>
           </Card>
         </div>
       )}
@@ -1362,8 +1789,39 @@ export default function App() {
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
           <Card className="w-full max-w-sm p-6">
             <h3 className="font-bold text-lg mb-4">مدیریت موجودی نقد</h3>
-            <Input label="مبلغ واریز/برداشت (تومان)" placeholder="مثلا: 50000000" type="number" value={depositAmount} onChange={e => setDepositAmount(e.target.value)} />
-            <p className="text-xs text-slate-500 mt-2">برای برداشت از علامت منفی استفاده کنید.</p>
+            <div className="flex gap-1 bg-slate-100 p-1 rounded-lg mb-4">
+              {([['deposit', 'واریز'], ['withdraw', 'برداشت'], ['chargeFee', 'کارمزد'], ['convert', 'تبدیل ارز']] as const).map(([kind, label]) => (
+                <button key={kind} onClick={() => setCashKind(kind)} className={`flex-1 px-3 py-1 text-sm rounded-md transition-all ${cashKind === kind ? 'bg-white text-brand-600 shadow' : 'text-slate-500 hover:text-slate-900'}`}>{label}</button>
+              ))}
+            </div>
+            <div className="space-y-4">
+              {cashKind !== 'chargeFee' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1.5">
+                    <label className="text-sm font-medium text-slate-700">{cashKind === 'convert' ? 'از ارز' : 'ارز'}</label>
+                    <select value={cashCurrency} onChange={e => setCashCurrency(e.target.value)} className="w-full h-10 rounded-md border border-slate-300 px-3 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none">
+                      {state.currencies.map(c => <option key={c.code} value={c.code}>{c.name}</option>)}
+                    </select>
+                  </div>
+                  {cashKind === 'convert' && (
+                    <div className="space-y-1.5">
+                      <label className="text-sm font-medium text-slate-700">به ارز</label>
+                      <select value={convertTo} onChange={e => setConvertTo(e.target.value)} className="w-full h-10 rounded-md border border-slate-300 px-3 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none">
+                        {state.currencies.map(c => <option key={c.code} value={c.code}>{c.name}</option>)}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              )}
+              <Input label={`مبلغ (${cashKind === 'chargeFee' ? 'تومان' : findCurrency(state.currencies, cashCurrency).symbol})`} placeholder="مثلا: 50000000" type="number" value={depositAmount} onChange={e => setDepositAmount(e.target.value)} />
+              {cashKind !== 'convert' && <Input label="توضیحات" placeholder="اختیاری" value={cashNote} onChange={e => setCashNote(e.target.value)} />}
+            </div>
+            {cashKind !== 'chargeFee' && (
+              <p className="text-xs text-slate-500 mt-2">موجودی {findCurrency(state.currencies, cashCurrency).name}: <span className="font-bold">{formatMoney(state.cashBalances[cashCurrency] || 0, findCurrency(state.currencies, cashCurrency))}</span></p>
+            )}
+            {cashKind === 'withdraw' && (
+              <p className="text-xs text-slate-500 mt-2">حداکثر قابل برداشت (نقدینگی آزاد پس از کسر بودجه سبدها): <span className="font-bold">{formatCurrency(freeCash)}</span></p>
+            )}
             <div className="flex gap-2 mt-4"><Button onClick={handleDeposit} className="flex-1">ثبت تراکنش</Button><Button variant="secondary" onClick={() => setShowDepositModal(false)} className="flex-1">انصراف</Button></div>
           </Card>
         </div>
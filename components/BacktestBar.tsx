@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { BacktestSession, isBacktestFinished } from '../lib/backtest';
+import { formatNumber } from './ui';
+import { FlaskConical, Play, Pause, StepForward, Square } from 'lucide-react';
+
+interface BacktestBarProps {
+  session: BacktestSession;
+  onStep: () => void;
+  onEnd: () => void;
+}
+
+// Milliseconds between steps while playing
+const SPEEDS = [
+  { label: '۱×', ms: 1000 },
+  { label: '۴×', ms: 250 },
+  { label: '۱۰×', ms: 100 }
+];
+
+export const BacktestBar: React.FC<BacktestBarProps> = ({ session, onStep, onEnd }) => {
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEEDS[0].ms);
+  const finished = isBacktestFinished(session);
+
+  useEffect(() => {
+    if (!playing || finished) return;
+    const id = setInterval(onStep, speed);
+    return () => clearInterval(id);
+  }, [playing, finished, speed, onStep]);
+
+  useEffect(() => {
+    if (finished) setPlaying(false);
+  }, [finished]);
+
+  const clock = new Date(session.clock);
+  const progress = session.steps.length > 0 ? session.cursor / session.steps.length * 100 : 100;
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200">
+      <div className="max-w-[1800px] mx-auto px-6 py-2 flex flex-wrap items-center gap-4 text-sm">
+        <div className="flex items-center gap-2 text-amber-800 font-bold">
+          <FlaskConical size={16} /> بک‌تست: {session.name}
+        </div>
+        <div className="text-amber-700 dir-ltr font-mono text-xs">
+          {clock.toLocaleDateString('fa-IR')} {clock.toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' })}
+        </div>
+        <div className="flex items-center gap-2 flex-1 min-w-[160px]">
+          <div className="h-1.5 flex-1 bg-amber-100 rounded-full overflow-hidden">
+            <div className="h-full bg-amber-500 transition-all" style={{ width: `${progress}%` }}></div>
+          </div>
+          <span className="text-xs text-amber-700">{formatNumber(session.cursor)} / {formatNumber(session.steps.length)}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setPlaying(!playing)} disabled={finished} className="p-1.5 rounded text-amber-800 hover:bg-amber-100 disabled:opacity-40" title={playing ? 'توقف' : 'پخش'}>
+            {playing ? <Pause size={16} /> : <Play size={16} />}
+          </button>
+          <button onClick={onStep} disabled={finished || playing} className="p-1.5 rounded text-amber-800 hover:bg-amber-100 disabled:opacity-40" title="گام بعد">
+            <StepForward size={16} />
+          </button>
+          <select value={speed} onChange={e => setSpeed(parseInt(e.target.value))} className="h-7 rounded border border-amber-200 bg-white px-1 text-xs outline-none" title="سرعت پخش">
+            {SPEEDS.map(s => <option key={s.ms} value={s.ms}>{s.label}</option>)}
+          </select>
+          <button onClick={onEnd} className="flex items-center gap-1 px-2 py-1 mr-2 rounded text-xs bg-amber-600 text-white hover:bg-amber-700">
+            <Square size={12} /> پایان و ذخیره نتیجه
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
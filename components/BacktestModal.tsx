@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { BacktestStep, BacktestSummary, parseHistoricalPrices } from '../lib/backtest';
+import { Card, Input, Button, formatCurrency, formatNumber } from './ui';
+import { X, Upload, Trash2 } from 'lucide-react';
+
+interface BacktestModalProps {
+  results: BacktestSummary[]; // Finished sessions, newest first
+  liveNetWorth: number;
+  onStart: (steps: BacktestStep[], name: string, startCash: number) => boolean;
+  onDeleteResult: (id: string) => void;
+  onClose: () => void;
+}
+
+const returnOf = (r: BacktestSummary): number => (r.finalNetWorth - r.startCash) / r.startCash * 100;
+
+export const BacktestModal: React.FC<BacktestModalProps> = ({ results, liveNetWorth, onStart, onDeleteResult, onClose }) => {
+  const [name, setName] = useState('');
+  const [startCash, setStartCash] = useState('1000000000');
+  const [data, setData] = useState('');
+
+  const loadFile = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setData(String(reader.result || ''));
+    reader.readAsText(file);
+  };
+
+  const handleStart = () => {
+    const { steps, badLines } = parseHistoricalPrices(data);
+    if (badLines.length > 0) {
+      alert(`ردیف‌های نامعتبر: ${badLines.map(n => formatNumber(n)).join('، ')}\nهر ردیف باید به شکل «تاریخ,نماد,قیمت» باشد (مثلا 2024-03-20,BTC,3500000000).`);
+      return;
+    }
+    onStart(steps, name, parseFloat(startCash));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg">بک‌تست</h3>
+          <button onClick={onClose}><X size={20} /></button>
+        </div>
+        <p className="text-xs text-slate-500 mb-4">
+          بک‌تست با ساختار سبدها و نمادهای فعلی شما، اما بدون دارایی، از اولین تاریخ داده شروع می‌شود. معاملات با زمان شبیه‌سازی‌شده ثبت می‌شوند و حساب اصلی تغییری نمی‌کند.
+        </p>
+
+        <div className="grid grid-cols-2 gap-3">
+          <Input label="نام" placeholder="مثلا استراتژی ماهانه" value={name} onChange={e => setName(e.target.value)} />
+          <Input label="موجودی اولیه (تومان)" type="number" value={startCash} onChange={e => setStartCash(e.target.value)} />
+        </div>
+        <div className="mt-3 space-y-1.5">
+          <div className="flex justify-between items-center">
+            <label className="text-sm font-medium text-slate-700">داده قیمت تاریخی (CSV یا JSON)</label>
+            <label className="text-xs text-brand-600 flex items-center gap-1 cursor-pointer hover:underline">
+              <Upload size={12} /> انتخاب فایل
+              <input type="file" accept=".csv,.json,.txt" className="hidden" onChange={e => loadFile(e.target.files?.[0])} />
+            </label>
+          </div>
+          <textarea
+            value={data}
+            onChange={e => setData(e.target.value)}
+            rows={6}
+            placeholder={'timestamp,symbol,price\n2024-03-20,BTC,3500000000\n2024-03-21,BTC,3550000000'}
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-xs font-mono dir-ltr focus:ring-2 focus:ring-brand-500 outline-none"
+          />
+        </div>
+        <Button onClick={handleStart} className="w-full mt-3" disabled={!data.trim()}>شروع بک‌تست</Button>
+
+        {results.length > 0 && (
+          <div className="mt-6">
+            <h4 className="font-bold text-slate-700 text-sm mb-2">نتایج قبلی</h4>
+            <table className="w-full text-sm text-right">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="p-2">نام</th>
+                  <th className="p-2">بازه</th>
+                  <th className="p-2">ارزش نهایی</th>
+                  <th className="p-2">بازده</th>
+                  <th className="p-2">معاملات</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                <tr className="bg-brand-50/50">
+                  <td className="p-2 font-medium">حساب اصلی</td>
+                  <td className="p-2 text-xs text-slate-400">اکنون</td>
+                  <td className="p-2 font-mono text-xs">{formatCurrency(liveNetWorth)}</td>
+                  <td className="p-2"></td>
+                  <td className="p-2"></td>
+                  <td className="p-2"></td>
+                </tr>
+                {results.map(r => (
+                  <tr key={r.id} className="hover:bg-slate-50">
+                    <td className="p-2 font-medium">{r.name}</td>
+                    <td className="p-2 text-xs text-slate-500">{new Date(r.from).toLocaleDateString('fa-IR')} تا {new Date(r.to).toLocaleDateString('fa-IR')}</td>
+                    <td className="p-2 font-mono text-xs">{formatCurrency(r.finalNetWorth)}</td>
+                    <td className={`p-2 dir-ltr text-right text-xs ${returnOf(r) < 0 ? 'text-red-600' : 'text-green-600'}`}>{returnOf(r).toFixed(2)}%</td>
+                    <td className="p-2 text-xs">{formatNumber(r.trades)}</td>
+                    <td className="p-2 text-left">
+                      <button onClick={() => onDeleteResult(r.id)} className="p-1 text-slate-400 hover:text-red-600 rounded" title="حذف"><Trash2 size={14} /></button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { AppState, BASE_CURRENCY } from '../types';
+import { PerformancePoint } from '../lib/performance';
+import { ACCOUNT_BENCHMARK_KEY, BenchmarkSettings, BenchmarkSource, benchmarkLabel, benchmarkSeries, compareWithBenchmark } from '../lib/benchmark';
+import { parseRateLines } from '../lib/currency';
+import { Input, Button, formatNumber } from './ui';
+import { Target, Trash2 } from 'lucide-react';
+
+interface BenchmarkPanelProps {
+  state: AppState;
+  performance: PerformancePoint[]; // Of the compared scope
+  portfolioId: string | null; // null compares the whole account
+  scopeName: string;
+  settings: BenchmarkSettings;
+  onChange: (settings: BenchmarkSettings) => void;
+}
+
+// <select> values
+const sourceKey = (source: BenchmarkSource | undefined): string => {
+  if (!source) return '';
+  switch (source.kind) {
+    case 'instrument': return `instrument:${source.instrumentId}`;
+    case 'currency': return `currency:${source.currency}`;
+    case 'custom': return `custom:${source.seriesId}`;
+  }
+};
+const parseSourceKey = (key: string): BenchmarkSource | null => {
+  const [kind, id] = [key.slice(0, key.indexOf(':')), key.slice(key.indexOf(':') + 1)];
+  if (kind === 'instrument') return { kind, instrumentId: id };
+  if (kind === 'currency') return { kind, currency: id };
+  if (kind === 'custom') return { kind, seriesId: id };
+  return null;
+};
+
+const percent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+const chartDate = (iso: string) => new Date(iso).toLocaleDateString('fa-IR');
+
+export const BenchmarkPanel: React.FC<BenchmarkPanelProps> = ({ state, performance, portfolioId, scopeName, settings, onChange }) => {
+  const [importName, setImportName] = useState('');
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState('');
+
+  const scopeKey = portfolioId ?? ACCOUNT_BENCHMARK_KEY;
+  const source = settings.assignments[scopeKey];
+  const comparison = useMemo(
+    () => source ? compareWithBenchmark(performance, benchmarkSeries(state, settings, source)) : null,
+    [performance, source, state.priceHistory, state.fxRateHistory, settings.series]
+  );
+
+  const assign = (key: string) => {
+    const { [scopeKey]: _, ...rest } = settings.assignments;
+    const next = parseSourceKey(key);
+    onChange({ ...settings, assignments: next ? { ...rest, [scopeKey]: next } : rest });
+  };
+
+  const handleImport = () => {
+    const { rates, badLines } = parseRateLines(importText);
+    if (!importName.trim() || rates.length < 2) {
+      setImportError('نام و دست‌کم دو سطر «تاریخ,مقدار» لازم است.');
+      return;
+    }
+    if (badLines.length > 0) {
+      setImportError(`سطرهای نامعتبر: ${badLines.slice(0, 10).map(n => formatNumber(n)).join('، ')}`);
+      return;
+    }
+    const id = `bm-${Date.now()}`;
+    const points = rates.map(r => ({ timestamp: r.timestamp, value: r.rate })).sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    onChange({ series: [...settings.series, { id, name: importName.trim(), points }], assignments: { ...settings.assignments, [scopeKey]: { kind: 'custom', seriesId: id } } });
+    setImportName('');
+    setImportText('');
+    setImportError('');
+  };
+
+  const removeSeries = (seriesId: string) => {
+    if (!confirm('این سری حذف شود؟ سبدهایی که به آن مقایسه می‌شوند بدون شاخص می‌مانند.')) return;
+    const assignments = { ...settings.assignments };
+    Object.keys(assignments).forEach(key => {
+      const assigned = assignments[key];
+      if (assigned.kind === 'custom' && assigned.seriesId === seriesId) delete assignments[key];
+    });
+    onChange({ series: settings.series.filter(s => s.id !== seriesId), assignments });
+  };
+
+  const selectClass = "h-9 rounded-md border border-slate-300 px-2 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none";
+  const chartData = comparison?.points.map(p => ({ ...p, label: chartDate(p.date) })) || [];
+  const label = source ? benchmarkLabel(state, settings, source) : '';
+  const stats = comparison?.stats;
+
+  return (
+    <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h4 className="font-bold text-slate-700 flex items-center gap-2">
+          <Target size={18} className="text-brand-600" />
+          مقایسه {scopeName} با شاخص
+        </h4>
+        <select value={sourceKey(source)} onChange={e => assign(e.target.value)} className={selectClass}>
+          <option value="">بدون شاخص</option>
+          <optgroup label="نمادها">
+            {state.instruments.filter(i => (state.priceHistory[i.id] || []).length > 0).map(i => <option key={i.id} value={`instrument:${i.id}`}>{i.symbol} - {i.name}</option>)}
+          </optgroup>
+          <optgroup label="ارزها">
+            {state.currencies.filter(c => c.code !== BASE_CURRENCY).map(c => <option key={c.code} value={`currency:${c.code}`}>{c.name}</option>)}
+          </optgroup>
+          {settings.series.length > 0 && (
+            <optgroup label="سری‌های واردشده">
+              {settings.series.map(s => <option key={s.id} value={`custom:${s.id}`}>{s.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+      </div>
+
+      {source && !comparison && (
+        <p className="text-center text-slate-400 text-sm p-6">داده هم‌پوشان کافی برای مقایسه با {label} وجود ندارد</p>
+      )}
+
+      {stats && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mb-4 text-center">
+            {[
+              { title: 'بازده سبد', value: percent(stats.portfolioReturn), tone: stats.portfolioReturn < 0 ? 'text-red-600' : 'text-green-600' },
+              { title: `بازده ${label}`, value: percent(stats.benchmarkReturn), tone: stats.benchmarkReturn < 0 ? 'text-red-600' : 'text-green-600' },
+              { title: 'آلفا', value: percent(stats.alpha), tone: stats.alpha < 0 ? 'text-red-600' : 'text-green-600' },
+              { title: 'بتا', value: stats.beta.toFixed(2), tone: 'text-slate-700' },
+              { title: 'خطای ردیابی', value: `${stats.trackingError.toFixed(2)}%`, tone: 'text-slate-700' },
+              { title: 'بیشترین افت نسبی', value: `${stats.maxRelativeDrawdown.toFixed(2)}%`, tone: 'text-red-600' }
+            ].map(card => (
+              <div key={card.title} className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-[11px] text-slate-500 mb-1">{card.title}</div>
+                <div className={`font-bold dir-ltr ${card.tone}`}>{card.value}</div>
+              </div>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-400 mb-4">بازده‌ها وزنی-زمانی و برای کل دوره مقایسه هستند (سالانه نشده)؛ واریز، برداشت و انتقال‌ها در بازده اثری ندارند.</p>
+
+          <div className="h-[280px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 10, right: 20, left: 20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} tickMargin={8} />
+                <YAxis tick={{ fontSize: 11 }} stroke="#64748b" tickFormatter={(v) => `${v.toFixed(0)}%`} />
+                <Tooltip formatter={(value: number) => percent(value)} contentStyle={{ borderRadius: '8px', fontSize: '12px' }} />
+                <Legend />
+                <Line type="monotone" dataKey="portfolio" name={scopeName} stroke="#2563eb" dot={false} strokeWidth={2} isAnimationActive={false} />
+                <Line type="monotone" dataKey="benchmark" name={label} stroke="#f59e0b" dot={false} strokeWidth={2} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="h-[140px] mt-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData} margin={{ top: 10, right: 20, left: 20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} tickMargin={8} />
+                <YAxis tick={{ fontSize: 11 }} stroke="#64748b" tickFormatter={(v) => `${v.toFixed(0)}%`} />
+                <Tooltip formatter={(value: number) => `${value.toFixed(2)}%`} contentStyle={{ borderRadius: '8px', fontSize: '12px' }} />
+                <Area type="monotone" dataKey="relativeDrawdown" name="افت نسبی" stroke="#dc2626" fill="#fecaca" isAnimationActive={false} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+
+      <details className="mt-4 text-sm">
+        <summary className="cursor-pointer text-xs text-brand-600">ورود سری شاخص دلخواه</summary>
+        <div className="mt-3 p-4 bg-slate-50 rounded-lg border border-slate-100 space-y-3">
+          <Input label="نام سری" value={importName} onChange={e => setImportName(e.target.value)} placeholder="مثلاً شاخص کل بورس" />
+          <textarea
+            value={importText}
+            onChange={e => setImportText(e.target.value)}
+            rows={4}
+            placeholder={'2024-03-20,2100000\n2024-03-21,2115000'}
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-xs font-mono dir-ltr focus:ring-2 focus:ring-brand-500 outline-none"
+          />
+          {importError && <p className="text-xs text-red-600">{importError}</p>}
+          <Button size="sm" onClick={handleImport}>ذخیره و انتخاب به‌عنوان شاخص</Button>
+          {settings.series.length > 0 && (
+            <div className="divide-y divide-slate-100 border border-slate-100 rounded bg-white text-xs">
+              {settings.series.map(s => (
+                <div key={s.id} className="flex justify-between items-center p-2">
+                  <span>{s.name} <span className="text-slate-400">({formatNumber(s.points.length)} نقطه)</span></span>
+                  <button onClick={() => removeSeries(s.id)} className="p-1 text-slate-400 hover:text-red-600 rounded" title="حذف"><Trash2 size={14} /></button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </details>
+    </div>
+  );
+};
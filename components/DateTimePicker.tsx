@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { CalendarDate, JALALI_MONTHS, jalaliMonthLength, toGregorian, toJalali } from '../lib/jalali';
+import { formatNumber } from './ui';
+
+interface DateTimePickerProps {
+  value: string; // Local time as "YYYY-MM-DDTHH:mm", like <input type="datetime-local">
+  max?: string; // Same format
+  onChange: (value: string) => void;
+}
+
+type CalendarKind = 'jalali' | 'gregorian';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const parseDay = (value: string): CalendarDate => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return { year, month, day };
+};
+
+const formatDay = ({ year, month, day }: CalendarDate) => `${year}-${pad(month)}-${pad(day)}`;
+
+export const toDateTimeValue = (date: Date): string =>
+  `${formatDay({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() })}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// Picks a day in either the Jalali or the Gregorian calendar, plus a time; the value is always Gregorian
+export const DateTimePicker: React.FC<DateTimePickerProps> = ({ value, max, onChange }) => {
+  const [calendar, setCalendar] = useState<CalendarKind>('jalali');
+  const day = parseDay(value);
+  const time = value.slice(11, 16);
+  const jalali = toJalali(day);
+
+  const setDay = (next: CalendarDate) => onChange(`${formatDay(next)}T${time}`);
+  // Moving to a shorter month keeps the day inside it
+  const setJalali = (year: number, month: number, d: number) => {
+    if (!(year > 0)) return;
+    setDay(toGregorian({ year, month, day: Math.min(d, jalaliMonthLength(year, month)) }));
+  };
+
+  const selectClass = "h-9 rounded-md border border-slate-300 px-2 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none";
+  const inputClass = `${selectClass} dir-ltr`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1 bg-slate-100 p-1 rounded-lg w-fit">
+        {([['jalali', 'شمسی'], ['gregorian', 'میلادی']] as [CalendarKind, string][]).map(([kind, label]) => (
+          <button key={kind} type="button" onClick={() => setCalendar(kind)} className={`px-3 py-0.5 text-xs rounded-md ${calendar === kind ? 'bg-white shadow text-slate-800' : 'text-slate-500'}`}>
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {calendar === 'jalali' ? (
+          <>
+            <select value={jalali.day} onChange={e => setJalali(jalali.year, jalali.month, Number(e.target.value))} className={selectClass}>
+              {Array.from({ length: jalaliMonthLength(jalali.year, jalali.month) }, (_, i) => i + 1).map(d => (
+                <option key={d} value={d}>{formatNumber(d)}</option>
+              ))}
+            </select>
+            <select value={jalali.month} onChange={e => setJalali(jalali.year, Number(e.target.value), jalali.day)} className={selectClass}>
+              {JALALI_MONTHS.map((name, i) => <option key={name} value={i + 1}>{name}</option>)}
+            </select>
+            <input type="number" value={jalali.year} onChange={e => setJalali(Number(e.target.value), jalali.month, jalali.day)} className={`${inputClass} w-20`} />
+          </>
+        ) : (
+          <input type="date" value={value.slice(0, 10)} max={max?.slice(0, 10)} onChange={e => e.target.value && setDay(parseDay(e.target.value))} className={inputClass} />
+        )}
+        <input type="time" value={time} onChange={e => e.target.value && onChange(`${value.slice(0, 10)}T${e.target.value}`)} className={inputClass} />
+      </div>
+
+      <div className="text-[11px] text-slate-400">
+        {calendar === 'jalali'
+          ? <span className="dir-ltr inline-block">{formatDay(day)}</span>
+          : `${formatNumber(jalali.day)} ${JALALI_MONTHS[jalali.month - 1]} ${jalali.year.toLocaleString('fa-IR', { useGrouping: false })}`}
+      </div>
+    </div>
+  );
+};
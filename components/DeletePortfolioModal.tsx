@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Portfolio } from '../types';
+import { findPortfolioPath } from '../lib/portfolioTree';
+import { Card, Button, formatNumber } from './ui';
+import { X, Trash2, Merge } from 'lucide-react';
+
+interface DeletePortfolioModalProps {
+  portfolio: Portfolio;
+  rootPortfolios: Portfolio[];
+  onDelete: (mergeInto?: string) => void;
+  onClose: () => void;
+}
+
+export const DeletePortfolioModal: React.FC<DeletePortfolioModalProps> = ({ portfolio, rootPortfolios, onDelete, onClose }) => {
+  const path = findPortfolioPath(rootPortfolios, portfolio.id);
+  const parent = path.length > 1 ? path[path.length - 2] : null;
+  const siblings = (parent ? parent.children : rootPortfolios).filter(p => p.id !== portfolio.id);
+  const targets = [...(parent ? [parent] : []), ...siblings];
+  const [mergeInto, setMergeInto] = useState<string>(targets[0]?.id || '');
+  const [discard, setDiscard] = useState(targets.length === 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg">حذف سبد «{portfolio.name}»</h3>
+          <button onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <p className="text-sm text-slate-600 mb-4">
+          این سبد {formatNumber(portfolio.assets.length)} دارایی و {formatNumber(portfolio.children.length)} زیرسبد دارد. با ادغام، دارایی‌ها با همان بهای تمام‌شده و زیرسبدها به سبد انتخاب‌شده منتقل می‌شوند.
+        </p>
+
+        <div className="space-y-2">
+          {targets.length > 0 && (
+            <label className={`flex items-center gap-2 p-3 rounded-lg border cursor-pointer ${!discard ? 'border-brand-300 bg-brand-50' : 'border-slate-200'}`}>
+              <input type="radio" checked={!discard} onChange={() => setDiscard(false)} />
+              <Merge size={16} className="text-brand-600" />
+              <span className="text-sm">ادغام در</span>
+              <select value={mergeInto} onChange={e => { setMergeInto(e.target.value); setDiscard(false); }} className="flex-1 h-8 rounded border border-slate-300 px-2 text-sm bg-white outline-none">
+                {targets.map(t => <option key={t.id} value={t.id}>{t.id === parent?.id ? `${t.name} (والد)` : t.name}</option>)}
+              </select>
+            </label>
+          )}
+          <label className={`flex items-center gap-2 p-3 rounded-lg border cursor-pointer ${discard ? 'border-red-300 bg-red-50' : 'border-slate-200'}`}>
+            <input type="radio" checked={discard} onChange={() => setDiscard(true)} />
+            <Trash2 size={16} className="text-red-500" />
+            <span className="text-sm">حذف کامل سبد همراه با دارایی‌ها و زیرسبدها</span>
+          </label>
+        </div>
+
+        <div className="flex gap-2 mt-6">
+          <Button variant={discard ? 'danger' : 'primary'} className="flex-1" onClick={() => onDelete(discard ? undefined : mergeInto)}>
+            {discard ? 'حذف سبد' : 'ادغام و حذف'}
+          </Button>
+          <Button variant="secondary" onClick={onClose}>انصراف</Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { CurrencyInfo, FxRate } from '../types';
+import { parseRateLines } from '../lib/currency';
+import { Card, Input, Button, formatNumber } from './ui';
+import { X, Edit2, Check, Upload } from 'lucide-react';
+
+interface FxRateModalProps {
+  currency: CurrencyInfo;
+  history: FxRate[]; // Full timeline; filtered to `currency` here
+  onAdd: (rate: number, effectiveAt?: string) => boolean;
+  onEdit: (originalAt: string, effectiveAt: string, rate: number) => boolean;
+  onImport: (rates: { timestamp: string; rate: number }[]) => boolean;
+  onClose: () => void;
+}
+
+// <input type="date"> values are local calendar days
+const toDateInput = (iso: string): string => {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+const fromDateInput = (value: string): string => new Date(`${value}T00:00:00`).toISOString();
+
+export const FxRateModal: React.FC<FxRateModalProps> = ({ currency, history, onAdd, onEdit, onImport, onClose }) => {
+  const today = toDateInput(new Date().toISOString());
+  const [newDate, setNewDate] = useState(today);
+  const [newRate, setNewRate] = useState(currency.rate.toString());
+  const [editingAt, setEditingAt] = useState<string | null>(null);
+  const [editDate, setEditDate] = useState('');
+  const [editRate, setEditRate] = useState('');
+  const [importText, setImportText] = useState('');
+
+  const entries = history.filter(r => r.currency === currency.code).reverse();
+
+  const handleAdd = () => {
+    // Today's rate takes effect now; any other day is back-dated to its start
+    if (!onAdd(parseFloat(newRate), newDate === today ? undefined : fromDateInput(newDate))) return;
+    setNewDate(today);
+  };
+
+  const startEdit = (entry: FxRate) => {
+    setEditingAt(entry.timestamp);
+    setEditDate(toDateInput(entry.timestamp));
+    setEditRate(entry.rate.toString());
+  };
+
+  const handleEdit = () => {
+    if (!editingAt) return;
+    // Keep the original time of day unless the date itself changed
+    const effectiveAt = editDate === toDateInput(editingAt) ? editingAt : fromDateInput(editDate);
+    if (onEdit(editingAt, effectiveAt, parseFloat(editRate))) setEditingAt(null);
+  };
+
+  const handleImport = () => {
+    const { rates, badLines } = parseRateLines(importText);
+    if (badLines.length > 0) {
+      alert(`ردیف‌های نامعتبر: ${badLines.map(n => formatNumber(n)).join('، ')}\nهر ردیف باید به شکل «تاریخ,نرخ» باشد (مثلا 2024-03-20,61500).`);
+      return;
+    }
+    if (onImport(rates)) setImportText('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg">تاریخچه نرخ {currency.name}</h3>
+          <button onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 items-end">
+          <Input label="تاریخ" type="date" max={today} value={newDate} onChange={e => setNewDate(e.target.value)} />
+          <Input label="نرخ (تومان)" type="number" value={newRate} onChange={e => setNewRate(e.target.value)} />
+        </div>
+        <Button onClick={handleAdd} className="w-full mt-2">ثبت نرخ</Button>
+
+        <div className="mt-6 border border-slate-100 rounded-lg max-h-64 overflow-y-auto">
+          <table className="w-full text-sm text-right">
+            <thead className="bg-slate-50 text-slate-500 sticky top-0">
+              <tr>
+                <th className="p-2">تاریخ</th>
+                <th className="p-2">نرخ</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {entries.map(entry => editingAt === entry.timestamp ? (
+                <tr key={entry.timestamp}>
+                  <td className="p-1"><input type="date" max={today} value={editDate} onChange={e => setEditDate(e.target.value)} className="h-8 w-full rounded border border-slate-300 px-2 text-xs" /></td>
+                  <td className="p-1"><input type="number" value={editRate} onChange={e => setEditRate(e.target.value)} className="h-8 w-full rounded border border-slate-300 px-2 text-xs font-mono" /></td>
+                  <td className="p-1 text-left">
+                    <button onClick={handleEdit} className="p-1 text-green-600 hover:bg-green-50 rounded" title="ذخیره"><Check size={14} /></button>
+                    <button onClick={() => setEditingAt(null)} className="p-1 text-slate-400 hover:bg-slate-100 rounded" title="انصراف"><X size={14} /></button>
+                  </td>
+                </tr>
+              ) : (
+                <tr key={entry.timestamp} className="hover:bg-slate-50">
+                  <td className="p-2 text-xs text-slate-500">{new Date(entry.timestamp).toLocaleDateString('fa-IR')} {new Date(entry.timestamp).toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' })}</td>
+                  <td className="p-2 font-mono">{formatNumber(entry.rate)}</td>
+                  <td className="p-2 text-left">
+                    <button onClick={() => startEdit(entry)} className="p-1 text-slate-400 hover:text-brand-600 rounded" title="ویرایش"><Edit2 size={14} /></button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-6 space-y-2">
+          <label className="text-sm font-medium text-slate-700 flex items-center gap-1"><Upload size={14} /> ورود گروهی</label>
+          <textarea
+            value={importText}
+            onChange={e => setImportText(e.target.value)}
+            rows={4}
+            placeholder={'2024-03-20,61500\n2024-03-21,62000'}
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-xs font-mono dir-ltr focus:ring-2 focus:ring-brand-500 outline-none"
+          />
+          <Button variant="secondary" onClick={handleImport} className="w-full" disabled={!importText.trim()}>ورود نرخ‌ها</Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
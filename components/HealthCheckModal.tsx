@@ -0,0 +1,81 @@
+import React from 'react';
+import { Portfolio } from '../types';
+import { AllocationChange, AllocationIssueCode, allocationRepairs, checkAllocations } from '../lib/allocation';
+import { findPortfolioPath } from '../lib/portfolioTree';
+import { Card, Button, formatCurrency } from './ui';
+import { X, ShieldCheck, ShieldAlert, Wrench } from 'lucide-react';
+
+interface HealthCheckModalProps {
+  cash: number;
+  rootPortfolios: Portfolio[];
+  onRepair: (changes: AllocationChange[]) => boolean;
+  onClose: () => void;
+}
+
+const ISSUE_LABELS: Record<AllocationIssueCode, string> = {
+  INVALID_ALLOCATION: 'بودجه نامعتبر',
+  CHILDREN_EXCEED_PARENT: 'زیرسبدها بیش از والد',
+  BUDGET_OVERSPENT: 'مصرف بیش از بودجه',
+  ROOTS_EXCEED_NET_WORTH: 'تخصیص بیش از دارایی'
+};
+
+export const HealthCheckModal: React.FC<HealthCheckModalProps> = ({ cash, rootPortfolios, onRepair, onClose }) => {
+  const issues = checkAllocations(cash, rootPortfolios);
+  const pathName = (id: string | null) => id === null ? 'کل حساب' : findPortfolioPath(rootPortfolios, id).map(p => p.name).join(' / ');
+  const nameOf = (id: string) => findPortfolioPath(rootPortfolios, id).slice(-1)[0]?.name || id;
+  const allocationOf = (id: string) => findPortfolioPath(rootPortfolios, id).slice(-1)[0]?.allocation || 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg flex items-center gap-2"><ShieldCheck size={18} /> بررسی سلامت بودجه‌ها</h3>
+          <button onClick={onClose}><X size={20} /></button>
+        </div>
+
+        {issues.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 p-8 text-green-600">
+            <ShieldCheck size={32} />
+            <p className="text-sm">بودجه همه سبدها با قواعد تخصیص هم‌خوان است</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {issues.map(issue => {
+              const repairs = allocationRepairs(rootPortfolios, issue);
+              return (
+                <div key={`${issue.code}-${issue.portfolioId}`} className="p-3 rounded-lg border border-amber-200 bg-amber-50/50">
+                  <div className="flex items-center gap-2 mb-1">
+                    <ShieldAlert size={16} className="text-amber-600" />
+                    <span className="font-bold text-sm text-slate-700">{pathName(issue.portfolioId)}</span>
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-100 text-amber-700">{ISSUE_LABELS[issue.code]}</span>
+                    {issue.excess > 0 && <span className="text-xs text-red-600 mr-auto dir-ltr">+{formatCurrency(Math.round(issue.excess))}</span>}
+                  </div>
+                  <p className="text-xs text-slate-600">{issue.message}</p>
+                  {repairs.length > 0 ? (
+                    <div className="mt-3 space-y-2">
+                      {repairs.map(repair => (
+                        <div key={repair.label} className="flex flex-wrap items-center justify-between gap-2 p-2 bg-white rounded border border-slate-100">
+                          <div className="text-xs">
+                            <div className="font-medium text-slate-700">{repair.label}</div>
+                            <div className="text-slate-400 mt-0.5">
+                              {repair.changes.map(c => `${nameOf(c.portfolioId)}: ${formatCurrency(Math.round(allocationOf(c.portfolioId)))} ← ${formatCurrency(Math.round(c.allocation))}`).join(' · ')}
+                            </div>
+                          </div>
+                          <Button size="sm" variant="secondary" className="text-xs gap-1" onClick={() => onRepair(repair.changes)}>
+                            <Wrench size={12} /> اعمال
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-[11px] text-slate-400 mt-2">راه‌حل خودکاری وجود ندارد؛ بودجه‌ها را دستی اصلاح یا وجه واریز کنید.</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
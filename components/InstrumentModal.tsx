@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { AssetClass, BASE_CURRENCY, CurrencyInfo, Instrument } from '../types';
+import { InstrumentInput } from '../lib/ledger';
+import { ASSET_CLASS_LABELS } from '../lib/instruments';
+import { Card, Input, Button, formatNumber } from './ui';
+import { X, Edit2 } from 'lucide-react';
+
+interface InstrumentModalProps {
+  instruments: Instrument[];
+  currencies: CurrencyInfo[];
+  onAdd: (input: InstrumentInput) => boolean;
+  onEdit: (instrumentId: string, input: Omit<InstrumentInput, 'symbol'>) => boolean;
+  onClose: () => void;
+}
+
+const EMPTY_FORM = { symbol: '', name: '', assetClass: 'stock' as AssetClass, quoteCurrency: BASE_CURRENCY, lotSize: '0', pricePrecision: '0' };
+
+export const InstrumentModal: React.FC<InstrumentModalProps> = ({ instruments, currencies, onAdd, onEdit, onClose }) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const startEdit = (instrument: Instrument) => {
+    setEditingId(instrument.id);
+    setForm({
+      symbol: instrument.symbol,
+      name: instrument.name,
+      assetClass: instrument.assetClass,
+      quoteCurrency: instrument.quoteCurrency,
+      lotSize: instrument.lotSize.toString(),
+      pricePrecision: instrument.pricePrecision.toString()
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSubmit = () => {
+    const fields = {
+      name: form.name,
+      assetClass: form.assetClass,
+      quoteCurrency: form.quoteCurrency,
+      lotSize: parseFloat(form.lotSize) || 0,
+      pricePrecision: parseInt(form.pricePrecision) || 0
+    };
+    const saved = editingId ? onEdit(editingId, fields) : onAdd({ ...fields, symbol: form.symbol });
+    if (saved) resetForm();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg">نمادها</h3>
+          <button onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 p-4 bg-slate-50 rounded-lg border border-slate-100">
+          <Input label="نماد" placeholder="BTC" value={form.symbol} disabled={!!editingId} onChange={e => setForm({ ...form, symbol: e.target.value })} />
+          <Input label="نام" placeholder="بیت‌کوین" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-slate-700">کلاس دارایی</label>
+            <select value={form.assetClass} onChange={e => setForm({ ...form, assetClass: e.target.value as AssetClass })} className="w-full h-10 rounded-md border border-slate-300 px-3 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none">
+              {(Object.keys(ASSET_CLASS_LABELS) as AssetClass[]).map(c => <option key={c} value={c}>{ASSET_CLASS_LABELS[c]}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-slate-700">ارز قیمت‌گذاری</label>
+            <select value={form.quoteCurrency} onChange={e => setForm({ ...form, quoteCurrency: e.target.value })} className="w-full h-10 rounded-md border border-slate-300 px-3 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none">
+              {currencies.map(c => <option key={c.code} value={c.code}>{c.name}</option>)}
+            </select>
+          </div>
+          <Input label="اندازه لات (۰ = آزاد)" type="number" value={form.lotSize} onChange={e => setForm({ ...form, lotSize: e.target.value })} />
+          <Input label="دقت قیمت (رقم اعشار)" type="number" value={form.pricePrecision} onChange={e => setForm({ ...form, pricePrecision: e.target.value })} />
+          <div className="col-span-2 md:col-span-3 flex gap-2">
+            <Button onClick={handleSubmit} className="flex-1">{editingId ? 'ذخیره تغییرات' : 'افزودن نماد'}</Button>
+            {editingId && <Button variant="secondary" onClick={resetForm}>انصراف</Button>}
+          </div>
+        </div>
+
+        <table className="w-full text-sm text-right mt-4">
+          <thead className="bg-slate-50 text-slate-500">
+            <tr>
+              <th className="p-2">نماد</th>
+              <th className="p-2">نام</th>
+              <th className="p-2">کلاس</th>
+              <th className="p-2">ارز</th>
+              <th className="p-2">لات</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {instruments.map(i => (
+              <tr key={i.id} className={`hover:bg-slate-50 ${editingId === i.id ? 'bg-brand-50' : ''}`}>
+                <td className="p-2 font-mono font-bold text-slate-700">{i.symbol}</td>
+                <td className="p-2">{i.name}</td>
+                <td className="p-2 text-xs text-slate-500">{ASSET_CLASS_LABELS[i.assetClass]}</td>
+                <td className="p-2 text-xs text-slate-500">{currencies.find(c => c.code === i.quoteCurrency)?.name || i.quoteCurrency}</td>
+                <td className="p-2 text-xs font-mono">{i.lotSize > 0 ? formatNumber(i.lotSize) : '-'}</td>
+                <td className="p-2 text-left">
+                  <button onClick={() => startEdit(i)} className="p-1 text-slate-400 hover:text-brand-600 rounded" title="ویرایش"><Edit2 size={14} /></button>
+                </td>
+              </tr>
+            ))}
+            {instruments.length === 0 && (
+              <tr><td colSpan={6} className="p-6 text-center text-slate-400">هنوز نمادی تعریف نشده است</td></tr>
+            )}
+          </tbody>
+        </table>
+      </Card>
+    </div>
+  );
+};
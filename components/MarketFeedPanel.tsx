@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MarketSnapshot, PRICE_PROVIDERS, PriceProviderDefinition, Quote, startPriceFeed } from '../lib/marketData';
+import { Card, CardHeader, Button, Input, formatNumber } from './ui';
+import { Radio, Play, Square, Upload } from 'lucide-react';
+
+interface MarketFeedPanelProps {
+  getMarket: () => MarketSnapshot[]; // Read at every tick, so it must see the latest state
+  onQuotes: (providerId: string, quotes: Quote[]) => void;
+}
+
+const defaultConfig = (definition: PriceProviderDefinition): Record<string, string> =>
+  Object.fromEntries(definition.fields.map(f => [f.key, f.defaultValue || '']));
+
+export const MarketFeedPanel: React.FC<MarketFeedPanelProps> = ({ getMarket, onQuotes }) => {
+  const [providerId, setProviderId] = useState(PRICE_PROVIDERS[0].id);
+  const [config, setConfig] = useState<Record<string, string>>(defaultConfig(PRICE_PROVIDERS[0]));
+  const [intervalSeconds, setIntervalSeconds] = useState('10');
+  const [running, setRunning] = useState(false);
+  const [ticks, setTicks] = useState(0);
+  const [lastTick, setLastTick] = useState<Date | null>(null);
+  const stopRef = useRef<(() => void) | null>(null);
+
+  // The handlers are read through refs so a running feed always calls the latest props
+  const handlersRef = useRef({ getMarket, onQuotes });
+  handlersRef.current = { getMarket, onQuotes };
+
+  const definition = PRICE_PROVIDERS.find(d => d.id === providerId) || PRICE_PROVIDERS[0];
+
+  useEffect(() => () => stopRef.current?.(), []);
+
+  const selectProvider = (id: string) => {
+    const next = PRICE_PROVIDERS.find(d => d.id === id);
+    if (!next) return;
+    setProviderId(id);
+    setConfig(defaultConfig(next));
+  };
+
+  const stop = () => {
+    stopRef.current?.();
+    stopRef.current = null;
+    setRunning(false);
+  };
+
+  const start = () => {
+    const seconds = parseFloat(intervalSeconds);
+    if (!(seconds >= 1)) {
+      alert('فاصله به‌روزرسانی باید حداقل ۱ ثانیه باشد.');
+      return;
+    }
+    const result = definition.create(config);
+    if (result.ok === false) {
+      alert(result.message);
+      return;
+    }
+    const provider = result.provider;
+    setTicks(0);
+    setLastTick(null);
+    setRunning(true);
+    stopRef.current = startPriceFeed(provider, seconds * 1000, {
+      getMarket: () => handlersRef.current.getMarket(),
+      onQuotes: (quotes) => {
+        handlersRef.current.onQuotes(provider.id, quotes);
+        setTicks(n => n + 1);
+        setLastTick(new Date());
+      },
+      onDone: () => {
+        stopRef.current = null;
+        setRunning(false);
+      },
+      onError: (e) => {
+        console.error('Price feed failed', e);
+        stopRef.current = null;
+        setRunning(false);
+        alert('دریافت قیمت با خطا متوقف شد.');
+      }
+    });
+  };
+
+  const loadFile = (key: string, file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setConfig(c => ({ ...c, [key]: String(reader.result || '') }));
+    reader.readAsText(file);
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title="قیمت خودکار"
+        action={running && <span className="flex items-center gap-1 text-xs text-green-600"><Radio size={14} className="animate-pulse" /> فعال</span>}
+      />
+      <div className="p-4 space-y-3">
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium text-slate-700">منبع قیمت</label>
+          <select value={providerId} disabled={running} onChange={e => selectProvider(e.target.value)} className="w-full h-10 rounded-md border border-slate-300 px-3 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none disabled:opacity-50">
+            {PRICE_PROVIDERS.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+          </select>
+          <p className="text-xs text-slate-400">{definition.description}</p>
+        </div>
+
+        {definition.fields.map(field => field.multiline ? (
+          <div key={field.key} className="space-y-1.5">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-medium text-slate-700">{field.label}</label>
+              <label className={`text-xs text-brand-600 flex items-center gap-1 ${running ? 'opacity-50' : 'cursor-pointer hover:underline'}`}>
+                <Upload size={12} /> انتخاب فایل
+                <input type="file" accept=".csv,.json,.txt" className="hidden" disabled={running} onChange={e => loadFile(field.key, e.target.files?.[0])} />
+              </label>
+            </div>
+            <textarea
+              value={config[field.key] || ''}
+              disabled={running}
+              onChange={e => setConfig({ ...config, [field.key]: e.target.value })}
+              rows={4}
+              placeholder={field.placeholder}
+              className="w-full rounded-md border border-slate-300 px-3 py-2 text-xs font-mono dir-ltr focus:ring-2 focus:ring-brand-500 outline-none disabled:opacity-50"
+            />
+          </div>
+        ) : (
+          <Input key={field.key} label={field.label} placeholder={field.placeholder} disabled={running} value={config[field.key] || ''} onChange={e => setConfig({ ...config, [field.key]: e.target.value })} />
+        ))}
+
+        <Input label="فاصله به‌روزرسانی (ثانیه)" type="number" min="1" disabled={running} value={intervalSeconds} onChange={e => setIntervalSeconds(e.target.value)} />
+
+        {running ? (
+          <Button variant="danger" onClick={stop} className="w-full gap-2"><Square size={14} /> توقف</Button>
+        ) : (
+          <Button onClick={start} className="w-full gap-2"><Play size={14} /> شروع</Button>
+        )}
+
+        {(running || ticks > 0) && (
+          <div className="flex justify-between text-xs text-slate-500">
+            <span>{formatNumber(ticks)} به‌روزرسانی</span>
+            {lastTick && <span>آخرین: {lastTick.toLocaleTimeString('fa-IR')}</span>}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
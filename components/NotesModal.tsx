@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { TradeNotes } from '../types';
+import { Card, Input, Button } from './ui';
+import { X, NotebookPen } from 'lucide-react';
+
+interface NotesModalProps {
+  title: string; // What the notes belong to, e.g. "پوزیشن طلا"
+  notes?: TradeNotes;
+  knownTags: string[]; // Suggested while typing
+  knownSetups: string[];
+  onSave: (notes: TradeNotes | null) => boolean;
+  onClose: () => void;
+}
+
+const EMOTIONS = ['آرام', 'مطمئن', 'مردد', 'ترس', 'طمع', 'هیجان‌زده', 'عجول', 'انتقام‌جو'];
+
+// Tags are typed as one line, separated by Latin or Persian commas
+const parseTags = (text: string): string[] => text.split(/[,،]/).map(t => t.trim().replace(/^#/, '')).filter(Boolean);
+
+export const NotesModal: React.FC<NotesModalProps> = ({ title, notes, knownTags, knownSetups, onSave, onClose }) => {
+  const [note, setNote] = useState(notes?.note || '');
+  const [setup, setSetup] = useState(notes?.setup || '');
+  const [emotion, setEmotion] = useState(notes?.emotion || '');
+  const [tags, setTags] = useState((notes?.tags || []).join('، '));
+  const [screenshots, setScreenshots] = useState((notes?.screenshots || []).join('\n'));
+
+  const typedTags = parseTags(tags);
+  const suggestions = knownTags.filter(t => !typedTags.includes(t)).slice(0, 12);
+  const links = screenshots.split('\n').map(l => l.trim()).filter(Boolean);
+
+  const handleSave = () => {
+    if (onSave({ note, setup, emotion, tags: typedTags, screenshots: links })) onClose();
+  };
+
+  const handleClear = () => {
+    if (confirm('یادداشت‌ها و برچسب‌ها پاک شوند؟') && onSave(null)) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg flex items-center gap-2"><NotebookPen size={18} /> یادداشت {title}</h3>
+          <button onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Input label="ستاپ" value={setup} onChange={e => setSetup(e.target.value)} list="notes-setups" placeholder="مثلاً شکست مقاومت" />
+              <datalist id="notes-setups">{knownSetups.map(s => <option key={s} value={s} />)}</datalist>
+            </div>
+            <div>
+              <Input label="حال هنگام ورود" value={emotion} onChange={e => setEmotion(e.target.value)} list="notes-emotions" />
+              <datalist id="notes-emotions">{EMOTIONS.map(e => <option key={e} value={e} />)}</datalist>
+            </div>
+          </div>
+
+          <div>
+            <Input label="برچسب‌ها (با ویرگول جدا کنید)" value={tags} onChange={e => setTags(e.target.value)} placeholder="مثلاً خبر، میان‌مدت" />
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {suggestions.map(t => (
+                  <button key={t} onClick={() => setTags([...typedTags, t].join('، '))} className="text-[11px] px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 hover:bg-brand-50 hover:text-brand-700">
+                    #{t}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <label className="text-sm font-medium text-slate-700">دلیل ورود و درس‌ها</label>
+            <textarea
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              rows={4}
+              className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <label className="text-sm font-medium text-slate-700">پیوند تصویرها (هر خط یک پیوند)</label>
+            <textarea
+              value={screenshots}
+              onChange={e => setScreenshots(e.target.value)}
+              rows={2}
+              placeholder="https://..."
+              className="w-full rounded-md border border-slate-300 px-3 py-2 text-xs font-mono dir-ltr focus:ring-2 focus:ring-brand-500 outline-none"
+            />
+            {links.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {links.map(link => (
+                  <a key={link} href={link} target="_blank" rel="noreferrer">
+                    <img src={link} alt="" className="h-16 w-24 object-cover rounded border border-slate-200 bg-slate-50" />
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-2 mt-6">
+          {notes ? <Button variant="ghost" className="text-red-600" onClick={handleClear}>پاک کردن</Button> : <span />}
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={onClose}>انصراف</Button>
+            <Button onClick={handleSave}>ذخیره</Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
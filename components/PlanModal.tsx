@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { BASE_CURRENCY, CurrencyInfo, Instrument, InvestmentPlan, PlanFrequency, PlanInput, PlanRun, Portfolio } from '../types';
+import { nextDueDate, PLAN_FREQUENCY_LABELS } from '../lib/plans';
+import { findCurrency, formatMoney } from '../lib/currency';
+import { Card, Input, Button } from './ui';
+import { X, Edit2, Trash2, Pause, Play } from 'lucide-react';
+
+interface PlanModalProps {
+  portfolio: Portfolio;
+  plans: InvestmentPlan[];
+  runs: PlanRun[];
+  instruments: Instrument[];
+  currencies: CurrencyInfo[];
+  now: Date; // Simulator clock, for the next due dates
+  onAdd: (input: PlanInput) => boolean;
+  onEdit: (planId: string, input: PlanInput) => boolean;
+  onDelete: (planId: string) => boolean;
+  onClose: () => void;
+}
+
+// <input type="date"> values are local calendar days
+const toDateInput = (iso: string): string => {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+const fromDateInput = (value: string): string => new Date(`${value}T00:00:00`).toISOString();
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('fa-IR');
+
+const planInput = (plan: InvestmentPlan): PlanInput => ({
+  instrumentId: plan.instrumentId,
+  amount: plan.amount,
+  currency: plan.currency,
+  frequency: plan.frequency,
+  startDate: plan.startDate,
+  endDate: plan.endDate,
+  active: plan.active
+});
+
+export const PlanModal: React.FC<PlanModalProps> = ({ portfolio, plans, runs, instruments, currencies, now, onAdd, onEdit, onDelete, onClose }) => {
+  const emptyForm = {
+    instrumentId: instruments[0]?.id || '',
+    amount: '',
+    currency: BASE_CURRENCY,
+    frequency: 'monthly' as PlanFrequency,
+    startDate: toDateInput(now.toISOString()),
+    endDate: ''
+  };
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(plans[0]?.id || null);
+
+  const symbolOf = (instrumentId: string) => instruments.find(i => i.id === instrumentId)?.symbol || '؟';
+
+  const startEdit = (plan: InvestmentPlan) => {
+    setEditingId(plan.id);
+    setForm({
+      instrumentId: plan.instrumentId,
+      amount: plan.amount.toString(),
+      currency: plan.currency,
+      frequency: plan.frequency,
+      startDate: toDateInput(plan.startDate),
+      endDate: plan.endDate ? toDateInput(plan.endDate) : ''
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSubmit = () => {
+    const existing = plans.find(p => p.id === editingId);
+    const input: PlanInput = {
+      instrumentId: form.instrumentId,
+      amount: parseFloat(form.amount) || 0,
+      currency: form.currency,
+      frequency: form.frequency,
+      // An untouched date keeps its original time of day
+      startDate: existing && form.startDate === toDateInput(existing.startDate) ? existing.startDate : fromDateInput(form.startDate),
+      endDate: form.endDate ? fromDateInput(form.endDate) : undefined,
+      active: existing ? existing.active : true
+    };
+    const saved = editingId ? onEdit(editingId, input) : onAdd(input);
+    if (saved) resetForm();
+  };
+
+  const selectClass = "w-full h-10 rounded-md border border-slate-300 px-3 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none";
+  const history = runs.filter(r => r.planId === historyId);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-3xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg">برنامه‌های خرید دوره‌ای: {portfolio.name}</h3>
+          <button onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 p-4 bg-slate-50 rounded-lg border border-slate-100">
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-slate-700">نماد</label>
+            <select value={form.instrumentId} onChange={e => setForm({ ...form, instrumentId: e.target.value })} className={selectClass}>
+              {instruments.map(i => <option key={i.id} value={i.id}>{i.symbol} - {i.name}</option>)}
+            </select>
+          </div>
+          <Input label="مبلغ هر خرید" type="number" showNumberHelper value={form.amount} onChange={e => setForm({ ...form, amount: e.target.value })} />
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-slate-700">ارز مبلغ</label>
+            <select value={form.currency} onChange={e => setForm({ ...form, currency: e.target.value })} className={selectClass}>
+              {currencies.map(c => <option key={c.code} value={c.code}>{c.name}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-slate-700">دوره تکرار</label>
+            <select value={form.frequency} onChange={e => setForm({ ...form, frequency: e.target.value as PlanFrequency })} className={selectClass}>
+              {(Object.keys(PLAN_FREQUENCY_LABELS) as PlanFrequency[]).map(f => <option key={f} value={f}>{PLAN_FREQUENCY_LABELS[f]}</option>)}
+            </select>
+          </div>
+          <Input label="تاریخ شروع" type="date" value={form.startDate} onChange={e => setForm({ ...form, startDate: e.target.value })} />
+          <Input label="تاریخ پایان (اختیاری)" type="date" value={form.endDate} onChange={e => setForm({ ...form, endDate: e.target.value })} />
+          <div className="col-span-2 md:col-span-3 flex gap-2">
+            <Button onClick={handleSubmit} className="flex-1" disabled={instruments.length === 0}>{editingId ? 'ذخیره تغییرات' : 'افزودن برنامه'}</Button>
+            {editingId && <Button variant="secondary" onClick={resetForm}>انصراف</Button>}
+          </div>
+        </div>
+
+        <table className="w-full text-sm text-right mt-4">
+          <thead className="bg-slate-50 text-slate-500">
+            <tr>
+              <th className="p-2">نماد</th>
+              <th className="p-2">مبلغ</th>
+              <th className="p-2">دوره</th>
+              <th className="p-2">سررسید بعدی</th>
+              <th className="p-2">وضعیت</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {plans.map(plan => {
+              const next = nextDueDate(plan, now);
+              return (
+                <tr key={plan.id} onClick={() => setHistoryId(plan.id)} className={`cursor-pointer hover:bg-slate-50 ${historyId === plan.id ? 'bg-brand-50' : ''}`}>
+                  <td className="p-2 font-mono font-bold text-slate-700">{symbolOf(plan.instrumentId)}</td>
+                  <td className="p-2 dir-ltr text-right">{formatMoney(plan.amount, findCurrency(currencies, plan.currency))}</td>
+                  <td className="p-2 text-xs text-slate-500">{PLAN_FREQUENCY_LABELS[plan.frequency]}</td>
+                  <td className="p-2 text-xs">{next ? formatDate(next) : 'پایان یافته'}</td>
+                  <td className="p-2 text-xs">{plan.active ? <span className="text-green-600">فعال</span> : <span className="text-slate-400">متوقف</span>}</td>
+                  <td className="p-2 text-left whitespace-nowrap" onClick={e => e.stopPropagation()}>
+                    <button onClick={() => onEdit(plan.id, { ...planInput(plan), active: !plan.active })} className="p-1 text-slate-400 hover:text-brand-600 rounded" title={plan.active ? 'توقف' : 'ادامه'}>
+                      {plan.active ? <Pause size={14} /> : <Play size={14} />}
+                    </button>
+                    <button onClick={() => startEdit(plan)} className="p-1 text-slate-400 hover:text-brand-600 rounded" title="ویرایش"><Edit2 size={14} /></button>
+                    <button onClick={() => { if (confirm('این برنامه حذف شود؟')) onDelete(plan.id); }} className="p-1 text-slate-400 hover:text-red-600 rounded" title="حذف"><Trash2 size={14} /></button>
+                  </td>
+                </tr>
+              );
+            })}
+            {plans.length === 0 && (
+              <tr><td colSpan={6} className="p-6 text-center text-slate-400">هنوز برنامه‌ای برای این سبد تعریف نشده است</td></tr>
+            )}
+          </tbody>
+        </table>
+
+        {historyId && plans.some(p => p.id === historyId) && (
+          <div className="mt-4">
+            <h4 className="font-bold text-sm text-slate-700 mb-2">اجراهای {symbolOf(plans.find(p => p.id === historyId)!.instrumentId)}</h4>
+            <div className="max-h-56 overflow-y-auto divide-y divide-slate-100 border border-slate-100 rounded-lg text-xs">
+              {history.map(run => (
+                <div key={run.id} className="flex justify-between gap-4 p-2">
+                  <span className="text-slate-500 whitespace-nowrap">{formatDate(run.dueAt)}</span>
+                  {run.tradeId
+                    ? <span className="text-green-600">خرید انجام شد</span>
+                    : <span className="text-amber-600">رد شد: {run.skipReason}</span>}
+                </div>
+              ))}
+              {history.length === 0 && <div className="p-4 text-center text-slate-400">هنوز سررسیدی نرسیده است</div>}
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
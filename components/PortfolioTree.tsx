@@ -10,9 +10,17 @@ interface PortfolioTreeProps {
   onAdd: (parentId: string | null) => void;
   onEdit: (portfolio: Portfolio) => void;
   onDelete: (id: string) => void;
+  onMove: (id: string, parentId: string | null, beforeId?: string) => void;
   depth?: number;
+  parentId?: string | null;
 }
 
+// Where a dragged portfolio lands relative to the node under the pointer
+type DropPosition = 'before' | 'inside' | 'after';
+
+// Id of the portfolio being dragged; dataTransfer is not readable during dragover
+let draggedId: string | null = null;
+
 export const PortfolioTree: React.FC<PortfolioTreeProps> = ({ 
   portfolios, 
   selectedId, 
@@ -20,7 +28,9 @@ export const PortfolioTree: React.FC<PortfolioTreeProps> = ({
   onAdd, 
   onEdit,
   onDelete, 
-  depth = 0 
+  onMove,
+  depth = 0,
+  parentId = null
 }) => {
   return (
     <div className="flex flex-col gap-1">
@@ -43,7 +53,7 @@ export const PortfolioTree: React.FC<PortfolioTreeProps> = ({
         </div>
       )}
 
-      {portfolios.map((portfolio) => (
+      {portfolios.map((portfolio, index) => (
         <PortfolioNode 
           key={portfolio.id}
           portfolio={portfolio}
@@ -52,7 +62,10 @@ export const PortfolioTree: React.FC<PortfolioTreeProps> = ({
           onAdd={onAdd}
           onEdit={onEdit}
           onDelete={onDelete}
+          onMove={onMove}
           depth={depth}
+          parentId={parentId}
+          nextSiblingId={portfolios[index + 1]?.id}
         />
       ))}
       
@@ -77,9 +90,13 @@ const PortfolioNode: React.FC<{
   onAdd: (parentId: string | null) => void;
   onEdit: (portfolio: Portfolio) => void;
   onDelete: (id: string) => void;
+  onMove: (id: string, parentId: string | null, beforeId?: string) => void;
   depth: number;
-}> = ({ portfolio, selectedId, onSelect, onAdd, onEdit, onDelete, depth }) => {
+  parentId: string | null;
+  nextSiblingId?: string;
+}> = ({ portfolio, selectedId, onSelect, onAdd, onEdit, onDelete, onMove, depth, parentId, nextSiblingId }) => {
   const [isOpen, setIsOpen] = useState(true);
+  const [dropPosition, setDropPosition] = useState<DropPosition | null>(null);
   const isSelected = selectedId === portfolio.id;
   const hasChildren = portfolio.children.length > 0;
 
@@ -88,15 +105,48 @@ const PortfolioNode: React.FC<{
     setIsOpen(!isOpen);
   };
 
+  // Top and bottom quarters reorder among siblings, the middle nests inside
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!draggedId || draggedId === portfolio.id) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientY - rect.top) / rect.height;
+    setDropPosition(ratio < 0.25 ? 'before' : ratio > 0.75 ? 'after' : 'inside');
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const id = draggedId;
+    const position = dropPosition;
+    draggedId = null;
+    setDropPosition(null);
+    if (!id || id === portfolio.id || !position) return;
+    if (position === 'inside') onMove(id, portfolio.id);
+    else if (position === 'before') onMove(id, parentId, portfolio.id);
+    else onMove(id, parentId, nextSiblingId === id ? undefined : nextSiblingId);
+  };
+
+  const dropIndicator = dropPosition === 'before' ? 'border-t-2 border-t-brand-500'
+    : dropPosition === 'after' ? 'border-b-2 border-b-brand-500'
+    : dropPosition === 'inside' ? 'ring-2 ring-brand-400' : '';
+
   return (
     <div className="select-none">
       <div 
         className={`
           group flex items-center justify-between px-3 py-2 rounded-lg cursor-pointer transition-all
           ${isSelected ? 'bg-brand-600 text-white shadow-md' : 'hover:bg-slate-100 text-slate-700'}
+          ${dropIndicator}
         `}
         style={{ marginRight: `${depth * 12}px` }}
         onClick={() => onSelect(portfolio.id)}
+        draggable
+        onDragStart={(e) => { draggedId = portfolio.id; e.dataTransfer.effectAllowed = 'move'; e.stopPropagation(); }}
+        onDragEnd={() => { draggedId = null; setDropPosition(null); }}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setDropPosition(null)}
+        onDrop={handleDrop}
+        title="برای جابه‌جایی بکشید"
       >
         <div className="flex items-center gap-2 overflow-hidden">
           <button 
@@ -150,7 +200,9 @@ const PortfolioNode: React.FC<{
             onAdd={onAdd}
             onEdit={onEdit}
             onDelete={onDelete}
+            onMove={onMove}
             depth={depth + 1}
+            parentId={portfolio.id}
           />
         </div>
       )}
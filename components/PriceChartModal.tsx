@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { ComposedChart, Bar, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Instrument, PricePoint, Trade } from '../types';
+import { buildCandles, CandleInterval, CANDLE_INTERVAL_LABELS, fillsByCandle } from '../lib/priceHistory';
+import { formatPrice } from '../lib/instruments';
+import { parseRateLines } from '../lib/currency';
+import { Card, Button, formatNumber } from './ui';
+import { X, Upload, CandlestickChart } from 'lucide-react';
+
+interface PriceChartModalProps {
+  instrument: Instrument;
+  points: PricePoint[];
+  fills: Trade[]; // The user's trades on this instrument
+  onImport: (prices: { timestamp: string; price: number }[]) => boolean;
+  onClose: () => void;
+}
+
+const UP = '#16a34a';
+const DOWN = '#dc2626';
+
+// Draws one candle inside the [low, high] band recharts lays out for the bar
+const CandleShape = (props: any) => {
+  const { x, y, width, height, payload } = props;
+  const { open, close, high, low } = payload;
+  const color = close >= open ? UP : DOWN;
+  const scale = high > low ? height / (high - low) : 0;
+  const top = y + (high - Math.max(open, close)) * scale;
+  const bodyHeight = Math.max(1, Math.abs(open - close) * scale);
+  const center = x + width / 2;
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={top} width={width * 0.7} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
+const formatBucket = (time: number, interval: CandleInterval): string => {
+  const d = new Date(time);
+  if (interval === '1h') return `${d.toLocaleDateString('fa-IR')} ${d.toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' })}`;
+  if (interval === '1M') return d.toLocaleDateString('fa-IR', { year: 'numeric', month: 'long' });
+  return d.toLocaleDateString('fa-IR');
+};
+
+export const PriceChartModal: React.FC<PriceChartModalProps> = ({ instrument, points, fills, onImport, onClose }) => {
+  const [interval, setCandleInterval] = useState<CandleInterval>('1d');
+  const [importText, setImportText] = useState('');
+
+  const data = useMemo(() => {
+    const fillMap = fillsByCandle(fills, interval);
+    return buildCandles(points, interval).map(c => ({
+      ...c,
+      label: formatBucket(c.time, interval),
+      range: [c.low, c.high],
+      buy: fillMap.get(c.time)?.buy,
+      sell: fillMap.get(c.time)?.sell
+    }));
+  }, [points, fills, interval]);
+
+  const handleImport = () => {
+    const { rates, badLines } = parseRateLines(importText);
+    if (badLines.length > 0) {
+      alert(`ردیف‌های نامعتبر: ${badLines.map(n => formatNumber(n)).join('، ')}\nهر ردیف باید به شکل «تاریخ,قیمت» باشد (مثلا 2024-03-20,1500000).`);
+      return;
+    }
+    if (onImport(rates.map(r => ({ timestamp: r.timestamp, price: r.rate })))) setImportText('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-4xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <CandlestickChart size={20} className="text-brand-600" />
+            نمودار قیمت {instrument.name} <span className="font-mono text-sm text-slate-400">{instrument.symbol}</span>
+          </h3>
+          <button onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="flex gap-1 bg-slate-100 p-1 rounded-lg w-fit mb-4">
+          {(Object.keys(CANDLE_INTERVAL_LABELS) as CandleInterval[]).map(i => (
+            <button key={i} onClick={() => setCandleInterval(i)} className={`px-3 py-1 text-xs rounded-md transition-all ${interval === i ? 'bg-white text-brand-600 shadow' : 'text-slate-500 hover:text-slate-900'}`}>
+              {CANDLE_INTERVAL_LABELS[i]}
+            </button>
+          ))}
+        </div>
+
+        <div className="h-[360px]">
+          {data.length > 0 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={data} margin={{ top: 10, right: 20, left: 20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} tickMargin={8} />
+                <YAxis domain={['auto', 'auto']} tick={{ fontSize: 11 }} stroke="#64748b" tickFormatter={(v) => new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 2 }).format(v)} />
+                <Tooltip
+                  content={({ active, payload }: any) => {
+                    if (!active || !payload?.length) return null;
+                    const c = payload[0].payload;
+                    return (
+                      <div className="bg-white p-3 border border-slate-200 shadow-lg rounded-lg text-xs space-y-0.5">
+                        <p className="font-bold text-slate-700">{c.label}</p>
+                        <p>باز: <span className="font-mono">{formatPrice(c.open, instrument)}</span></p>
+                        <p>بیشترین: <span className="font-mono">{formatPrice(c.high, instrument)}</span></p>
+                        <p>کمترین: <span className="font-mono">{formatPrice(c.low, instrument)}</span></p>
+                        <p>بسته: <span className="font-mono">{formatPrice(c.close, instrument)}</span></p>
+                        {c.buy !== undefined && <p className="text-green-600">خرید شما: <span className="font-mono">{formatPrice(c.buy, instrument)}</span></p>}
+                        {c.sell !== undefined && <p className="text-red-600">فروش شما: <span className="font-mono">{formatPrice(c.sell, instrument)}</span></p>}
+                      </div>
+                    );
+                  }}
+                />
+                <Bar dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+                <Scatter dataKey="buy" fill={UP} shape="triangle" isAnimationActive={false} />
+                <Scatter dataKey="sell" fill={DOWN} shape="diamond" isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center text-slate-400">هنوز قیمتی برای این نماد ثبت نشده است</div>
+          )}
+        </div>
+        <div className="flex gap-4 text-xs text-slate-500 mt-2">
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ background: UP }}></span> خریدهای شما</span>
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ background: DOWN }}></span> فروش‌های شما</span>
+          <span className="mr-auto">{formatNumber(points.length)} قیمت ثبت‌شده</span>
+        </div>
+
+        <div className="mt-6 space-y-2">
+          <label className="text-sm font-medium text-slate-700 flex items-center gap-1"><Upload size={14} /> ورود گروهی قیمت</label>
+          <textarea
+            value={importText}
+            onChange={e => setImportText(e.target.value)}
+            rows={3}
+            placeholder={'2024-03-20,1500000\n2024-03-21T10:30,1520000'}
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-xs font-mono dir-ltr focus:ring-2 focus:ring-brand-500 outline-none"
+          />
+          <Button variant="secondary" onClick={handleImport} className="w-full" disabled={!importText.trim()}>ورود قیمت‌ها</Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { AppState, FeeType, Portfolio, PortfolioTargets } from '../types';
+import { portfolioDrift, proposeRebalance, RebalanceTrade } from '../lib/rebalance';
+import { findPortfolioRecursive } from '../lib/portfolioTree';
+import { Card, Input, Button, formatNumber, formatCurrency } from './ui';
+import { X, Scale, Trash2 } from 'lucide-react';
+
+interface RebalanceModalProps {
+  state: AppState;
+  portfolio: Portfolio;
+  now: Date;
+  onSaveTargets: (targets: PortfolioTargets | null) => boolean;
+  onExecute: (trades: RebalanceTrade[]) => boolean;
+  onClose: () => void;
+}
+
+const toDraft = (targets: PortfolioTargets | undefined): Record<string, string> =>
+  Object.fromEntries(Object.entries({ ...targets?.assets, ...targets?.children }).map(([id, w]) => [id, w.toString()]));
+
+export const RebalanceModal: React.FC<RebalanceModalProps> = ({ state, portfolio, now, onSaveTargets, onExecute, onClose }) => {
+  const [draft, setDraft] = useState<Record<string, string>>(toDraft(portfolio.targets));
+  const [extraIds, setExtraIds] = useState<string[]>([]); // Instruments given a target but not held yet
+  const [feeType, setFeeType] = useState<FeeType>('percentage');
+  const [feeValue, setFeeValue] = useState('0.2');
+
+  const rows = portfolioDrift(state, portfolio);
+  const allRows = [
+    ...rows,
+    ...extraIds.filter(id => !rows.some(r => r.id === id)).map(id => ({
+      kind: 'asset' as const, id, label: state.instruments.find(i => i.id === id)?.symbol || id, value: 0, actual: 0, target: 0, drift: 0
+    }))
+  ];
+  const draftSum = allRows.reduce((sum, r) => sum + (parseFloat(draft[r.id]) || 0), 0);
+  const addable = state.instruments.filter(i => !allRows.some(r => r.id === i.id));
+
+  const proposal = useMemo(
+    () => proposeRebalance(state, portfolio, { feeType, feeValue: parseFloat(feeValue) || 0 }, now),
+    [state, portfolio, feeType, feeValue]
+  );
+  const sells = proposal.filter(t => t.side === 'sell').reduce((sum, t) => sum + t.value, 0);
+  const buys = proposal.filter(t => t.side === 'buy').reduce((sum, t) => sum + t.value, 0);
+  const fees = proposal.reduce((sum, t) => sum + t.fee, 0);
+
+  const handleSave = () => {
+    const targets: PortfolioTargets = { assets: {}, children: {} };
+    allRows.forEach(r => {
+      const weight = parseFloat(draft[r.id]) || 0;
+      if (weight > 0) targets[r.kind === 'asset' ? 'assets' : 'children'][r.id] = weight;
+    });
+    if (onSaveTargets(targets)) setExtraIds([]);
+  };
+
+  const handleClear = () => {
+    if (onSaveTargets(null)) {
+      setDraft({});
+      setExtraIds([]);
+    }
+  };
+
+  const handleExecute = () => {
+    if (!confirm(`${formatNumber(proposal.length)} معامله برای تعادل‌بخشی انجام شود؟`)) return;
+    onExecute(proposal);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-3xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg flex items-center gap-2"><Scale size={18} /> وزن هدف و تعادل‌بخشی: {portfolio.name}</h3>
+          <button onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <table className="w-full text-sm text-right">
+          <thead className="bg-slate-50 text-slate-500">
+            <tr>
+              <th className="p-2">دارایی / زیرسبد</th>
+              <th className="p-2">ارزش</th>
+              <th className="p-2">وزن فعلی</th>
+              <th className="p-2 w-28">وزن هدف ٪</th>
+              <th className="p-2">انحراف</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {allRows.map(r => (
+              <tr key={r.id} className="hover:bg-slate-50">
+                <td className="p-2">
+                  <span className={r.kind === 'asset' ? 'font-mono font-bold text-slate-700' : 'font-medium text-slate-700'}>{r.label}</span>
+                  {r.kind === 'child' && <span className="text-[10px] text-slate-400 mr-1">(زیرسبد)</span>}
+                </td>
+                <td className="p-2 text-xs dir-ltr text-right">{formatNumber(Math.round(r.value))}</td>
+                <td className="p-2 text-xs">{r.actual.toFixed(1)}٪</td>
+                <td className="p-2">
+                  <input type="number" min="0" max="100" value={draft[r.id] || ''} onChange={e => setDraft({ ...draft, [r.id]: e.target.value })} className="h-8 w-full rounded border border-slate-300 px-2 text-xs" />
+                </td>
+                <td className={`p-2 text-xs dir-ltr text-right ${!portfolio.targets ? 'text-slate-300' : Math.abs(r.drift) < 1 ? 'text-slate-500' : r.drift > 0 ? 'text-red-600' : 'text-blue-600'}`}>
+                  {portfolio.targets ? `${r.drift > 0 ? '+' : ''}${r.drift.toFixed(1)}` : '-'}
+                </td>
+              </tr>
+            ))}
+            {allRows.length === 0 && (
+              <tr><td colSpan={5} className="p-6 text-center text-slate-400">این سبد هنوز دارایی یا زیرسبدی ندارد</td></tr>
+            )}
+          </tbody>
+        </table>
+
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          {addable.length > 0 && (
+            <select value="" onChange={e => e.target.value && setExtraIds([...extraIds, e.target.value])} className="h-9 rounded-md border border-slate-300 px-2 text-xs bg-white outline-none">
+              <option value="">+ افزودن نماد به اهداف</option>
+              {addable.map(i => <option key={i.id} value={i.id}>{i.symbol} - {i.name}</option>)}
+            </select>
+          )}
+          <span className={`text-xs mr-auto ${Math.abs(draftSum - 100) > 0.01 ? 'text-red-600' : 'text-green-600'}`}>جمع وزن‌ها: {draftSum.toFixed(2)}٪</span>
+          {portfolio.targets && (
+            <Button variant="secondary" size="sm" onClick={handleClear} className="text-xs"><Trash2 size={14} className="ml-1" /> حذف اهداف</Button>
+          )}
+          <Button size="sm" onClick={handleSave} className="text-xs">ذخیره وزن‌های هدف</Button>
+        </div>
+
+        {portfolio.targets && (
+          <div className="mt-6 pt-4 border-t border-slate-100">
+            <div className="flex flex-wrap justify-between items-end gap-4 mb-3">
+              <h4 className="font-bold text-sm text-slate-700">پیشنهاد تعادل‌بخشی</h4>
+              <div className="flex items-end gap-3">
+                <div className="flex gap-3 text-xs pb-2">
+                  <label className="flex items-center gap-1 cursor-pointer"><input type="radio" checked={feeType === 'percentage'} onChange={() => setFeeType('percentage')} /> درصدی</label>
+                  <label className="flex items-center gap-1 cursor-pointer"><input type="radio" checked={feeType === 'fixed'} onChange={() => setFeeType('fixed')} /> ثابت</label>
+                </div>
+                <div className="w-32">
+                  <Input label="کارمزد هر معامله" type="number" value={feeValue} onChange={e => setFeeValue(e.target.value)} suffix={feeType === 'percentage' ? '%' : 'تومان'} />
+                </div>
+              </div>
+            </div>
+
+            {proposal.length > 0 ? (
+              <>
+                <table className="w-full text-sm text-right">
+                  <thead className="bg-slate-50 text-slate-500">
+                    <tr>
+                      <th className="p-2">نوع</th>
+                      <th className="p-2">نماد</th>
+                      <th className="p-2">سبد</th>
+                      <th className="p-2">مقدار</th>
+                      <th className="p-2">ارزش</th>
+                      <th className="p-2">کارمزد</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 text-xs">
+                    {proposal.map((t, i) => (
+                      <tr key={i}>
+                        <td className={`p-2 font-bold ${t.side === 'buy' ? 'text-green-600' : 'text-red-600'}`}>{t.side === 'buy' ? 'خرید' : 'فروش'}</td>
+                        <td className="p-2 font-mono font-bold text-slate-700">{t.symbol}</td>
+                        <td className="p-2 text-slate-500">{findPortfolioRecursive(state.rootPortfolios, t.portfolioId)?.name}</td>
+                        <td className="p-2 dir-ltr text-right">{formatNumber(t.amount)}</td>
+                        <td className="p-2 dir-ltr text-right">{formatNumber(Math.round(t.value))}</td>
+                        <td className="p-2 dir-ltr text-right">{formatNumber(Math.round(t.fee))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="flex flex-wrap justify-between items-center gap-3 mt-3 p-3 bg-slate-50 rounded-lg text-xs">
+                  <span>فروش: <b>{formatCurrency(Math.round(sells))}</b></span>
+                  <span>خرید: <b>{formatCurrency(Math.round(buys))}</b></span>
+                  <span>کارمزد تخمینی: <b>{formatCurrency(Math.round(fees))}</b></span>
+                  <Button size="sm" onClick={handleExecute}>اجرای همه معاملات</Button>
+                </div>
+              </>
+            ) : (
+              <p className="text-center text-slate-400 text-sm p-4">سبد با وزن‌های هدف هم‌خوان است</p>
+            )}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
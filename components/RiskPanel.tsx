@@ -0,0 +1,114 @@
+import React, { useMemo } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { PerformancePoint } from '../lib/performance';
+import { RiskConfidence, RiskSettings, drawdownSeries, riskMetrics } from '../lib/risk';
+import { Input } from './ui';
+import { Activity } from 'lucide-react';
+
+interface RiskPanelProps {
+  performance: PerformancePoint[]; // Of the analysed scope
+  scopeName: string;
+  formatAmount: (toman: number) => string; // In the reporting currency
+  settings: RiskSettings;
+  onChange: (settings: RiskSettings) => void;
+}
+
+const CONFIDENCES: RiskConfidence[] = [90, 95, 99];
+
+const chartDate = (iso: string) => new Date(iso).toLocaleDateString('fa-IR');
+const ratio = (value: number | null) => value === null ? '-' : value.toFixed(2);
+
+export const RiskPanel: React.FC<RiskPanelProps> = ({ performance, scopeName, formatAmount, settings, onChange }) => {
+  const metrics = useMemo(() => riskMetrics(performance, settings), [performance, settings]);
+  const underwater = useMemo(() => drawdownSeries(performance).map(p => ({ ...p, label: chartDate(p.date) })), [performance]);
+  const currentValue = performance.length > 0 ? performance[performance.length - 1].value : 0;
+  const selectClass = "h-9 rounded-md border border-slate-300 px-2 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none";
+
+  return (
+    <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap justify-between items-end gap-3 mb-4">
+        <h4 className="font-bold text-slate-700 flex items-center gap-2">
+          <Activity size={18} className="text-brand-600" />
+          ریسک {scopeName}
+        </h4>
+        <div className="flex items-end gap-2">
+          <div className="w-36">
+            <Input
+              label="نرخ بدون ریسک سالانه"
+              type="number"
+              suffix="%"
+              value={settings.riskFreeRate}
+              onChange={e => onChange({ ...settings, riskFreeRate: parseFloat(e.target.value) || 0 })}
+            />
+          </div>
+          <select value={settings.confidence} onChange={e => onChange({ ...settings, confidence: Number(e.target.value) as RiskConfidence })} className={selectClass} title="سطح اطمینان VaR">
+            {CONFIDENCES.map(c => <option key={c} value={c}>اطمینان {c}%</option>)}
+          </select>
+        </div>
+      </div>
+
+      {!metrics ? (
+        <p className="text-center text-slate-400 text-sm p-6">برای سنجش ریسک دست‌کم سه روز سابقه لازم است</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3 text-center">
+            {[
+              { title: 'نوسان سالانه', value: `${metrics.volatility.toFixed(2)}%` },
+              { title: 'نسبت شارپ', value: ratio(metrics.sharpe) },
+              { title: 'نسبت سورتینو', value: ratio(metrics.sortino) },
+              { title: 'بیشترین افت', value: `${metrics.maxDrawdown.depth.toFixed(2)}%`, tone: 'text-red-600' }
+            ].map(card => (
+              <div key={card.title} className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-[11px] text-slate-500 mb-1">{card.title}</div>
+                <div className={`font-bold dir-ltr ${card.tone || 'text-slate-700'}`}>{card.value}</div>
+              </div>
+            ))}
+          </div>
+          {metrics.maxDrawdown.depth > 0 && (
+            <p className="text-xs text-slate-500 mb-4">
+              از اوج {chartDate(metrics.maxDrawdown.peakDate)} تا کف {chartDate(metrics.maxDrawdown.troughDate)}؛
+              {metrics.maxDrawdown.recoveryDate ? ` بازیابی در ${chartDate(metrics.maxDrawdown.recoveryDate)}` : ' هنوز بازیابی نشده'}
+            </p>
+          )}
+
+          <table className="w-full text-sm text-right mb-2">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="p-2 rounded-r-lg">زیان یک‌روزه در اطمینان {settings.confidence}%</th>
+                <th className="p-2">VaR</th>
+                <th className="p-2 rounded-l-lg">CVaR</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {[
+                { title: 'تاریخی', var: metrics.historicalVar, cvar: metrics.historicalCvar },
+                { title: 'پارامتریک (نرمال)', var: metrics.parametricVar, cvar: metrics.parametricCvar }
+              ].map(row => (
+                <tr key={row.title}>
+                  <td className="p-2">{row.title}</td>
+                  <td className="p-2 dir-ltr text-right">{row.var.toFixed(2)}% <span className="text-slate-400 text-xs">({formatAmount(currentValue * row.var / 100)})</span></td>
+                  <td className="p-2 dir-ltr text-right">{row.cvar.toFixed(2)}% <span className="text-slate-400 text-xs">({formatAmount(currentValue * row.cvar / 100)})</span></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[11px] text-slate-400 mb-4">بر پایه {metrics.observations} بازده روزانه وزنی-زمانی؛ واریز، برداشت و انتقال‌ها اثری ندارند. مبالغ با ارزش فعلی محاسبه شده‌اند.</p>
+        </>
+      )}
+
+      {underwater.length > 1 && (
+        <div className="h-[180px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={underwater} margin={{ top: 10, right: 20, left: 20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} tickMargin={8} />
+              <YAxis tick={{ fontSize: 11 }} stroke="#64748b" tickFormatter={(v) => `${v.toFixed(0)}%`} />
+              <Tooltip formatter={(value: number) => `${value.toFixed(2)}%`} contentStyle={{ borderRadius: '8px', fontSize: '12px' }} />
+              <Area type="stepAfter" dataKey="drawdown" name="افت از اوج" stroke="#dc2626" fill="#fecaca" isAnimationActive={false} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
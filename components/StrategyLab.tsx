@@ -0,0 +1,269 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { AppState } from '../types';
+import { parseHistoricalPrices } from '../lib/backtest';
+import { StrategyDefinition, StrategyRunResult, STRATEGY_TEMPLATES } from '../lib/strategy';
+import { runStrategyInWorker } from '../lib/strategyRunner';
+import { Button, Input, formatCurrency, formatNumber } from './ui';
+import { Plus, Trash2, Play, Upload, Code2 } from 'lucide-react';
+
+interface StrategyLabProps {
+  base: Pick<AppState, 'instruments' | 'currencies' | 'fxRateHistory' | 'tetherPrice'>;
+  strategies: StrategyDefinition[];
+  onSaveStrategies: (strategies: StrategyDefinition[]) => void;
+}
+
+interface RunEntry {
+  strategyId: string;
+  name: string;
+  result?: StrategyRunResult;
+  error?: string;
+}
+
+const COLORS = ['#0ea5e9', '#f59e0b', '#10b981', '#8b5cf6', '#ef4444', '#64748b'];
+
+export const StrategyLab: React.FC<StrategyLabProps> = ({ base, strategies, onSaveStrategies }) => {
+  const [editingId, setEditingId] = useState<string | null>(strategies[0]?.id || null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [data, setData] = useState('');
+  const [startCash, setStartCash] = useState('1000000000');
+  const [feePercent, setFeePercent] = useState('0.5');
+  const [running, setRunning] = useState(false);
+  const [runs, setRuns] = useState<RunEntry[]>([]);
+  const [detailId, setDetailId] = useState<string | null>(null);
+
+  const editing = strategies.find(s => s.id === editingId);
+
+  const updateEditing = (changes: Partial<StrategyDefinition>) =>
+    onSaveStrategies(strategies.map(s => s.id === editingId ? { ...s, ...changes } : s));
+
+  const addStrategy = (templateId: string) => {
+    const template = STRATEGY_TEMPLATES.find(t => t.id === templateId) || STRATEGY_TEMPLATES[0];
+    const strategy: StrategyDefinition = { id: `st-${Date.now()}`, name: template.name, code: template.code };
+    onSaveStrategies([...strategies, strategy]);
+    setEditingId(strategy.id);
+  };
+
+  const deleteStrategy = (id: string) => {
+    if (!confirm('این استراتژی حذف شود؟')) return;
+    onSaveStrategies(strategies.filter(s => s.id !== id));
+    setSelected(selected.filter(s => s !== id));
+    if (editingId === id) setEditingId(null);
+  };
+
+  const loadFile = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setData(String(reader.result || ''));
+    reader.readAsText(file);
+  };
+
+  // Strategies run one after another, each in its own worker
+  const runSelected = async () => {
+    const { steps, badLines } = parseHistoricalPrices(data);
+    if (badLines.length > 0) {
+      alert(`ردیف‌های نامعتبر: ${badLines.map(n => formatNumber(n)).join('، ')}\nهر ردیف باید به شکل «تاریخ,نماد,قیمت» باشد.`);
+      return;
+    }
+    // Only what the run needs is copied into the workers
+    const { instruments, currencies, fxRateHistory, tetherPrice } = base;
+    const input = { base: { instruments, currencies, fxRateHistory, tetherPrice }, steps, startCash: parseFloat(startCash), feePercent: parseFloat(feePercent) || 0, now: new Date().toISOString() };
+    const toRun = strategies.filter(s => selected.includes(s.id));
+    setRunning(true);
+    setRuns([]);
+    setDetailId(null);
+    const entries: RunEntry[] = [];
+    for (const strategy of toRun) {
+      const response = await runStrategyInWorker(strategy.code, input);
+      entries.push(response.ok === false
+        ? { strategyId: strategy.id, name: strategy.name, error: response.message }
+        : { strategyId: strategy.id, name: strategy.name, result: response.result });
+      setRuns([...entries]);
+    }
+    setRunning(false);
+  };
+
+  // One row per moment on any curve; each strategy carries its last value forward
+  const chartData = useMemo(() => {
+    const finished = runs.filter(r => r.result);
+    const times = [...new Set<number>(finished.flatMap(r => r.result!.equity.map(p => new Date(p.date).getTime())))].sort((a, b) => a - b);
+    const cursors = finished.map(() => 0);
+    const last: (number | undefined)[] = finished.map(() => undefined);
+    return times.map(time => {
+      const row: Record<string, number | string> = { label: new Date(time).toLocaleDateString('fa-IR') };
+      finished.forEach((run, i) => {
+        const curve = run.result!.equity;
+        while (cursors[i] < curve.length && new Date(curve[cursors[i]].date).getTime() <= time) last[i] = curve[cursors[i]++].value;
+        if (last[i] !== undefined) row[run.strategyId] = last[i]!;
+      });
+      return row;
+    });
+  }, [runs]);
+
+  const detail = runs.find(r => r.strategyId === detailId && r.result);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <h4 className="font-bold text-slate-700 text-sm">استراتژی‌ها</h4>
+            <select value="" onChange={e => e.target.value && addStrategy(e.target.value)} className="h-8 rounded border border-slate-200 bg-white px-2 text-xs outline-none">
+              <option value="">+ افزودن از الگو</option>
+              {STRATEGY_TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+          </div>
+          <div className="border border-slate-100 rounded-lg divide-y divide-slate-100">
+            {strategies.map(s => (
+              <div key={s.id} className={`flex items-center gap-2 p-2 text-sm ${editingId === s.id ? 'bg-brand-50' : 'hover:bg-slate-50'}`}>
+                <input type="checkbox" checked={selected.includes(s.id)} onChange={e => setSelected(e.target.checked ? [...selected, s.id] : selected.filter(id => id !== s.id))} title="اجرا در نوبت بعد" />
+                <button onClick={() => setEditingId(s.id)} className="flex-1 text-right truncate">{s.name}</button>
+                <button onClick={() => deleteStrategy(s.id)} className="p-1 text-slate-400 hover:text-red-600 rounded" title="حذف"><Trash2 size={14} /></button>
+              </div>
+            ))}
+            {strategies.length === 0 && (
+              <button onClick={() => addStrategy(STRATEGY_TEMPLATES[0].id)} className="w-full p-4 text-xs text-slate-400 flex items-center justify-center gap-1 hover:text-brand-600">
+                <Plus size={14} /> اولین استراتژی را بسازید
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="lg:col-span-2 space-y-2">
+          {editing ? (
+            <>
+              <Input label="نام استراتژی" value={editing.name} onChange={e => updateEditing({ name: e.target.value })} />
+              <label className="text-sm font-medium text-slate-700 flex items-center gap-1"><Code2 size={14} /> کد (تابع onTick)</label>
+              <textarea
+                value={editing.code}
+                onChange={e => updateEditing({ code: e.target.value })}
+                rows={14}
+                spellCheck={false}
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-xs font-mono dir-ltr text-left bg-slate-900 text-slate-100 focus:ring-2 focus:ring-brand-500 outline-none"
+              />
+              <p className="text-[11px] text-slate-400 dir-ltr text-left font-mono">
+                ctx: time, step, totalSteps, prices, history, cash, equity, positions, memory → [{'{'} side: 'buy' | 'sell', symbol, amount | value {'}'}]
+              </p>
+            </>
+          ) : (
+            <div className="h-full flex items-center justify-center text-slate-400 border border-dashed border-slate-200 rounded-lg p-8">یک استراتژی را برای ویرایش انتخاب کنید</div>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 bg-slate-50 rounded-lg border border-slate-100 space-y-3">
+        <div className="flex justify-between items-center">
+          <label className="text-sm font-medium text-slate-700">داده قیمت تاریخی (تاریخ,نماد,قیمت)</label>
+          <label className="text-xs text-brand-600 flex items-center gap-1 cursor-pointer hover:underline">
+            <Upload size={12} /> انتخاب فایل
+            <input type="file" accept=".csv,.json,.txt" className="hidden" onChange={e => loadFile(e.target.files?.[0])} />
+          </label>
+        </div>
+        <textarea
+          value={data}
+          onChange={e => setData(e.target.value)}
+          rows={4}
+          placeholder={'timestamp,symbol,price\n2024-03-20,BTC,3500000000\n2024-03-21,BTC,3550000000'}
+          className="w-full rounded-md border border-slate-300 px-3 py-2 text-xs font-mono dir-ltr focus:ring-2 focus:ring-brand-500 outline-none"
+        />
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 items-end">
+          <Input label="موجودی اولیه (تومان)" type="number" value={startCash} onChange={e => setStartCash(e.target.value)} />
+          <Input label="کارمزد هر معامله (٪)" type="number" step="any" value={feePercent} onChange={e => setFeePercent(e.target.value)} />
+          <Button onClick={runSelected} disabled={running || selected.length === 0 || !data.trim()} className="gap-2 col-span-2 md:col-span-1">
+            <Play size={14} /> {running ? 'در حال اجرا...' : `اجرای ${formatNumber(selected.length)} استراتژی`}
+          </Button>
+        </div>
+      </div>
+
+      {runs.length > 0 && (
+        <div className="space-y-4">
+          {chartData.length > 0 && (
+            <div className="h-[320px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 10, right: 20, left: 20, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} tickMargin={8} />
+                  <YAxis tick={{ fontSize: 11 }} stroke="#64748b" tickFormatter={(v) => new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 }).format(v)} />
+                  <Tooltip formatter={(value: number) => formatCurrency(value)} contentStyle={{ borderRadius: '8px', fontSize: '12px' }} />
+                  <Legend />
+                  {runs.filter(r => r.result).map((r, i) => (
+                    <Line key={r.strategyId} type="monotone" dataKey={r.strategyId} name={r.name} stroke={COLORS[i % COLORS.length]} dot={false} strokeWidth={2} isAnimationActive={false} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <table className="w-full text-sm text-right">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="p-2">استراتژی</th>
+                <th className="p-2">ارزش نهایی</th>
+                <th className="p-2">بازده</th>
+                <th className="p-2">بیشترین افت</th>
+                <th className="p-2">معاملات</th>
+                <th className="p-2">نرخ برد</th>
+                <th className="p-2">کارمزد</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {runs.map(r => r.result ? (
+                <tr key={r.strategyId} onClick={() => setDetailId(r.strategyId === detailId ? null : r.strategyId)} className={`cursor-pointer ${detailId === r.strategyId ? 'bg-brand-50' : 'hover:bg-slate-50'}`}>
+                  <td className="p-2 font-medium">{r.name}</td>
+                  <td className="p-2 font-mono text-xs">{formatCurrency(r.result.stats.finalEquity)}</td>
+                  <td className={`p-2 dir-ltr text-right text-xs ${r.result.stats.totalReturn < 0 ? 'text-red-600' : 'text-green-600'}`}>{r.result.stats.totalReturn.toFixed(2)}%</td>
+                  <td className="p-2 dir-ltr text-right text-xs text-red-600">{r.result.stats.maxDrawdown.toFixed(2)}%</td>
+                  <td className="p-2 text-xs">{formatNumber(r.result.stats.trades)}</td>
+                  <td className="p-2 text-xs">{r.result.stats.closedPositions > 0 ? `${r.result.stats.winRate.toFixed(0)}% از ${formatNumber(r.result.stats.closedPositions)}` : '-'}</td>
+                  <td className="p-2 font-mono text-xs">{formatNumber(Math.round(r.result.stats.fees))}</td>
+                </tr>
+              ) : (
+                <tr key={r.strategyId}>
+                  <td className="p-2 font-medium">{r.name}</td>
+                  <td colSpan={6} className="p-2 text-xs text-red-600">{r.error}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {detail?.result && (
+            <div className="border border-slate-100 rounded-lg max-h-72 overflow-y-auto">
+              <table className="w-full text-xs text-right">
+                <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                  <tr>
+                    <th className="p-2">زمان</th>
+                    <th className="p-2">نوع</th>
+                    <th className="p-2">دارایی</th>
+                    <th className="p-2">مقدار</th>
+                    <th className="p-2">قیمت</th>
+                    <th className="p-2">سود/زیان</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {[...detail.result.trades].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()).map(t => (
+                    <tr key={t.id}>
+                      <td className="p-2 text-slate-500">{new Date(t.timestamp).toLocaleDateString('fa-IR')}</td>
+                      <td className={`p-2 font-bold ${t.type === 'buy' ? 'text-green-600' : 'text-red-600'}`}>{t.type === 'buy' ? 'خرید' : 'فروش'}</td>
+                      <td className="p-2">{t.assetName}</td>
+                      <td className="p-2 font-mono">{formatNumber(t.amount)}</td>
+                      <td className="p-2 font-mono">{formatNumber(t.price)}</td>
+                      <td className={`p-2 font-mono ${(t.realizedPnl || 0) < 0 ? 'text-red-600' : 'text-green-600'}`}>{t.type === 'sell' ? formatNumber(Math.round(t.realizedPnl || 0)) : '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {detail.result.rejected.length > 0 && (
+                <div className="p-3 border-t border-slate-100 text-xs text-amber-700 space-y-1">
+                  <p className="font-bold">{formatNumber(detail.result.rejected.length)} سفارش رد شد:</p>
+                  {detail.result.rejected.slice(0, 20).map((r, i) => (
+                    <p key={i}>{new Date(r.time).toLocaleDateString('fa-IR')} — {r.side === 'buy' ? 'خرید' : 'فروش'} {r.symbol}: {r.message}</p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
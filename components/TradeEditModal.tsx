@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { BASE_CURRENCY, Instrument, Trade, TradeType } from '../types';
+import { TradeEdit } from '../lib/ledger';
+import { Card, Input, Button, formatNumber } from './ui';
+import { DateTimePicker, toDateTimeValue } from './DateTimePicker';
+import { X, Pencil, AlertTriangle } from 'lucide-react';
+
+interface TradeEditModalProps {
+  trade: Trade;
+  portfolios: { id: string; name: string }[];
+  instruments: Instrument[];
+  currencyName: string; // Of the trade's currency
+  onSave: (edit: TradeEdit) => string | null; // Error message, null once saved
+  onClose: () => void;
+}
+
+export const TradeEditModal: React.FC<TradeEditModalProps> = ({ trade, portfolios, instruments, currencyName, onSave, onClose }) => {
+  const foreign = !!trade.currency && trade.currency !== BASE_CURRENCY;
+  const isFill = !!trade.orderId; // Time, side, holding and amount belong to the order
+  const initialTime = toDateTimeValue(new Date(trade.timestamp)); // Local time, to the minute
+  const [time, setTime] = useState(initialTime);
+  const [type, setType] = useState<TradeType>(trade.type);
+  const [portfolioId, setPortfolioId] = useState(trade.portfolioId);
+  const [instrumentId, setInstrumentId] = useState(trade.instrumentId);
+  const [amount, setAmount] = useState(trade.amount.toString());
+  // Foreign-currency trades are edited in their own currency, like they were entered
+  const [price, setPrice] = useState((foreign ? trade.price / trade.fxRate! : trade.price).toString());
+  const [fxRate, setFxRate] = useState((trade.fxRate || 1).toString());
+  const [fee, setFee] = useState(trade.fee.toString());
+  const [error, setError] = useState('');
+
+  const priceInToman = (parseFloat(price) || 0) * (foreign ? parseFloat(fxRate) || 0 : 1);
+  const totalValue = (parseFloat(amount) || 0) * priceInToman;
+  // A chosen lot only still applies to a sell of the same holding
+  const keepsLot = type === 'sell' && portfolioId === trade.portfolioId && instrumentId === trade.instrumentId;
+
+  const handleSave = () => {
+    const message = onSave({
+      portfolioId,
+      type,
+      instrumentId,
+      amount: parseFloat(amount),
+      price: priceInToman,
+      totalValue,
+      fee: parseFloat(fee),
+      // Unchanged minutes keep the exact original time, so the order of same-minute trades holds
+      timestamp: time === initialTime ? trade.timestamp : new Date(time).toISOString(),
+      lotId: keepsLot ? trade.lotId : undefined,
+      currency: trade.currency,
+      fxRate: foreign ? parseFloat(fxRate) : undefined
+    });
+    if (message) setError(message);
+    else onClose();
+  };
+
+  const selectClass = "h-10 w-full rounded-md border border-slate-300 px-2 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none disabled:bg-slate-50 disabled:text-slate-400";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg flex items-center gap-2"><Pencil size={18} /> ویرایش معامله</h3>
+          <button onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="col-span-2 flex flex-col gap-1.5">
+            <label className="text-sm font-medium text-slate-700">تاریخ و ساعت</label>
+            {isFill
+              ? <div className="text-sm text-slate-400">{new Date(trade.timestamp).toLocaleString('fa-IR')}</div>
+              : <DateTimePicker value={time} max={toDateTimeValue(new Date())} onChange={setTime} />}
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <label className="text-sm font-medium text-slate-700">نوع</label>
+            <select value={type} onChange={e => setType(e.target.value as TradeType)} className={selectClass} disabled={isFill}>
+              <option value="buy">خرید</option>
+              <option value="sell">فروش</option>
+            </select>
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <label className="text-sm font-medium text-slate-700">سبد</label>
+            <select value={portfolioId} onChange={e => setPortfolioId(e.target.value)} className={selectClass} disabled={isFill}>
+              {portfolios.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <label className="text-sm font-medium text-slate-700">نماد</label>
+            <select value={instrumentId} onChange={e => setInstrumentId(e.target.value)} className={selectClass} disabled={isFill}>
+              {instruments.map(i => <option key={i.id} value={i.id}>{i.symbol} - {i.name}</option>)}
+            </select>
+          </div>
+          <Input label="مقدار" type="number" value={amount} onChange={e => setAmount(e.target.value)} disabled={isFill} />
+          <Input label={`قیمت (${currencyName})`} type="number" value={price} onChange={e => setPrice(e.target.value)} />
+          {foreign && <Input label="نرخ تبدیل (تومان)" type="number" value={fxRate} onChange={e => setFxRate(e.target.value)} />}
+          <Input label="کارمزد (تومان)" type="number" value={fee} onChange={e => setFee(e.target.value)} />
+        </div>
+
+        <div className="flex justify-between text-sm mt-4 p-3 bg-slate-50 rounded-lg">
+          <span className="text-slate-500">ارزش کل</span>
+          <span className="font-mono font-bold">{formatNumber(Math.round(totalValue))} تومان</span>
+        </div>
+        <p className="text-[11px] text-slate-400 mt-2">معاملات، پوزیشن‌ها، سود تحقق‌یافته، نقد و ارزش حساب پس از این معامله دوباره محاسبه می‌شوند.</p>
+        {isFill && <p className="text-[11px] text-amber-600 mt-1">این معامله اجرای یک سفارش است؛ زمان، مقدار و سبد آن به سفارش بسته است و فقط قیمت، کارمزد و نرخ تبدیل قابل اصلاح است.</p>}
+
+        {error && (
+          <div className="flex gap-2 items-start mt-4 p-3 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 text-sm">
+            <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 mt-6">
+          <Button variant="secondary" onClick={onClose}>انصراف</Button>
+          <Button onClick={handleSave}>ذخیره تغییرات</Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
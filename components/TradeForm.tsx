@@ -1,33 +1,58 @@
 import React, { useState, useEffect } from 'react';
-import { Asset, FeeType, TradeType, Portfolio } from '../types';
+import { Asset, AssetClass, FeeType, TradeType, Portfolio, TradeInput, OrderInput, OrderKind, CurrencyInfo, BASE_CURRENCY, Instrument, FxRate } from '../types';
+import { calculateUsedBudget } from '../lib/portfolioTree';
+import { COST_BASIS_LABELS } from '../lib/costBasis';
+import { OcoInput } from '../lib/ledger';
+import { calculateMarginMetrics } from '../lib/margin';
+import { findCurrency, rateAt } from '../lib/currency';
+import { ASSET_CLASS_LABELS, findInstrument } from '../lib/instruments';
 import { Card, CardHeader, Input, Button, formatCurrency, formatNumber, numberToPersianWords } from './ui';
-import { RefreshCw, Calculator, TrendingUp, TrendingDown, Wallet, FolderTree, ArrowRight, Info } from 'lucide-react';
+import { DateTimePicker, toDateTimeValue } from './DateTimePicker';
+import { RefreshCw, Calculator, TrendingUp, TrendingDown, Wallet, FolderTree, ArrowRight, Info, Plus, CalendarClock } from 'lucide-react';
 
 interface TradeFormProps {
   portfolio: Portfolio | null;
   rootPortfolios: Portfolio[];
   onPortfolioSelect: (id: string) => void;
-  tetherPrice: number;
+  currencies: CurrencyInfo[];
+  fxRateHistory: FxRate[];
+  instruments: Instrument[];
+  onManageInstruments: () => void;
   cashBalance: number;
-  onTrade: (tradeData: any) => void;
+  onTrade: (tradeData: TradeInput) => void;
+  onPlaceOrder: (order: OrderInput) => void;
+  onPlaceOco: (oco: OcoInput) => void;
 }
 
+// 'market' executes immediately at the typed price; the rest wait in the order book
+type OrderMode = 'market' | OrderKind | 'oco';
+
 export const TradeForm: React.FC<TradeFormProps> = ({ 
   portfolio, 
   rootPortfolios,
   onPortfolioSelect,
-  tetherPrice, 
+  currencies,
+  fxRateHistory,
+  instruments,
+  onManageInstruments,
   cashBalance, 
-  onTrade 
+  onTrade,
+  onPlaceOrder,
+  onPlaceOco
 }) => {
   const [type, setType] = useState<TradeType>('buy');
-  const [assetName, setAssetName] = useState('');
+  const [instrumentId, setInstrumentId] = useState('');
   const [price, setPrice] = useState<string>('');
   const [amount, setAmount] = useState<string>('');
   const [total, setTotal] = useState<string>('');
   const [feeType, setFeeType] = useState<FeeType>('percentage');
   const [feeValue, setFeeValue] = useState<string>('0.2'); // Default 0.2%
-  const [currency, setCurrency] = useState<'toman' | 'tether'>('toman');
+  const [currency, setCurrency] = useState<string>(BASE_CURRENCY);
+  const [lotId, setLotId] = useState<string>(''); // Empty = follow the portfolio's cost basis method
+  const [orderMode, setOrderMode] = useState<OrderMode>('market');
+  const [takeProfitPrice, setTakeProfitPrice] = useState<string>(''); // OCO only; `price` holds the stop
+  const [executedAt, setExecutedAt] = useState<string>(''); // Market only; empty = now
+  const [pastFxRate, setPastFxRate] = useState<string>(''); // Rate at a back-dated time; empty = current
   
   // To prevent circular updates
   const [lastEdited, setLastEdited] = useState<'price' | 'amount' | 'total' | null>(null);
@@ -65,30 +90,48 @@ export const TradeForm: React.FC<TradeFormProps> = ({
     }
   }, [price, amount, total, lastEdited]);
 
-  // --- Budget Calculation Logic ---
-  const calculateUsedBudget = (p: Portfolio) => {
-    // Used = Cost of current assets + Sum of children allocations
-    const assetsCost = p.assets.reduce((sum, a) => sum + (a.amount * a.avgBuyPrice), 0);
-    const childrenAlloc = p.children.reduce((sum, c) => sum + c.allocation, 0);
-    return assetsCost + childrenAlloc;
-  };
+  // Lots are only pickable when a sell targets an asset that holds more than one
+  const sellAsset = type === 'sell' ? portfolio?.assets.find(a => a.instrumentId === instrumentId) : undefined;
+  const sellLots = sellAsset?.lots || [];
 
+  useEffect(() => {
+    setLotId('');
+  }, [type, instrumentId, portfolio?.id]);
+
+  // Prices default to the instrument's quote currency
+  const instrument = findInstrument(instruments, instrumentId);
+  useEffect(() => {
+    if (instrument && currencies.some(c => c.code === instrument.quoteCurrency)) setCurrency(instrument.quoteCurrency);
+  }, [instrumentId]);
+
+  // OCO pairs protect an open position, so they only exist on the sell side
+  useEffect(() => {
+    if (type === 'buy' && orderMode === 'oco') setOrderMode('market');
+  }, [type, orderMode]);
+
+  // --- Budget Calculation Logic ---
   const usedBudget = portfolio ? calculateUsedBudget(portfolio) : 0;
   const remainingBudget = portfolio ? Math.max(0, portfolio.allocation - usedBudget) : 0;
   
-  // Maximum buying power is constrained by BOTH global cash and portfolio budget
-  const maxBuyPower = Math.min(cashBalance, remainingBudget);
+  // Maximum buying power is constrained by BOTH global cash and portfolio budget,
+  // or by the leverage on equity for margin portfolios
+  const isMargin = !!portfolio?.margin;
+  const maxBuyPower = portfolio?.margin ? calculateMarginMetrics(portfolio).buyingPower : Math.min(cashBalance, remainingBudget);
 
 
-  const getPriceInToman = () => {
-    const p = parseFloat(price) || 0;
-    return currency === 'tether' ? p * tetherPrice : p;
-  };
+  // Prices are typed in the chosen currency and stored in Toman at its current rate. A back-dated
+  // trade uses the rate recorded for its date, unless another one is typed.
+  const backDated = orderMode === 'market' && !!executedAt;
+  const currencyInfo = findCurrency(currencies, currency);
+  const datedRate = backDated ? rateAt(fxRateHistory, currencyInfo.code, executedAt) ?? currencyInfo.rate : currencyInfo.rate;
+  const fxRate = currencyInfo.code === BASE_CURRENCY ? 1 : backDated && parseFloat(pastFxRate) > 0 ? parseFloat(pastFxRate) : datedRate;
+
+  const getPriceInToman = () => (parseFloat(price) || 0) * fxRate;
 
   const calculateFee = () => {
     const totalVal = parseFloat(total) || 0;
     const fVal = parseFloat(feeValue) || 0;
-    const totalToman = currency === 'tether' ? totalVal * tetherPrice : totalVal;
+    const totalToman = totalVal * fxRate;
 
     if (feeType === 'percentage') {
       return totalToman * (fVal / 100);
@@ -103,10 +146,28 @@ export const TradeForm: React.FC<TradeFormProps> = ({
     const finalPrice = getPriceInToman();
     const finalFee = calculateFee();
     const finalAmount = parseFloat(amount);
+
+    // Pending orders are validated by the ledger and filled later at the market price
+    if (orderMode !== 'market') {
+      const fee = { feeType, feeValue: parseFloat(feeValue) || 0 };
+      if (orderMode === 'oco') {
+        const tp = parseFloat(takeProfitPrice) || 0;
+        onPlaceOco({ instrumentId, amount: finalAmount, stopPrice: finalPrice, takeProfitPrice: tp * fxRate, ...fee });
+      } else {
+        onPlaceOrder({ side: type, kind: orderMode, instrumentId, amount: finalAmount, triggerPrice: finalPrice, ...fee });
+      }
+      setAmount('');
+      setTotal('');
+      setTakeProfitPrice('');
+      return;
+    }
+
     const finalTotal = parseFloat(total);
-    const totalCostInToman = finalTotal * (currency === 'tether' ? tetherPrice : 1);
+    const totalCostInToman = finalTotal * fxRate;
 
-    if (type === 'buy') {
+    // Margin portfolios may borrow and short; the ledger checks the leverage limit.
+    // Back-dated trades are checked by the ledger against what was held at the time.
+    if (type === 'buy' && !isMargin && !backDated) {
       // Global Cash Check
       if ((totalCostInToman + finalFee) > cashBalance) {
         alert('موجودی نقد کافی نیست!');
@@ -119,8 +180,8 @@ export const TradeForm: React.FC<TradeFormProps> = ({
       }
     }
 
-    if (type === 'sell') {
-        const existingAsset = portfolio.assets.find(a => a.name === assetName);
+    if (type === 'sell' && !isMargin && !backDated) {
+        const existingAsset = portfolio.assets.find(a => a.instrumentId === instrumentId);
         if (!existingAsset || existingAsset.amount < finalAmount) {
              alert('موجودی دارایی کافی نیست!');
              return;
@@ -129,21 +190,25 @@ export const TradeForm: React.FC<TradeFormProps> = ({
 
     onTrade({
       type,
-      assetName,
+      instrumentId,
       price: finalPrice,
       amount: finalAmount,
-      totalValue: currency === 'tether' ? finalTotal * tetherPrice : finalTotal,
+      totalValue: totalCostInToman,
       fee: finalFee,
+      ...(currencyInfo.code !== BASE_CURRENCY ? { currency: currencyInfo.code, fxRate } : {}),
+      ...(type === 'sell' && lotId && !backDated ? { lotId } : {}),
+      ...(backDated ? { executedAt: new Date(executedAt).toISOString() } : {}),
     });
 
     // Reset basics
     setAmount('');
     setTotal('');
+    setLotId('');
   };
 
   const handleSellAll = () => {
-    if (!assetName || !portfolio) return;
-    const asset = portfolio.assets.find(a => a.name === assetName);
+    if (!instrumentId || !portfolio) return;
+    const asset = portfolio.assets.find(a => a.instrumentId === instrumentId);
     if (asset) {
         setType('sell');
         setAmount(asset.amount.toString());
@@ -153,7 +218,7 @@ export const TradeForm: React.FC<TradeFormProps> = ({
   };
 
   const calculatedFee = calculateFee();
-  const totalPriceToman = parseFloat(total || '0') * (currency === 'tether' ? tetherPrice : 1);
+  const totalPriceToman = parseFloat(total || '0') * fxRate;
   const netAmount = type === 'buy' 
     ? totalPriceToman + calculatedFee 
     : totalPriceToman - calculatedFee;
@@ -220,11 +285,11 @@ export const TradeForm: React.FC<TradeFormProps> = ({
         )}
 
         {/* Purchasing Power Info */}
-        {portfolio && type === 'buy' && (
+        {portfolio && (type === 'buy' || isMargin) && (
             <div className="bg-blue-50 border border-blue-100 rounded-lg p-3 text-sm text-blue-800">
                 <div className="flex items-center gap-2 font-medium mb-1">
                     <Info size={16} />
-                    قدرت خرید برای این سبد:
+                    {isMargin ? `قدرت معامله با اهرم ${formatNumber(portfolio.margin!.leverage)}x:` : 'قدرت خرید برای این سبد:'}
                 </div>
                 <div className="flex justify-between items-center">
                    <span className="font-bold text-lg dir-ltr">{formatCurrency(maxBuyPower)}</span>
@@ -241,19 +306,26 @@ export const TradeForm: React.FC<TradeFormProps> = ({
         {/* Asset Selection */}
         {portfolio && (
         <div className="space-y-1.5">
-          <label className="text-sm font-medium text-slate-700">دارایی</label>
+          <label className="text-sm font-medium text-slate-700">نماد</label>
           <div className="flex gap-2">
-            <input 
-               list="assets-list"
-               className="flex-1 h-10 rounded-md border border-slate-300 px-3 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
-               placeholder="نام نماد (مثلاً Gold)"
-               value={assetName}
-               onChange={(e) => setAssetName(e.target.value)}
+            <select
+               className="flex-1 h-10 rounded-md border border-slate-300 px-3 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none"
+               value={instrumentId}
+               onChange={(e) => setInstrumentId(e.target.value)}
                required
-            />
-            <datalist id="assets-list">
-                {portfolio.assets.map(a => <option key={a.id} value={a.name} />)}
-            </datalist>
+            >
+                <option value="" disabled>{instruments.length === 0 ? 'ابتدا یک نماد تعریف کنید' : 'انتخاب نماد'}</option>
+                {(Object.keys(ASSET_CLASS_LABELS) as AssetClass[]).filter(c => instruments.some(i => i.assetClass === c)).map(assetClass => (
+                  <optgroup key={assetClass} label={ASSET_CLASS_LABELS[assetClass]}>
+                    {instruments.filter(i => i.assetClass === assetClass).map(i => (
+                      <option key={i.id} value={i.id}>
+                        {i.symbol} - {i.name}{portfolio.assets.some(a => a.instrumentId === i.id) ? ' •' : ''}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+            </select>
+            <button type="button" onClick={onManageInstruments} className="px-2 bg-slate-100 text-slate-600 rounded border border-slate-200 hover:bg-slate-200" title="مدیریت نمادها"><Plus size={16} /></button>
             {type === 'sell' && (
                 <button type="button" onClick={handleSellAll} className="px-3 text-xs bg-slate-100 text-slate-600 rounded border border-slate-200 hover:bg-slate-200">کل موجودی</button>
             )}
@@ -261,10 +333,85 @@ export const TradeForm: React.FC<TradeFormProps> = ({
         </div>
         )}
 
+        {/* Order Type */}
+        {portfolio && (
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium text-slate-700">نوع سفارش</label>
+          <select
+            value={orderMode}
+            onChange={(e) => setOrderMode(e.target.value as OrderMode)}
+            className="w-full h-10 rounded-md border border-slate-300 px-3 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none"
+          >
+            <option value="market">اجرای فوری</option>
+            <option value="limit">محدود (Limit)</option>
+            <option value="stop">{type === 'sell' ? 'حد ضرر (Stop-Loss)' : 'توقف خرید (Stop)'}</option>
+            <option value="takeProfit">حد سود (Take-Profit)</option>
+            {type === 'sell' && <option value="oco">حد ضرر + حد سود (OCO)</option>}
+          </select>
+        </div>
+        )}
+
+        {/* Execution Time (market only) */}
+        {portfolio && orderMode === 'market' && (
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={backDated}
+              onChange={(e) => { setExecutedAt(e.target.checked ? toDateTimeValue(new Date()) : ''); setPastFxRate(''); }}
+            />
+            <CalendarClock size={14} />
+            ثبت با تاریخ گذشته
+          </label>
+          {backDated && (
+            <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-2">
+              <DateTimePicker value={executedAt} max={toDateTimeValue(new Date())} onChange={setExecutedAt} />
+              {currencyInfo.code !== BASE_CURRENCY && (
+                <Input
+                  label="نرخ تبدیل در آن تاریخ (تومان)"
+                  type="number"
+                  step="any"
+                  value={pastFxRate}
+                  onChange={(e) => setPastFxRate(e.target.value)}
+                  placeholder={datedRate.toString()}
+                  className="bg-white"
+                />
+              )}
+              {currencyInfo.code !== BASE_CURRENCY && (
+                <div className="flex justify-between text-xs text-slate-500 px-1">
+                  <span>{parseFloat(pastFxRate) > 0 ? 'نرخ واردشده:' : 'نرخ ثبت‌شده در آن تاریخ:'}</span>
+                  <span>{formatCurrency(fxRate)}</span>
+                </div>
+              )}
+              <p className="text-[11px] text-slate-400">معامله به ترتیب زمانی درج می‌شود و پوزیشن‌ها، نقد و ارزش حساب از آن تاریخ دوباره محاسبه می‌شوند.</p>
+            </div>
+          )}
+        </div>
+        )}
+
+        {/* Lot Selection (sell only) */}
+        {orderMode === 'market' && !backDated && sellLots.length > 1 && (
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium text-slate-700">انتخاب لات</label>
+          <select
+            value={lotId}
+            onChange={(e) => setLotId(e.target.value)}
+            className="w-full h-10 rounded-md border border-slate-300 px-3 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none"
+          >
+            <option value="">طبق روش سبد ({COST_BASIS_LABELS[portfolio?.costBasisMethod || 'average']})</option>
+            {sellLots.map(l => (
+              <option key={l.id} value={l.id}>
+                {new Date(l.timestamp).toLocaleDateString('fa-IR')} | {formatNumber(l.amount)} واحد @ {formatCurrency(Math.round(l.unitCost))}
+              </option>
+            ))}
+          </select>
+        </div>
+        )}
+
         {/* Price & Currency */}
         <div className="grid grid-cols-2 gap-3">
              <Input 
-                label="قیمت واحد" 
+                label={orderMode === 'market' ? 'قیمت واحد' : orderMode === 'oco' ? 'قیمت حد ضرر' : 'قیمت فعال‌سازی'} 
                 type="number" 
                 step="any"
                 value={price}
@@ -277,22 +424,33 @@ export const TradeForm: React.FC<TradeFormProps> = ({
                 <label className="text-sm font-medium text-slate-700">ارز پایه</label>
                 <select 
                     value={currency} 
-                    onChange={(e) => setCurrency(e.target.value as any)}
+                    onChange={(e) => setCurrency(e.target.value)}
                     className="w-full h-10 rounded-md border border-slate-300 px-3 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none disabled:bg-slate-50"
                     disabled={!portfolio}
                 >
-                    <option value="toman">تومان</option>
-                    <option value="tether">تتر</option>
+                    {currencies.map(c => <option key={c.code} value={c.code}>{c.name}</option>)}
                 </select>
              </div>
         </div>
 
+        {orderMode === 'oco' && (
+             <Input 
+                label="قیمت حد سود" 
+                type="number" 
+                step="any"
+                value={takeProfitPrice}
+                onChange={(e) => setTakeProfitPrice(e.target.value)}
+                placeholder="0"
+                required
+             />
+        )}
+
         {/* Amount & Total */}
         <div className="grid grid-cols-2 gap-3">
             <Input 
-                label="مقدار (تعداد)" 
+                label={instrument && instrument.lotSize > 0 ? `مقدار (مضرب ${formatNumber(instrument.lotSize)})` : 'مقدار (تعداد)'}
                 type="number" 
-                step="any"
+                step={instrument && instrument.lotSize > 0 ? instrument.lotSize : 'any'}
                 value={amount}
                 onChange={(e) => { setAmount(e.target.value); setLastEdited('amount'); }}
                 placeholder="0"
@@ -300,7 +458,7 @@ export const TradeForm: React.FC<TradeFormProps> = ({
                 disabled={!portfolio}
              />
              <Input 
-                label={`ارزش کل (${currency === 'toman' ? 'تومان' : 'تتر'})`}
+                label={`ارزش کل (${currencyInfo.symbol})`}
                 type="number" 
                 step="any"
                 value={total}
@@ -357,10 +515,10 @@ export const TradeForm: React.FC<TradeFormProps> = ({
                 type="submit" 
                 variant={type === 'buy' ? 'primary' : 'danger'} 
                 className="w-full flex items-center gap-2 justify-center"
-                disabled={!assetName || !amount || !price || !portfolio}
+                disabled={!instrumentId || !amount || !price || !portfolio}
             >
                 {type === 'buy' ? <TrendingUp size={18} /> : <TrendingDown size={18} />}
-                {type === 'buy' ? 'ثبت خرید' : 'ثبت فروش'}
+                {orderMode !== 'market' ? 'ثبت سفارش' : type === 'buy' ? 'ثبت خرید' : 'ثبت فروش'}
              </Button>
         </div>
 
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Instrument, PositionView } from '../types';
+import { PnlGroup, positionTags, tradeStats } from '../lib/tradeStats';
+import { findInstrument } from '../lib/instruments';
+import { Input, formatCurrency, formatNumber } from './ui';
+import { BarChart3, X } from 'lucide-react';
+
+interface TradeStatsPanelProps {
+  positions: PositionView[]; // Of the selected scope, open ones included
+  instruments: Instrument[];
+  portfolioName: (id: string) => string;
+}
+
+const pnlTone = (value: number) => value < 0 ? 'text-red-600' : 'text-green-600';
+
+const PnlTable: React.FC<{ title: string; groups: PnlGroup[]; nameOf: (key: string) => string }> = ({ title, groups, nameOf }) => (
+  <div className="border border-slate-100 rounded-lg overflow-hidden">
+    <table className="w-full text-xs text-right">
+      <thead className="bg-slate-50 text-slate-500">
+        <tr>
+          <th className="p-2">{title}</th>
+          <th className="p-2">تعداد</th>
+          <th className="p-2">برد</th>
+          <th className="p-2">سود/زیان</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {groups.map(g => (
+          <tr key={g.key}>
+            <td className="p-2">{nameOf(g.key)}</td>
+            <td className="p-2">{formatNumber(g.count)}</td>
+            <td className="p-2">{formatNumber(g.wins)}</td>
+            <td className={`p-2 font-mono dir-ltr text-right ${pnlTone(g.pnl)}`}>{formatCurrency(Math.round(g.pnl))}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const TradeStatsPanel: React.FC<TradeStatsPanelProps> = ({ positions, instruments, portfolioName }) => {
+  // <input type="date"> values are local calendar days; the range includes both ends
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [instrumentId, setInstrumentId] = useState('');
+  const [tag, setTag] = useState('');
+
+  const stats = useMemo(() => tradeStats(positions, {
+    from: from ? new Date(`${from}T00:00:00`) : null,
+    to: to ? new Date(`${to}T23:59:59.999`) : null,
+    instrumentId: instrumentId || null,
+    tag: tag || null
+  }), [positions, from, to, instrumentId, tag]);
+
+  const tradedIds = positions.filter(p => p.status === 'CLOSED').map(p => p.instrumentId).filter((id, i, ids) => ids.indexOf(id) === i);
+  const assetName = (id: string) => findInstrument(instruments, id)?.name || positions.find(p => p.instrumentId === id)?.assetName || id;
+  const tags = positions.filter(p => p.status === 'CLOSED').flatMap(positionTags).filter((t, i, all) => all.indexOf(t) === i).sort();
+  const hasFilter = !!(from || to || instrumentId || tag);
+  const selectClass = "h-10 rounded-md border border-slate-300 px-2 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none";
+
+  if (tradedIds.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl p-4 border border-slate-200">
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <h4 className="font-bold text-slate-700 flex items-center gap-2 ml-auto">
+          <BarChart3 size={18} className="text-brand-600" />
+          آمار پوزیشن‌های بسته
+        </h4>
+        <div className="w-40"><Input label="بسته‌شده از" type="date" value={from} max={to || undefined} onChange={e => setFrom(e.target.value)} /></div>
+        <div className="w-40"><Input label="تا" type="date" value={to} min={from || undefined} onChange={e => setTo(e.target.value)} /></div>
+        <select value={instrumentId} onChange={e => setInstrumentId(e.target.value)} className={selectClass}>
+          <option value="">همه دارایی‌ها</option>
+          {tradedIds.map(id => <option key={id} value={id}>{assetName(id)}</option>)}
+        </select>
+        {tags.length > 0 && (
+          <select value={tag} onChange={e => setTag(e.target.value)} className={selectClass}>
+            <option value="">همه برچسب‌ها</option>
+            {tags.map(t => <option key={t} value={t}>#{t}</option>)}
+          </select>
+        )}
+        {hasFilter && (
+          <button onClick={() => { setFrom(''); setTo(''); setInstrumentId(''); setTag(''); }} className="h-10 px-2 text-slate-400 hover:text-slate-700" title="حذف فیلترها"><X size={16} /></button>
+        )}
+      </div>
+
+      {!stats ? (
+        <p className="text-center text-slate-400 text-sm p-6">پوزیشن بسته‌ای با این فیلترها وجود ندارد</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-center">
+            {[
+              { title: 'نرخ برد', value: `${stats.winRate.toFixed(1)}%`, note: `${formatNumber(stats.wins)} برد از ${formatNumber(stats.count)}` },
+              { title: 'میانگین سود / زیان', value: `${formatCurrency(Math.round(stats.averageWin))} / ${formatCurrency(Math.round(stats.averageLoss))}`, note: `${formatNumber(stats.losses)} باخت` },
+              { title: 'امید ریاضی هر پوزیشن', value: formatCurrency(Math.round(stats.expectancy)), tone: pnlTone(stats.expectancy), note: `جمع ${formatCurrency(Math.round(stats.totalPnl))}` },
+              { title: 'ضریب سود', value: stats.profitFactor === null ? '-' : stats.profitFactor.toFixed(2), note: `بیشترین پیاپی: ${formatNumber(stats.longestWinStreak)} برد، ${formatNumber(stats.longestLossStreak)} باخت` }
+            ].map(card => (
+              <div key={card.title} className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-[11px] text-slate-500 mb-1">{card.title}</div>
+                <div className={`font-bold dir-ltr text-sm ${card.tone || 'text-slate-700'}`}>{card.value}</div>
+                <div className="text-[10px] text-slate-400 mt-1">{card.note}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className={`grid grid-cols-1 gap-4 ${stats.byTag.length > 0 ? 'lg:grid-cols-2' : 'lg:grid-cols-3'}`}>
+            <div className="h-[200px]">
+              <div className="text-xs text-slate-500 mb-1">مدت نگهداری</div>
+              <ResponsiveContainer width="100%" height="90%">
+                <BarChart data={stats.holding} margin={{ top: 5, right: 5, left: 5, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                  <XAxis dataKey="label" tick={{ fontSize: 10 }} interval={0} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 10 }} width={24} />
+                  <Tooltip formatter={(value: number) => formatNumber(value)} contentStyle={{ borderRadius: '8px', fontSize: '12px' }} />
+                  <Bar dataKey="count" name="تعداد" isAnimationActive={false}>
+                    {stats.holding.map(b => <Cell key={b.label} fill={b.pnl < 0 ? '#f87171' : '#4ade80'} />)}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <PnlTable title="دارایی" groups={stats.byAsset} nameOf={assetName} />
+            <PnlTable title="سبد" groups={stats.byPortfolio} nameOf={portfolioName} />
+            {stats.byTag.length > 0 && <PnlTable title="برچسب" groups={stats.byTag} nameOf={t => `#${t}`} />}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Instrument, Portfolio, PortfolioTransfer } from '../types';
+import { TransferInput } from '../lib/ledger';
+import { calculateUsedBudget, findPortfolioPath, findPortfolioRecursive, flattenPortfolios } from '../lib/portfolioTree';
+import { Card, Input, Button, formatNumber, formatCurrency } from './ui';
+import { X, ArrowLeftRight, Undo2 } from 'lucide-react';
+
+interface TransferModalProps {
+  rootPortfolios: Portfolio[];
+  instruments: Instrument[];
+  transfers: PortfolioTransfer[];
+  defaultFromId: string | null;
+  onTransfer: (input: TransferInput) => boolean;
+  onCancel: (transferId: string) => boolean;
+  onClose: () => void;
+}
+
+export const TransferModal: React.FC<TransferModalProps> = ({ rootPortfolios, instruments, transfers, defaultFromId, onTransfer, onCancel, onClose }) => {
+  const all = flattenPortfolios(rootPortfolios);
+  const [fromId, setFromId] = useState(defaultFromId && all.some(p => p.id === defaultFromId) ? defaultFromId : all[0]?.id || '');
+  const [toId, setToId] = useState(all.find(p => p.id !== fromId)?.id || '');
+  const [kind, setKind] = useState<PortfolioTransfer['kind']>('asset');
+  const [instrumentId, setInstrumentId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [withBudget, setWithBudget] = useState(true);
+  const [note, setNote] = useState('');
+
+  const pathName = (id: string) => findPortfolioPath(rootPortfolios, id).map(p => p.name).join(' / ') || '؟';
+  const symbolOf = (id?: string) => instruments.find(i => i.id === id)?.symbol || id || '';
+  const from = findPortfolioRecursive(rootPortfolios, fromId);
+  const to = findPortfolioRecursive(rootPortfolios, toId);
+  const freeBudget = (p: Portfolio | null) => p ? Math.max(0, p.allocation - calculateUsedBudget(p)) : 0;
+  const movable = from ? from.assets.filter(a => a.amount > 0) : [];
+  const source = movable.find(a => a.instrumentId === instrumentId) || movable[0];
+
+  const selectFrom = (id: string) => {
+    setFromId(id);
+    setInstrumentId('');
+    if (id === toId) setToId(all.find(p => p.id !== id)?.id || '');
+  };
+
+  const selectClass = "w-full h-10 rounded-md border border-slate-300 px-3 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none";
+
+  const handleSubmit = () => {
+    const base = { fromPortfolioId: fromId, toPortfolioId: toId, amount: parseFloat(amount) || 0, note };
+    const input: TransferInput = kind === 'budget'
+      ? { ...base, kind }
+      : { ...base, kind, instrumentId: source?.instrumentId, withBudget };
+    if (onTransfer(input)) {
+      setAmount('');
+      setNote('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg flex items-center gap-2"><ArrowLeftRight size={18} /> انتقال بین سبدها</h3>
+          <button onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="flex bg-slate-100 p-1 rounded-lg mb-4">
+          <button onClick={() => setKind('asset')} className={`flex-1 py-1.5 text-sm rounded-md transition-all ${kind === 'asset' ? 'bg-white shadow-sm font-bold text-slate-800' : 'text-slate-500'}`}>انتقال دارایی</button>
+          <button onClick={() => setKind('budget')} className={`flex-1 py-1.5 text-sm rounded-md transition-all ${kind === 'budget' ? 'bg-white shadow-sm font-bold text-slate-800' : 'text-slate-500'}`}>انتقال بودجه آزاد</button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 p-4 bg-slate-50 rounded-lg border border-slate-100">
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-slate-700">از سبد</label>
+            <select value={fromId} onChange={e => selectFrom(e.target.value)} className={selectClass}>
+              {all.map(p => <option key={p.id} value={p.id}>{pathName(p.id)}</option>)}
+            </select>
+            <p className="text-[11px] text-slate-400">بودجه آزاد: {formatCurrency(Math.round(freeBudget(from)))}</p>
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-slate-700">به سبد</label>
+            <select value={toId} onChange={e => setToId(e.target.value)} className={selectClass}>
+              {all.filter(p => p.id !== fromId).map(p => <option key={p.id} value={p.id}>{pathName(p.id)}</option>)}
+            </select>
+            <p className="text-[11px] text-slate-400">بودجه آزاد: {formatCurrency(Math.round(freeBudget(to)))}</p>
+          </div>
+
+          {kind === 'asset' ? (
+            <>
+              <div className="space-y-1.5">
+                <label className="text-sm font-medium text-slate-700">دارایی</label>
+                <select value={source?.instrumentId || ''} onChange={e => setInstrumentId(e.target.value)} className={selectClass} disabled={movable.length === 0}>
+                  {movable.length === 0 && <option value="">دارایی قابل انتقالی نیست</option>}
+                  {movable.map(a => <option key={a.instrumentId} value={a.instrumentId}>{a.symbol} ({formatNumber(a.amount)})</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Input label="مقدار" type="number" value={amount} onChange={e => setAmount(e.target.value)} />
+                {source && <button type="button" onClick={() => setAmount(source.amount.toString())} className="text-[11px] text-brand-600">انتقال همه ({formatNumber(source.amount)})</button>}
+              </div>
+              <label className="col-span-2 flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                <input type="checkbox" checked={withBudget} onChange={e => setWithBudget(e.target.checked)} />
+                بهای تمام‌شده دارایی به‌عنوان بودجه هم به سبد مقصد منتقل شود
+              </label>
+            </>
+          ) : (
+            <Input label="مبلغ (تومان)" type="number" showNumberHelper value={amount} onChange={e => setAmount(e.target.value)} />
+          )}
+          <div className={kind === 'asset' ? 'col-span-2' : ''}>
+            <Input label="یادداشت (اختیاری)" value={note} onChange={e => setNote(e.target.value)} />
+          </div>
+          <Button onClick={handleSubmit} className="col-span-2" disabled={!from || !to || (kind === 'asset' && !source)}>ثبت انتقال</Button>
+        </div>
+
+        <h4 className="font-bold text-sm text-slate-700 mt-6 mb-2">تاریخچه انتقال‌ها</h4>
+        <div className="divide-y divide-slate-100 border border-slate-100 rounded-lg text-xs max-h-64 overflow-y-auto">
+          {transfers.map(t => (
+            <div key={t.id} className="flex justify-between items-center gap-3 p-2">
+              <div>
+                <div className="font-medium text-slate-700">
+                  {t.kind === 'asset' ? `${formatNumber(t.amount)} ${symbolOf(t.instrumentId)}` : formatCurrency(Math.round(t.amount))}
+                  <span className="text-slate-400 font-normal mx-1">{pathName(t.fromPortfolioId)} ← {pathName(t.toPortfolioId)}</span>
+                </div>
+                <div className="text-slate-400 mt-0.5">
+                  {new Date(t.timestamp).toLocaleDateString('fa-IR')}
+                  {t.kind === 'asset' && t.cost !== undefined && <> · بهای تمام‌شده {formatCurrency(Math.round(t.cost))}{t.withBudget ? ' (با بودجه)' : ''}</>}
+                  {t.note && <> · {t.note}</>}
+                </div>
+              </div>
+              <button onClick={() => { if (confirm('این انتقال لغو شود؟')) onCancel(t.id); }} className="p-1 text-slate-400 hover:text-red-600 rounded" title="لغو انتقال"><Undo2 size={14} /></button>
+            </div>
+          ))}
+          {transfers.length === 0 && <div className="p-4 text-center text-slate-400">هنوز انتقالی ثبت نشده است</div>}
+        </div>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import { Portfolio } from '../types';
+import { AMOUNT_EPSILON } from './costBasis';
+import { calculateTotalAssets, calculateUsedBudget, findPortfolioPath, flattenPortfolios } from './portfolioTree';
+import { formatCurrency } from './format';
+
+// --- Allocation Model ---
+// Budgets are nested: a portfolio's allocation covers the cost of its own assets plus the allocations of
+// its children, and the root allocations together cover the account's net worth. Realized results move
+// the budget of a portfolio and every ancestor by the same amount, so they keep the nesting intact.
+
+export type AllocationIssueCode =
+  | 'INVALID_ALLOCATION' // Negative or not a number
+  | 'CHILDREN_EXCEED_PARENT'
+  | 'BUDGET_OVERSPENT' // Own assets plus children cost more than the allocation
+  | 'ROOTS_EXCEED_NET_WORTH';
+
+export interface AllocationIssue {
+  code: AllocationIssueCode;
+  portfolioId: string | null; // null for the account-level rule
+  excess: number; // Toman over the limit
+  message: string; // User facing (Persian)
+}
+
+export interface AllocationChange {
+  portfolioId: string;
+  allocation: number;
+}
+
+export interface AllocationRepair {
+  label: string;
+  changes: AllocationChange[];
+}
+
+const childrenAllocated = (p: Portfolio) => p.children.reduce((sum, c) => sum + c.allocation, 0);
+
+// Every broken allocation rule in the tree, top-down
+export const checkAllocations = (cash: number, rootPortfolios: Portfolio[]): AllocationIssue[] => {
+  const issues: AllocationIssue[] = [];
+  const netWorth = cash + calculateTotalAssets(rootPortfolios);
+  const rootsAllocated = rootPortfolios.reduce((sum, p) => sum + p.allocation, 0);
+  if (rootsAllocated > netWorth + AMOUNT_EPSILON) {
+    issues.push({
+      code: 'ROOTS_EXCEED_NET_WORTH',
+      portfolioId: null,
+      excess: rootsAllocated - netWorth,
+      message: `خطا: مجموع بودجه تخصیص یافته (${formatCurrency(rootsAllocated)}) نمی‌تواند بیشتر از کل دارایی‌ها (${formatCurrency(netWorth)}) باشد.`
+    });
+  }
+
+  flattenPortfolios(rootPortfolios).forEach(p => {
+    if (!Number.isFinite(p.allocation) || p.allocation < -AMOUNT_EPSILON) {
+      issues.push({
+        code: 'INVALID_ALLOCATION',
+        portfolioId: p.id,
+        excess: Number.isFinite(p.allocation) ? -p.allocation : 0,
+        message: `بودجه سبد «${p.name}» نامعتبر یا منفی است.`
+      });
+      return;
+    }
+    const allocated = childrenAllocated(p);
+    if (allocated > p.allocation + AMOUNT_EPSILON) {
+      issues.push({
+        code: 'CHILDREN_EXCEED_PARENT',
+        portfolioId: p.id,
+        excess: allocated - p.allocation,
+        message: `خطا: مجموع بودجه زیرمجموعه‌های «${p.name}» (${formatCurrency(allocated)}) نمی‌تواند بیشتر از بودجه این سبد (${formatCurrency(p.allocation)}) باشد.`
+      });
+      return;
+    }
+    // Margin portfolios hold more than their budget by design
+    const used = calculateUsedBudget(p);
+    if (!p.margin && used > p.allocation + AMOUNT_EPSILON) {
+      issues.push({
+        code: 'BUDGET_OVERSPENT',
+        portfolioId: p.id,
+        excess: used - p.allocation,
+        message: `بودجه سبد «${p.name}» (${formatCurrency(p.allocation)}) از بودجه مصرف‌شده آن (${formatCurrency(used)}) کمتر است.`
+      });
+    }
+  });
+  return issues;
+};
+
+const issueKey = (issue: AllocationIssue) => `${issue.code}:${issue.portfolioId ?? ''}`;
+
+// First rule a mutation broke, or made worse; rules that were already broken before it do not block it
+export const newAllocationIssue = (before: AllocationIssue[], after: AllocationIssue[]): AllocationIssue | undefined => {
+  const previous = new Map(before.map(i => [issueKey(i), i]));
+  return after.find(issue => {
+    const old = previous.get(issueKey(issue));
+    return !old || issue.excess > old.excess + AMOUNT_EPSILON;
+  });
+};
+
+// --- Repairs ---
+
+// Raises a portfolio's allocation by `amount`, and each ancestor by as much as it then lacks
+const raiseBudget = (rootPortfolios: Portfolio[], portfolioId: string, amount: number): AllocationChange[] => {
+  const path = findPortfolioPath(rootPortfolios, portfolioId);
+  const changes: AllocationChange[] = [];
+  let delta = amount;
+  for (let i = path.length - 1; i >= 0 && delta > AMOUNT_EPSILON; i--) {
+    const p = path[i];
+    const current = Number.isFinite(p.allocation) ? p.allocation : 0;
+    // The node itself takes the full amount; an ancestor only what its free budget cannot absorb
+    const raise = i === path.length - 1 ? delta : Math.max(0, calculateUsedBudget(p) + delta - current);
+    if (raise <= AMOUNT_EPSILON) break;
+    changes.unshift({ portfolioId: p.id, allocation: current + raise });
+    delta = raise;
+  }
+  return changes;
+};
+
+// Takes `amount` out of the unspent budgets of `portfolios`, in proportion to each one's free budget
+const shrinkFreeBudgets = (portfolios: Portfolio[], amount: number): AllocationChange[] | null => {
+  const free = portfolios.map(p => Math.max(0, p.allocation - calculateUsedBudget(p)));
+  const totalFree = free.reduce((sum, f) => sum + f, 0);
+  if (totalFree + AMOUNT_EPSILON < amount) return null;
+  return portfolios
+    .map((p, i) => ({ portfolioId: p.id, allocation: p.allocation - amount * free[i] / totalFree }))
+    .filter((c, i) => free[i] > 0);
+};
+
+// Automatic fixes for an issue; empty when it needs a manual decision (e.g. a deposit)
+export const allocationRepairs = (rootPortfolios: Portfolio[], issue: AllocationIssue): AllocationRepair[] => {
+  if (issue.portfolioId === null) {
+    const changes = shrinkFreeBudgets(rootPortfolios, issue.excess);
+    return changes ? [{ label: 'کاهش بودجه آزاد سبدهای اصلی', changes }] : [];
+  }
+  const portfolio = flattenPortfolios(rootPortfolios).find(p => p.id === issue.portfolioId);
+  if (!portfolio) return [];
+
+  if (issue.code === 'INVALID_ALLOCATION') {
+    const used = Math.max(0, calculateUsedBudget(portfolio));
+    const current = Number.isFinite(portfolio.allocation) ? portfolio.allocation : 0;
+    const changes = raiseBudget(rootPortfolios, portfolio.id, used - current);
+    return [{ label: `تنظیم بودجه روی ${formatCurrency(used)}`, changes: changes.length > 0 ? changes : [{ portfolioId: portfolio.id, allocation: used }] }];
+  }
+
+  const repairs: AllocationRepair[] = [
+    { label: `افزایش بودجه «${portfolio.name}» به ${formatCurrency(portfolio.allocation + issue.excess)}`, changes: raiseBudget(rootPortfolios, portfolio.id, issue.excess) }
+  ];
+  const shrunk = portfolio.children.length > 0 ? shrinkFreeBudgets(portfolio.children, issue.excess) : null;
+  if (shrunk) repairs.push({ label: 'کاهش بودجه آزاد زیرسبدها', changes: shrunk });
+  return repairs;
+};
@@ -0,0 +1,165 @@
+import { AppState, BASE_CURRENCY, JournalEvent, Portfolio } from '../types';
+import { applyCommand, LedgerCommand, LedgerResult } from './ledger';
+import { replayJournal } from './journal';
+import { calculateTotalAssets } from './portfolioTree';
+import { rateAt } from './currency';
+import { findInstrumentBySymbol, normalizeSymbol } from './instruments';
+import { formatNumber } from './format';
+
+// All quotes of one moment in the historical dataset
+export interface BacktestStep {
+  timestamp: string; // ISO date
+  quotes: { symbol: string; price: number }[];
+}
+
+// A simulation against historical prices. Its state never touches the live save.
+export interface BacktestSession {
+  id: string;
+  name: string;
+  steps: BacktestStep[];
+  cursor: number; // Number of steps already applied
+  clock: string; // Virtual "now" (ISO); every command in the session is stamped with it
+  startCash: number;
+  state: AppState;
+}
+
+// What is kept of a finished session for comparing runs
+export interface BacktestSummary {
+  id: string;
+  name: string;
+  from: string;
+  to: string;
+  startCash: number;
+  finalNetWorth: number;
+  trades: number;
+  finishedAt: string;
+  netWorthHistory: { date: string; value: number }[];
+}
+
+export type BacktestResult = { ok: true; session: BacktestSession } | { ok: false; message: string };
+
+export const BACKTEST_PROVIDER_ID = 'backtest';
+
+// CSV lines of `timestamp,symbol,price` or a JSON array of { timestamp, symbol, price }; rows may come in any order
+export const parseHistoricalPrices = (text: string): { steps: BacktestStep[]; badLines: number[] } => {
+  const rows: { time: number; symbol: string; price: number }[] = [];
+  const badLines: number[] = [];
+  const add = (line: number, timestamp: unknown, symbol: unknown, price: unknown) => {
+    const time = new Date(String(timestamp)).getTime();
+    const value = typeof price === 'number' ? price : parseFloat(String(price ?? '').replace(/_/g, ''));
+    if (isNaN(time) || typeof symbol !== 'string' || !normalizeSymbol(symbol) || !(value > 0)) badLines.push(line);
+    else rows.push({ time, symbol: normalizeSymbol(symbol), price: value });
+  };
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      (JSON.parse(trimmed) as any[]).forEach((row, i) => add(i + 1, row?.timestamp, row?.symbol, row?.price));
+    } catch {
+      badLines.push(1);
+    }
+  } else {
+    text.split(/\r?\n/).forEach((line, i) => {
+      if (!line.trim()) return;
+      const [timestamp, symbol, price] = line.trim().split(/[,;\t]+/).map(c => c.trim());
+      if (i === 0 && isNaN(new Date(timestamp).getTime())) return; // Header row
+      add(i + 1, timestamp, symbol, price);
+    });
+  }
+
+  const byTime = new Map<number, BacktestStep>();
+  rows.sort((a, b) => a.time - b.time).forEach(r => {
+    const step = byTime.get(r.time) || { timestamp: new Date(r.time).toISOString(), quotes: [] };
+    // A later row for the same symbol and time wins
+    step.quotes = [...step.quotes.filter(q => q.symbol !== r.symbol), { symbol: r.symbol, price: r.price }];
+    byTime.set(r.time, step);
+  });
+  return { steps: [...byTime.values()], badLines };
+};
+
+// Applies the next step's prices, runs due plans and moves the clock to it. Symbols without an instrument are ignored.
+export const advanceBacktest = (session: BacktestSession): BacktestSession => {
+  const step = session.steps[session.cursor];
+  if (!step) return session;
+  const quotes = step.quotes.flatMap(q => {
+    const instrument = findInstrumentBySymbol(session.state.instruments, q.symbol);
+    return instrument ? [{ instrumentId: instrument.id, price: q.price }] : [];
+  });
+  const at = new Date(step.timestamp);
+  const quoted = applyCommand(session.state, { type: 'applyQuotes', providerId: BACKTEST_PROVIDER_ID, quotes }, at);
+  const priced = quoted.ok === false ? session.state : quoted.state;
+  // Plans falling due up to this step buy at its prices
+  const planned = applyCommand(priced, { type: 'runPlans' }, at);
+  return {
+    ...session,
+    cursor: session.cursor + 1,
+    clock: step.timestamp,
+    state: planned.ok === false ? priced : planned.state
+  };
+};
+
+export const isBacktestFinished = (session: BacktestSession): boolean => session.cursor >= session.steps.length;
+
+// Runs a ledger command inside the session at its virtual time
+export const runBacktestCommand = (session: BacktestSession, command: LedgerCommand): LedgerResult =>
+  applyCommand(session.state, command, new Date(session.clock));
+
+// The session starts at the first step with the live account's portfolio structure (emptied), instruments and
+// currencies, so results can be compared with the live account. Unknown symbols become new instruments.
+export const createBacktestSession = (live: AppState, steps: BacktestStep[], name: string, startCash: number, now: Date): BacktestResult => {
+  if (steps.length === 0) return { ok: false, message: 'داده‌ای برای بک‌تست یافت نشد.' };
+  if (!(startCash > 0)) return { ok: false, message: 'موجودی اولیه باید بیشتر از صفر باشد.' };
+  if (new Date(steps[steps.length - 1].timestamp).getTime() > now.getTime()) return { ok: false, message: 'داده‌های بک‌تست نمی‌توانند تاریخ آینده داشته باشند.' };
+
+  const start = steps[0].timestamp;
+  const stripAssets = (list: Portfolio[]): Portfolio[] => list.map(p => ({ ...p, assets: [], children: stripAssets(p.children) }));
+  const journal: JournalEvent[] = [
+    {
+      id: 'ev-genesis',
+      timestamp: start,
+      type: 'genesis',
+      cash: startCash,
+      tetherPrice: rateAt(live.fxRateHistory, 'tether', start) || live.tetherPrice,
+      rootPortfolios: stripAssets(live.rootPortfolios)
+    },
+    ...live.currencies
+      .filter(c => c.code !== BASE_CURRENCY && c.code !== 'tether')
+      .map((c, i): JournalEvent => ({
+        id: `ev-bt-cur-${i}`,
+        timestamp: start,
+        type: 'currencyAdd',
+        currency: { ...c, rate: rateAt(live.fxRateHistory, c.code, start) || c.rate }
+      })),
+    ...live.instruments.map((instrument, i): JournalEvent => ({ id: `ev-bt-ins-${i}`, timestamp: start, type: 'instrumentAdd', instrument }))
+  ];
+
+  let state: AppState = {
+    ...replayJournal(journal).projection,
+    selectedPortfolioId: live.selectedPortfolioId,
+    reportingCurrency: live.reportingCurrency,
+    journal
+  };
+
+  const symbols = [...new Set(steps.flatMap(s => s.quotes.map(q => q.symbol)))];
+  for (const symbol of symbols) {
+    if (findInstrumentBySymbol(state.instruments, symbol)) continue;
+    const result = applyCommand(state, { type: 'addInstrument', symbol, name: symbol, assetClass: 'stock', quoteCurrency: BASE_CURRENCY, lotSize: 0, pricePrecision: 0 }, new Date(start));
+    if (result.ok === false) return { ok: false, message: result.error.message };
+    state = result.state;
+  }
+
+  const session: BacktestSession = { id: `bt-${now.getTime()}`, name: name.trim() || `بک‌تست ${formatNumber(steps.length)} گامی`, steps, cursor: 0, clock: start, startCash, state };
+  return { ok: true, session: advanceBacktest(session) };
+};
+
+export const summarizeBacktest = (session: BacktestSession, finishedAt: Date): BacktestSummary => ({
+  id: session.id,
+  name: session.name,
+  from: session.steps[0].timestamp,
+  to: session.clock,
+  startCash: session.startCash,
+  finalNetWorth: session.state.cash + calculateTotalAssets(session.state.rootPortfolios),
+  trades: session.state.tradeHistory.length,
+  finishedAt: finishedAt.toISOString(),
+  netWorthHistory: session.state.netWorthHistory
+});
@@ -0,0 +1,135 @@
+import { AppState, Currency } from '../types';
+import { PerformancePoint } from './performance';
+import { findCurrency } from './currency';
+import { findInstrument } from './instruments';
+
+// --- Benchmarks ---
+// A benchmark is a price series a portfolio (or the whole account) is measured against. Assignments and
+// imported series are kept on this device, like saved strategies.
+
+export type BenchmarkSource =
+  | { kind: 'instrument'; instrumentId: string } // Its price history, e.g. gold or a stock index fund
+  | { kind: 'currency'; currency: Currency } // Its rate timeline, e.g. tether
+  | { kind: 'custom'; seriesId: string };
+
+export interface CustomSeries {
+  id: string;
+  name: string;
+  points: { timestamp: string; value: number }[]; // Oldest first
+}
+
+export interface BenchmarkSettings {
+  assignments: Record<string, BenchmarkSource>; // Portfolio id, or ACCOUNT_BENCHMARK_KEY
+  series: CustomSeries[];
+}
+
+export const ACCOUNT_BENCHMARK_KEY = 'account';
+export const EMPTY_BENCHMARK_SETTINGS: BenchmarkSettings = { assignments: {}, series: [] };
+
+export interface BenchmarkPoint {
+  date: string; // ISO date
+  portfolio: number; // Cumulative return, percent
+  benchmark: number; // Cumulative return, percent
+  relativeDrawdown: number; // Percent below the best point of portfolio/benchmark so far, ≤ 0
+}
+
+// Measured over the compared period rather than annualized, since a simulated account may span minutes or years
+export interface BenchmarkStats {
+  portfolioReturn: number; // Percent
+  benchmarkReturn: number; // Percent
+  alpha: number; // Percentage points earned beyond beta × the benchmark's return
+  beta: number;
+  trackingError: number; // Percent, spread of the return differences
+  maxRelativeDrawdown: number; // Percent, positive
+}
+
+export interface BenchmarkComparison {
+  points: BenchmarkPoint[];
+  stats: BenchmarkStats;
+}
+
+export const benchmarkLabel = (state: Pick<AppState, 'instruments' | 'currencies'>, settings: BenchmarkSettings, source: BenchmarkSource): string => {
+  switch (source.kind) {
+    case 'instrument': return findInstrument(state.instruments, source.instrumentId)?.symbol || '؟';
+    case 'currency': return findCurrency(state.currencies, source.currency).name;
+    case 'custom': return settings.series.find(s => s.id === source.seriesId)?.name || '؟';
+  }
+};
+
+export const benchmarkSeries = (
+  state: Pick<AppState, 'priceHistory' | 'fxRateHistory'>,
+  settings: BenchmarkSettings,
+  source: BenchmarkSource
+): { timestamp: string; value: number }[] => {
+  switch (source.kind) {
+    case 'instrument': return (state.priceHistory[source.instrumentId] || []).map(p => ({ timestamp: p.timestamp, value: p.price }));
+    case 'currency': return state.fxRateHistory.filter(r => r.currency === source.currency).map(r => ({ timestamp: r.timestamp, value: r.rate }));
+    case 'custom': return settings.series.find(s => s.id === source.seriesId)?.points || [];
+  }
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Compares a scope's time-weighted growth with a benchmark, sampled whenever either of them changes.
+// Null when the two do not overlap for at least two samples.
+export const compareWithBenchmark = (performance: PerformancePoint[], series: { timestamp: string; value: number }[]): BenchmarkComparison | null => {
+  // The scope's history starts once it holds something
+  const startIndex = performance.findIndex(p => p.value > 0);
+  const perf = startIndex >= 0 ? performance.slice(startIndex) : [];
+  const bench = series.filter(p => p.value > 0);
+  if (perf.length === 0 || bench.length === 0) return null;
+
+  const timeOf = (iso: string) => new Date(iso).getTime();
+  const start = Math.max(timeOf(perf[0].date), timeOf(bench[0].timestamp));
+  const times = [...new Set([...perf.map(p => timeOf(p.date)), ...bench.map(p => timeOf(p.timestamp))])]
+    .filter(t => t >= start)
+    .sort((a, b) => a - b);
+
+  // Both series are sorted, so the latest entry at or before each time is found by walking forward
+  let pi = -1;
+  let bi = -1;
+  const samples = times.flatMap(time => {
+    while (pi + 1 < perf.length && timeOf(perf[pi + 1].date) <= time) pi++;
+    while (bi + 1 < bench.length && timeOf(bench[bi + 1].timestamp) <= time) bi++;
+    return pi >= 0 && bi >= 0 && perf[pi].index > 0 ? [{ time, index: perf[pi].index, level: bench[bi].value }] : [];
+  });
+  if (samples.length < 2) return null;
+
+  const first = samples[0];
+  let peak = 1;
+  const points: BenchmarkPoint[] = samples.map(s => {
+    const growth = s.index / first.index;
+    const benchGrowth = s.level / first.level;
+    const relative = growth / benchGrowth;
+    peak = Math.max(peak, relative);
+    return {
+      date: new Date(s.time).toISOString(),
+      portfolio: (growth - 1) * 100,
+      benchmark: (benchGrowth - 1) * 100,
+      relativeDrawdown: (relative / peak - 1) * 100
+    };
+  });
+
+  const portfolioReturns = samples.slice(1).map((s, i) => s.index / samples[i].index - 1);
+  const benchmarkReturns = samples.slice(1).map((s, i) => s.level / samples[i].level - 1);
+  const mp = mean(portfolioReturns);
+  const mb = mean(benchmarkReturns);
+  const covariance = mean(portfolioReturns.map((r, i) => (r - mp) * (benchmarkReturns[i] - mb)));
+  const variance = mean(benchmarkReturns.map(r => (r - mb) ** 2));
+  const beta = variance > 0 ? covariance / variance : 0;
+  const differences = portfolioReturns.map((r, i) => r - benchmarkReturns[i]);
+  const md = mean(differences);
+  const last = points[points.length - 1];
+
+  return {
+    points,
+    stats: {
+      portfolioReturn: last.portfolio,
+      benchmarkReturn: last.benchmark,
+      alpha: last.portfolio - beta * last.benchmark,
+      beta,
+      trackingError: Math.sqrt(mean(differences.map(d => (d - md) ** 2)) * differences.length) * 100,
+      maxRelativeDrawdown: -points.reduce((lowest, p) => Math.min(lowest, p.relativeDrawdown), 0)
+    }
+  };
+};
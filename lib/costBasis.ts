@@ -0,0 +1,66 @@
+import { Asset, CostBasisMethod, Lot } from '../types';
+
+// Amounts below this are treated as fully closed
+export const AMOUNT_EPSILON = 0.000001;
+
+export const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  average: 'میانگین موزون',
+  fifo: 'FIFO (اولین ورود، اولین خروج)',
+  lifo: 'LIFO (آخرین ورود، اولین خروج)',
+  hifo: 'HIFO (گران‌ترین، اولین خروج)'
+};
+
+// Assets saved before lot tracking carry a single synthetic lot at their average cost
+export const lotsOf = (asset: Asset): Lot[] =>
+  asset.lots && asset.lots.length > 0
+    ? asset.lots
+    : [{ id: `${asset.id}-opening`, amount: Math.abs(asset.amount), unitCost: asset.avgBuyPrice, timestamp: '' }];
+
+export const lotsAmount = (lots: Lot[]): number => lots.reduce((sum, l) => sum + l.amount, 0);
+export const lotsCost = (lots: Lot[]): number => lots.reduce((sum, l) => sum + l.amount * l.unitCost, 0);
+
+// Order in which a method consumes lots
+const orderLots = (lots: Lot[], method: CostBasisMethod): Lot[] => {
+  const byTime = (a: Lot, b: Lot) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+  switch (method) {
+    case 'fifo': return [...lots].sort(byTime);
+    case 'lifo': return [...lots].sort((a, b) => byTime(b, a));
+    case 'hifo': return [...lots].sort((a, b) => b.unitCost - a.unitCost);
+    case 'average': return lots;
+  }
+};
+
+// Removes `amount` units from the lots and returns what is left plus the cost of what was removed.
+// A specific lot (if given) is drained first; any remainder follows the method.
+export const consumeLots = (lots: Lot[], amount: number, method: CostBasisMethod, lotId?: string): { lots: Lot[]; cost: number } => {
+  let remaining = Math.min(amount, lotsAmount(lots));
+  let cost = 0;
+  let working = lots.map(l => ({ ...l }));
+
+  const specific = lotId ? working.find(l => l.id === lotId) : undefined;
+  if (specific) {
+    const taken = Math.min(remaining, specific.amount);
+    specific.amount -= taken;
+    cost += taken * specific.unitCost;
+    remaining -= taken;
+  }
+
+  if (remaining > AMOUNT_EPSILON) {
+    if (method === 'average') {
+      // Every lot shrinks by the same fraction, so the average cost is unchanged
+      const fraction = Math.min(1, remaining / lotsAmount(working));
+      cost += fraction * lotsCost(working);
+      working = working.map(l => ({ ...l, amount: l.amount * (1 - fraction) }));
+    } else {
+      orderLots(working, method).forEach(lot => {
+        if (remaining <= AMOUNT_EPSILON) return;
+        const taken = Math.min(remaining, lot.amount);
+        lot.amount -= taken;
+        cost += taken * lot.unitCost;
+        remaining -= taken;
+      });
+    }
+  }
+
+  return { lots: working.filter(l => l.amount > AMOUNT_EPSILON), cost };
+};
@@ -0,0 +1,85 @@
+import { Asset, BASE_CURRENCY, Currency, CurrencyInfo, FxRate } from '../types';
+import { formatCurrency, formatNumber } from './format';
+import { lotsOf } from './costBasis';
+
+// Toman per unit of `code`; 0 for an unknown currency
+export const rateOf = (currencies: CurrencyInfo[], code: Currency | undefined): number => {
+  if (!code || code === BASE_CURRENCY) return 1;
+  return currencies.find(c => c.code === code)?.rate || 0;
+};
+
+export const findCurrency = (currencies: CurrencyInfo[], code: Currency | undefined): CurrencyInfo =>
+  currencies.find(c => c.code === (code || BASE_CURRENCY)) || currencies[0];
+
+// Toman value of per-currency balances at the current rates
+export const valueInBase = (balances: Record<Currency, number>, currencies: CurrencyInfo[]): number =>
+  Object.entries(balances).reduce((sum, [code, amount]) => sum + amount * rateOf(currencies, code), 0);
+
+// Converts a Toman amount into `currency` at its current rate
+export const fromBase = (amount: number, currency: CurrencyInfo): number =>
+  currency.rate > 0 ? amount / currency.rate : 0;
+
+// Formats an amount already expressed in `currency`
+export const formatMoney = (amount: number, currency: CurrencyInfo): string =>
+  currency.code === BASE_CURRENCY
+    ? formatCurrency(Math.round(amount))
+    : `${formatNumber(Math.round(amount * 100) / 100)} ${currency.symbol}`;
+
+// --- Rate Timeline ---
+
+const rateTime = (r: FxRate): number => new Date(r.timestamp).getTime();
+
+// Rate of `currency` in effect at `timestamp`: the latest entry on or before it, else the earliest one
+export const rateAt = (history: FxRate[], currency: Currency | undefined, timestamp: string): number | undefined => {
+  if (!currency || currency === BASE_CURRENCY) return 1;
+  const entries = history.filter(r => r.currency === currency);
+  if (entries.length === 0) return undefined;
+  const at = new Date(timestamp).getTime(); // An undated lookup (NaN) falls back to the earliest entry
+  const before = entries.filter(r => rateTime(r) <= at);
+  return (before.length > 0 ? before[before.length - 1] : entries[0]).rate;
+};
+
+// Most recent entry of a currency; this is its current rate
+export const latestRate = (history: FxRate[], currency: Currency): number | undefined =>
+  history.filter(r => r.currency === currency).pop()?.rate;
+
+// Adds dated entries for one currency, replacing any at the exact same timestamp, and keeps the timeline
+// sorted. `remove` drops the entry at that timestamp first (used when a correction moves an entry).
+export const upsertRates = (history: FxRate[], currency: Currency, entries: { timestamp: string; rate: number }[], remove?: string): FxRate[] => {
+  const replaced = new Set(entries.map(e => new Date(e.timestamp).getTime()));
+  if (remove) replaced.add(new Date(remove).getTime());
+  const kept = history.filter(r => r.currency !== currency || !replaced.has(rateTime(r)));
+  return [...kept, ...entries.map(e => ({ currency, rate: e.rate, timestamp: e.timestamp }))]
+    .sort((a, b) => rateTime(a) - rateTime(b));
+};
+
+// Parses "date,rate" lines (comma, semicolon, tab or space separated). Lines that do not parse are
+// reported by their 1-based number; a header row therefore shows up as line 1.
+export const parseRateLines = (text: string): { rates: { timestamp: string; rate: number }[]; badLines: number[] } => {
+  const rates: { timestamp: string; rate: number }[] = [];
+  const badLines: number[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    const [dateText, rateText] = line.trim().split(/[,;\t ]+/);
+    const date = new Date(dateText);
+    const rate = parseFloat((rateText || '').replace(/_/g, ''));
+    if (isNaN(date.getTime()) || !(rate > 0)) badLines.push(i + 1);
+    else rates.push({ timestamp: date.toISOString(), rate });
+  });
+  return { rates, badLines };
+};
+
+// Splits the unrealized PnL of a position in an instrument quoted in `currency` into the part earned
+// by the asset itself and the part caused by the currency moving since each lot was opened. Holdings
+// of such instruments are revalued when the rate moves, so the currency part is already in their price.
+export const splitFxReturn = (asset: Asset, currency: Currency, history: FxRate[], currencies: CurrencyInfo[]): { assetReturn: number; currencyReturn: number } => {
+  const unrealized = asset.amount * (asset.currentPrice - asset.avgBuyPrice);
+  const current = rateOf(currencies, currency);
+  if (currency === BASE_CURRENCY || !(current > 0)) return { assetReturn: unrealized, currencyReturn: 0 };
+  const sign = Math.sign(asset.amount);
+  const currencyReturn = lotsOf(asset).reduce((sum, lot) => {
+    const opened = rateAt(history, currency, lot.timestamp) || current;
+    return sum + sign * lot.amount * lot.unitCost * (current / opened - 1);
+  }, 0);
+  return { assetReturn: unrealized - currencyReturn, currencyReturn };
+};
@@ -0,0 +1,58 @@
+import { AssetClass, BASE_CURRENCY, Instrument } from '../types';
+import { formatNumber } from './format';
+import { AMOUNT_EPSILON } from './costBasis';
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  stock: 'سهام',
+  fund: 'صندوق',
+  crypto: 'رمزارز',
+  gold: 'طلا',
+  coin: 'سکه',
+  fx: 'ارز'
+};
+
+export const normalizeSymbol = (symbol: string): string => symbol.trim().toUpperCase().replace(/\s+/g, '-');
+
+export const findInstrument = (instruments: Instrument[], id: string | undefined): Instrument | undefined =>
+  instruments.find(i => i.id === id);
+
+export const findInstrumentBySymbol = (instruments: Instrument[], symbol: string): Instrument | undefined =>
+  instruments.find(i => i.symbol === normalizeSymbol(symbol));
+
+const hashName = (name: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < name.length; i++) hash = ((hash * 33) ^ name.charCodeAt(i)) >>> 0;
+  return hash.toString(36);
+};
+
+// Journals written before the instrument master only name assets in free text. Each distinct
+// name becomes its own instrument on replay, with a symbol made unique by a numeric suffix.
+export const resolveLegacyInstrument = (instruments: Instrument[], name: string): { instruments: Instrument[]; instrument: Instrument } => {
+  const existing = instruments.find(i => i.name === name);
+  if (existing) return { instruments, instrument: existing };
+  const base = normalizeSymbol(name) || 'ASSET';
+  let symbol = base;
+  for (let n = 2; findInstrumentBySymbol(instruments, symbol); n++) symbol = `${base}-${n}`;
+  const instrument: Instrument = {
+    id: `ins-legacy-${hashName(name)}`, // Derived from the name, so it survives replays that drop other events
+    symbol,
+    name,
+    assetClass: 'stock',
+    quoteCurrency: BASE_CURRENCY,
+    lotSize: 0,
+    pricePrecision: 0
+  };
+  return { instruments: [...instruments, instrument], instrument };
+};
+
+// A lot size of 0 means any amount may be traded
+export const isLotMultiple = (amount: number, lotSize: number): boolean => {
+  if (!(lotSize > 0)) return true;
+  const units = amount / lotSize;
+  return Math.abs(units - Math.round(units)) < AMOUNT_EPSILON;
+};
+
+export const formatPrice = (price: number, instrument: Instrument | undefined): string => {
+  const digits = instrument?.pricePrecision || 0;
+  return formatNumber(Math.round(price * 10 ** digits) / 10 ** digits);
+};
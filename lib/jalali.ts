@@ -0,0 +1,87 @@
+// --- Jalali (Solar Hijri) Calendar ---
+// Conversions follow the jalaali-js algorithm (Borkowski's leap-year breaks); valid for years -61 to 3177.
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export const JALALI_MONTHS = ['فروردین', 'اردیبهشت', 'خرداد', 'تیر', 'مرداد', 'شهریور', 'مهر', 'آبان', 'آذر', 'دی', 'بهمن', 'اسفند'];
+
+const BREAKS = [-61, 9, 38, 199, 426, 686, 756, 818, 1111, 1181, 1210, 1635, 2060, 2097, 2192, 2262, 2324, 2394, 2456, 3178];
+
+const div = (a: number, b: number) => Math.trunc(a / b);
+const mod = (a: number, b: number) => a - Math.trunc(a / b) * b;
+
+// Leap status of a Jalali year (0 = leap), its Gregorian year and the March day Farvardin 1 falls on
+const jalaliYearInfo = (jy: number): { leap: number; gy: number; march: number } => {
+  let leapJ = -14;
+  let jp = BREAKS[0];
+  let jump = 0;
+  for (let i = 1; i < BREAKS.length; i++) {
+    const jm = BREAKS[i];
+    jump = jm - jp;
+    if (jy < jm) break;
+    leapJ += div(jump, 33) * 8 + div(mod(jump, 33), 4);
+    jp = jm;
+  }
+  let n = jy - jp;
+  leapJ += div(n, 33) * 8 + div(mod(n, 33) + 3, 4);
+  if (mod(jump, 33) === 4 && jump - n === 4) leapJ += 1;
+
+  const gy = jy + 621;
+  const leapG = div(gy, 4) - div((div(gy, 100) + 1) * 3, 4) - 150;
+  if (jump - n < 6) n = n - jump + div(jump + 4, 33) * 33;
+  let leap = mod(mod(n + 1, 33) - 1, 4);
+  if (leap === -1) leap = 4;
+  return { leap, gy, march: 20 + leapJ - leapG };
+};
+
+// Julian day numbers
+const gregorianToDay = (gy: number, gm: number, gd: number): number => {
+  const d = div((gy + div(gm - 8, 6) + 100100) * 1461, 4) + div(153 * mod(gm + 9, 12) + 2, 5) + gd - 34840408;
+  return d - div(div(gy + 100100 + div(gm - 8, 6), 100) * 3, 4) + 752;
+};
+
+const dayToGregorian = (jdn: number): CalendarDate => {
+  let j = 4 * jdn + 139361631;
+  j += div(div(4 * jdn + 183187720, 146097) * 3, 4) * 4 - 3908;
+  const i = div(mod(j, 1461), 4) * 5 + 308;
+  const month = mod(div(i, 153), 12) + 1;
+  return { year: div(j, 1461) - 100100 + div(8 - month, 6), month, day: div(mod(i, 153), 5) + 1 };
+};
+
+export const isJalaliLeapYear = (year: number): boolean => jalaliYearInfo(year).leap === 0;
+
+export const jalaliMonthLength = (year: number, month: number): number =>
+  month <= 6 ? 31 : month <= 11 ? 30 : isJalaliLeapYear(year) ? 30 : 29;
+
+export const toJalali = ({ year, month, day }: CalendarDate): CalendarDate => {
+  const jdn = gregorianToDay(year, month, day);
+  let jy = dayToGregorian(jdn).year - 621;
+  const info = jalaliYearInfo(jy);
+  let k = jdn - gregorianToDay(info.gy, 3, info.march);
+  if (k >= 0) {
+    if (k <= 185) return { year: jy, month: 1 + div(k, 31), day: mod(k, 31) + 1 };
+    k -= 186;
+  } else {
+    jy -= 1;
+    k += 179;
+    if (info.leap === 1) k += 1;
+  }
+  return { year: jy, month: 7 + div(k, 30), day: mod(k, 30) + 1 };
+};
+
+export const toGregorian = ({ year, month, day }: CalendarDate): CalendarDate => {
+  const info = jalaliYearInfo(year);
+  return dayToGregorian(gregorianToDay(info.gy, 3, info.march) + (month - 1) * 31 - div(month, 7) * (month - 7) + day - 1);
+};
+
+// Local calendar day of a Date
+export const calendarDateOf = (date: Date): CalendarDate => ({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() });
+
+export const formatJalali = (date: Date): string => {
+  const { year, month, day } = toJalali(calendarDateOf(date));
+  return `${day} ${JALALI_MONTHS[month - 1]} ${year}`;
+};
@@ -0,0 +1,912 @@
+import { AppState, Asset, BASE_CURRENCY, CashTransaction, CostBasisMethod, Currency, initialCurrencies, Instrument, JournalEvent, NetWorthSnapshot, Order, Portfolio, PortfolioTransfer, Trade } from '../types';
+import {
+  addPortfolioRecursive,
+  adjustAllocationAlongPath,
+  calculateTotalAssets,
+  calculateUsedBudget,
+  deletePortfolioRecursive,
+  editPortfolioRecursive,
+  findPortfolioRecursive,
+  flattenPortfolios,
+  insertPortfolio,
+  moveAllocation,
+  updatePortfolioRecursive
+} from './portfolioTree';
+import { AMOUNT_EPSILON, consumeLots, lotsAmount, lotsCost, lotsOf } from './costBasis';
+import { borrowCost, calculateMarginMetrics, exceedsLeverage } from './margin';
+import { findCurrency, latestRate, rateOf, upsertRates, valueInBase } from './currency';
+import { findInstrument, normalizeSymbol, resolveLegacyInstrument } from './instruments';
+import { draftingPrices, recordPrice, recordPrices } from './priceHistory';
+
+// The part of AppState that is derived purely from the journal
+export type Projection = Pick<
+  AppState,
+  'cash' | 'cashBalances' | 'currencies' | 'fxRateHistory' | 'tetherPrice' | 'instruments' | 'priceHistory' | 'rootPortfolios' | 'tradeHistory' | 'orders' | 'plans' | 'planRuns' | 'transfers' | 'positionNotes' | 'cashTransactions' | 'netWorthHistory'
+>;
+
+export type ReplayIssueCode = 'OVERSELL' | 'PORTFOLIO_MISSING';
+
+// Problems found while replaying (e.g. a sell left without enough holdings after a deletion)
+export interface ReplayIssue {
+  eventId: string;
+  code: ReplayIssueCode;
+  message: string;
+}
+
+// --- Accounting Primitives ---
+
+export const recordHistory = (history: NetWorthSnapshot[], newValue: number, date: string): NetWorthSnapshot[] => {
+  const newSnapshot: NetWorthSnapshot = { date, value: newValue };
+  return [...history, newSnapshot];
+};
+
+// Cash moved by a trade: buys pay value + fee, sells receive value - fee
+export const tradeCashEffect = (trade: Pick<Trade, 'type' | 'totalValue' | 'fee'>): number =>
+  trade.type === 'buy' ? -(trade.totalValue + trade.fee) : trade.totalValue - trade.fee;
+
+// Native-currency fields for a cash line booked at `amount` Toman
+const nativeFields = (currency: Currency | undefined, rate: number, amount: number): Partial<CashTransaction> =>
+  currency && currency !== BASE_CURRENCY && rate > 0 ? { currency, nativeAmount: amount / rate } : {};
+
+// Cash ledger lines produced by a trade: the settlement itself and its fee
+export const tradeCashTransactions = (trade: Trade): CashTransaction[] => {
+  const note = `${trade.type === 'buy' ? 'خرید' : 'فروش'} ${trade.assetName}`;
+  const amount = trade.type === 'buy' ? -trade.totalValue : trade.totalValue;
+  const settlement: CashTransaction = {
+    id: `${trade.id}-settle`,
+    type: 'trade_settlement',
+    amount,
+    timestamp: trade.timestamp,
+    note,
+    tradeId: trade.id,
+    portfolioId: trade.portfolioId,
+    ...nativeFields(trade.currency, trade.fxRate || 1, amount)
+  };
+  if (!(trade.fee > 0)) return [settlement];
+  return [settlement, { ...settlement, id: `${trade.id}-fee`, type: 'fee', amount: -trade.fee, note: `کارمزد ${note}`, ...nativeFields(trade.currency, trade.fxRate || 1, -trade.fee) }];
+};
+
+// Adds a signed native amount to one currency's cash balance and revalues total cash
+export const moveCash = <T extends Pick<Projection, 'cash' | 'cashBalances' | 'currencies'>>(p: T, currency: Currency, amount: number): T => {
+  const cashBalances = { ...p.cashBalances, [currency]: (p.cashBalances[currency] || 0) + amount };
+  return { ...p, cashBalances, cash: valueInBase(cashBalances, p.currencies) };
+};
+
+// Books a conversion between two cash balances as a pair of transfer lines
+const convertCash = (p: Projection, id: string, timestamp: string, from: Currency, to: Currency, amount: number, received: number): Projection => {
+  const fromRate = rateOf(p.currencies, from);
+  const toRate = rateOf(p.currencies, to);
+  const note = `تبدیل ${findCurrency(p.currencies, from).name} به ${findCurrency(p.currencies, to).name}`;
+  const lines: CashTransaction[] = [
+    { id: `${id}-in`, type: 'transfer', amount: received * toRate, timestamp, note, ...nativeFields(to, toRate, received * toRate) },
+    { id: `${id}-out`, type: 'transfer', amount: -amount * fromRate, timestamp, note, ...nativeFields(from, fromRate, -amount * fromRate) }
+  ];
+  const moved = moveCash(moveCash(p, from, -amount), to, received);
+  return { ...moved, cashTransactions: [...lines, ...p.cashTransactions] };
+};
+
+// Records dated rates; the current rate is always the latest entry on the timeline, so a
+// back-dated entry only revalues cash when nothing newer exists
+const setRates = (p: Projection, currency: Currency, entries: { timestamp: string; rate: number }[], remove?: string): Projection => {
+  const fxRateHistory = upsertRates(p.fxRateHistory, currency, entries, remove);
+  const rate = latestRate(fxRateHistory, currency);
+  if (rate === undefined) return { ...p, fxRateHistory };
+  const currencies = p.currencies.map(c => c.code === currency ? { ...c, rate } : c);
+  return {
+    ...p,
+    currencies,
+    fxRateHistory,
+    cash: valueInBase(p.cashBalances, currencies),
+    tetherPrice: currency === 'tether' ? rate : p.tetherPrice
+  };
+};
+
+// Applies a single trade to a list of assets. The part of a trade that runs against the
+// current position closes lots (by the portfolio's cost-basis method or the lot named on
+// the trade); the rest opens a new lot. Sells only go past the holding into a short
+// position when `allowShort` is set (margin portfolios).
+export const applyTradeToAssets = (
+  assets: Asset[],
+  trade: Trade,
+  method: CostBasisMethod = 'average',
+  allowShort: boolean = false,
+  instrument?: Instrument
+): { assets: Asset[]; realizedPnl?: number; costBasis?: number } => {
+  const updatedAssets = [...assets];
+  const index = updatedAssets.findIndex(a => a.instrumentId === trade.instrumentId);
+  const existing = index >= 0 ? updatedAssets[index] : undefined;
+  const direction = trade.type === 'buy' ? 1 : -1;
+  const held = existing?.amount || 0;
+
+  const closing = held * direction < 0 ? Math.min(trade.amount, Math.abs(held)) : 0;
+  const opening = direction > 0 || allowShort ? trade.amount - closing : 0;
+
+  let lots = existing ? lotsOf(existing) : [];
+  let realizedPnl: number | undefined;
+  let costBasis: number | undefined;
+  if (closing > 0) {
+    const consumed = consumeLots(lots, closing, method, trade.lotId);
+    lots = consumed.lots;
+    costBasis = consumed.cost;
+    // Longs gain when sold above cost, shorts when covered below their entry
+    realizedPnl = direction < 0 ? trade.price * closing - consumed.cost : consumed.cost - trade.price * closing;
+  } else if (trade.type === 'sell') {
+    realizedPnl = 0;
+  }
+  if (opening > AMOUNT_EPSILON) {
+    lots = [...lots, { id: trade.id, amount: opening, unitCost: trade.totalValue / trade.amount, timestamp: trade.timestamp }];
+  }
+
+  const size = lotsAmount(lots);
+  const sign = opening > AMOUNT_EPSILON ? direction : Math.sign(held);
+  if (size <= AMOUNT_EPSILON) {
+    if (existing) updatedAssets.splice(index, 1);
+  } else if (existing) {
+    updatedAssets[index] = { ...existing, amount: sign * size, avgBuyPrice: lotsCost(lots) / size, currentPrice: trade.price, lots };
+  } else {
+    updatedAssets.push({
+      id: `ast-${trade.id}`, // Stable across replays: derived from the opening trade
+      instrumentId: trade.instrumentId,
+      name: instrument?.name || trade.assetName,
+      symbol: instrument?.symbol || normalizeSymbol(trade.assetName),
+      amount: sign * size,
+      avgBuyPrice: lotsCost(lots) / size,
+      currentPrice: trade.price,
+      lots,
+      ...(trade.currency && trade.currency !== BASE_CURRENCY ? { currency: trade.currency } : {})
+    });
+  }
+  return { assets: updatedAssets, realizedPnl, costBasis };
+};
+
+// --- Reducer ---
+
+const EMPTY_PROJECTION: Projection = {
+  cash: 0,
+  cashBalances: {},
+  currencies: [],
+  fxRateHistory: [],
+  tetherPrice: 0,
+  instruments: [],
+  priceHistory: {},
+  rootPortfolios: [],
+  tradeHistory: [],
+  orders: [],
+  plans: [],
+  planRuns: [],
+  transfers: [],
+  positionNotes: {},
+  cashTransactions: [],
+  netWorthHistory: []
+};
+
+// Events that cannot change the account value do not produce a net worth snapshot
+const NON_VALUE_EVENTS: JournalEvent['type'][] = ['currencyAdd', 'fxConvert', 'portfolioAdd', 'portfolioEdit', 'portfolioAllocations', 'portfolioMove', 'portfolioMerge', 'portfolioMargin', 'portfolioTargets', 'orderCancel', 'instrumentAdd', 'instrumentEdit', 'planAdd', 'planEdit', 'planDelete', 'planRun', 'transfer', 'notes', 'void'];
+
+// Instrument an event refers to. Events from before the instrument master carry only a
+// name; the legacy instrument for that name is registered on first use.
+const resolveInstrument = (p: Projection, instrumentId: string | undefined, name: string): { p: Projection; instrument: Instrument | undefined } => {
+  if (instrumentId) return { p, instrument: findInstrument(p.instruments, instrumentId) };
+  const { instruments, instrument } = resolveLegacyInstrument(p.instruments, name);
+  return { p: instruments === p.instruments ? p : { ...p, instruments }, instrument };
+};
+
+// Expects `event.trade.instrumentId` to be resolved already (see resolveInstrument)
+const applyTradeEvent = (p: Projection, event: JournalEvent & { type: 'trade' }, issues: ReplayIssue[]): Projection => {
+  const portfolio = findPortfolioRecursive(p.rootPortfolios, event.trade.portfolioId);
+  if (!portfolio) {
+    issues.push({ eventId: event.id, code: 'PORTFOLIO_MISSING', message: `سبد معامله ${event.trade.assetName} وجود ندارد.` });
+    return p;
+  }
+
+  const held = portfolio.assets.find(a => a.instrumentId === event.trade.instrumentId)?.amount || 0;
+  if (!portfolio.margin && event.trade.type === 'sell' && event.trade.amount > held + AMOUNT_EPSILON) {
+    issues.push({ eventId: event.id, code: 'OVERSELL', message: `فروش ${event.trade.assetName} بیشتر از موجودی است.` });
+  }
+
+  const instrument = findInstrument(p.instruments, event.trade.instrumentId);
+  const { assets, realizedPnl, costBasis } = applyTradeToAssets(portfolio.assets, event.trade, portfolio.costBasisMethod, !!portfolio.margin, instrument);
+  const trade: Trade = realizedPnl !== undefined ? { ...event.trade, realizedPnl, costBasis } : event.trade;
+
+  let rootPortfolios = updatePortfolioRecursive(p.rootPortfolios, { ...portfolio, assets });
+  // Realized PnL (net of sell fees) grows the budget of the portfolio and its ancestors
+  if (realizedPnl !== undefined) {
+    rootPortfolios = adjustAllocationAlongPath(rootPortfolios, portfolio.id, realizedPnl - (trade.type === 'sell' ? trade.fee : 0));
+  }
+
+  // Foreign-currency trades settle in that currency's balance; a buy the balance
+  // cannot cover is funded from the base balance at the trade's rate
+  const currency = trade.currency || BASE_CURRENCY;
+  const rate = trade.fxRate || 1;
+  let next: Projection = {
+    ...moveCash(p, currency, tradeCashEffect(trade) / rate),
+    rootPortfolios,
+    priceHistory: recordPrice(p.priceHistory, trade.instrumentId, { timestamp: trade.timestamp, price: trade.price, source: 'trade' }),
+    tradeHistory: [trade, ...p.tradeHistory],
+    cashTransactions: [...tradeCashTransactions(trade).reverse(), ...p.cashTransactions]
+  };
+  const shortfall = -(next.cashBalances[currency] || 0);
+  if (currency !== BASE_CURRENCY && shortfall > AMOUNT_EPSILON) {
+    next = convertCash(next, `${trade.id}-fx`, trade.timestamp, BASE_CURRENCY, currency, shortfall * rate, shortfall);
+  }
+  return next;
+};
+
+// Moves budget, or units with the lots behind them, from one portfolio to another. Nothing is realized:
+// the destination keeps the original purchase dates and unit costs.
+const applyTransferEvent = (p: Projection, event: JournalEvent & { type: 'transfer' }, issues: ReplayIssue[]): Projection => {
+  const transfer = event.transfer;
+  const from = findPortfolioRecursive(p.rootPortfolios, transfer.fromPortfolioId);
+  const to = findPortfolioRecursive(p.rootPortfolios, transfer.toPortfolioId);
+  if (!from || !to) {
+    issues.push({ eventId: event.id, code: 'PORTFOLIO_MISSING', message: 'سبد مبدا یا مقصد انتقال وجود ندارد.' });
+    return p;
+  }
+  if (transfer.kind === 'budget') {
+    return { ...p, rootPortfolios: moveAllocation(p.rootPortfolios, from.id, to.id, transfer.amount), transfers: [transfer, ...p.transfers] };
+  }
+  return transferAsset(p, transfer, `ast-${event.id}`, event.id, issues);
+};
+
+// Asset half of a transfer; both portfolios exist. `assetId` names the destination asset if it is new.
+const transferAsset = (p: Projection, transfer: Omit<PortfolioTransfer, 'cost'>, assetId: string, eventId: string, issues: ReplayIssue[]): Projection => {
+  const from = findPortfolioRecursive(p.rootPortfolios, transfer.fromPortfolioId)!;
+  const to = findPortfolioRecursive(p.rootPortfolios, transfer.toPortfolioId)!;
+  const source = from.assets.find(a => a.instrumentId === transfer.instrumentId);
+  if (!source || source.amount + AMOUNT_EPSILON < transfer.amount) {
+    issues.push({ eventId, code: 'OVERSELL', message: `انتقال ${source?.symbol || transfer.instrumentId} بیشتر از موجودی است.` });
+    return p;
+  }
+  const before = lotsOf(source);
+  const { lots: kept, cost } = consumeLots(before, transfer.amount, from.costBasisMethod || 'average');
+  const moved = before
+    .map(lot => ({ ...lot, amount: lot.amount - (kept.find(k => k.id === lot.id)?.amount || 0) }))
+    .filter(lot => lot.amount > AMOUNT_EPSILON);
+  const keptLots = kept.filter(lot => lot.amount > AMOUNT_EPSILON);
+  const keptAmount = lotsAmount(keptLots);
+  const fromAssets = keptAmount > AMOUNT_EPSILON
+    ? from.assets.map(a => a === source ? { ...a, amount: keptAmount, avgBuyPrice: lotsCost(keptLots) / keptAmount, lots: keptLots } : a)
+    : from.assets.filter(a => a !== source);
+
+  // Lots moved back into a portfolio that still holds part of them merge by id
+  const target = to.assets.find(a => a.instrumentId === source.instrumentId);
+  const targetLots = target ? lotsOf(target) : [];
+  const mergedLots = [
+    ...targetLots.map(lot => ({ ...lot, amount: lot.amount + (moved.find(m => m.id === lot.id)?.amount || 0) })),
+    ...moved.filter(m => !targetLots.some(lot => lot.id === m.id))
+  ];
+  const size = lotsAmount(mergedLots);
+  const received: Asset = target
+    ? { ...target, amount: size, avgBuyPrice: lotsCost(mergedLots) / size, lots: mergedLots }
+    : { ...source, id: assetId, amount: size, avgBuyPrice: lotsCost(mergedLots) / size, lots: mergedLots };
+  const toAssets = target ? to.assets.map(a => a === target ? received : a) : [...to.assets, received];
+
+  let rootPortfolios = updatePortfolioRecursive(p.rootPortfolios, { ...from, assets: fromAssets });
+  rootPortfolios = updatePortfolioRecursive(rootPortfolios, { ...findPortfolioRecursive(rootPortfolios, to.id)!, assets: toAssets });
+  if (transfer.withBudget) rootPortfolios = moveAllocation(rootPortfolios, from.id, to.id, cost);
+  const recorded: PortfolioTransfer = { ...transfer, cost };
+  return { ...p, rootPortfolios, transfers: [recorded, ...p.transfers] };
+};
+
+// Child target weights only make sense for current children; restructuring drops the others
+const pruneChildTargets = (portfolios: Portfolio[]): Portfolio[] => portfolios.map(p => {
+  const children = pruneChildTargets(p.children);
+  if (!p.targets || Object.keys(p.targets.children).every(id => children.some(c => c.id === id))) {
+    return children.every((c, i) => c === p.children[i]) ? p : { ...p, children };
+  }
+  const kept = Object.fromEntries(Object.entries(p.targets.children).filter(([id]) => children.some(c => c.id === id)));
+  return { ...p, children, targets: { ...p.targets, children: kept } };
+});
+
+// Hands a portfolio's assets (as transfers at cost, so positions carry over), children, plans and open orders to
+// its parent or a sibling, then removes it. A sibling also takes over its allocation; a parent already includes it.
+const applyMergeEvent = (p: Projection, event: JournalEvent & { type: 'portfolioMerge' }, issues: ReplayIssue[]): Projection => {
+  const source = findPortfolioRecursive(p.rootPortfolios, event.portfolioId);
+  const target = findPortfolioRecursive(p.rootPortfolios, event.targetId);
+  if (!source || !target) {
+    issues.push({ eventId: event.id, code: 'PORTFOLIO_MISSING', message: 'سبد مبدا یا مقصد ادغام وجود ندارد.' });
+    return p;
+  }
+  const intoParent = source.id !== target.id && target.children.some(c => c.id === source.id);
+
+  let next = source.assets.filter(a => a.amount > AMOUNT_EPSILON).reduce((acc, asset) => {
+    const transfer = {
+      id: `${event.id}-${asset.instrumentId}`,
+      kind: 'asset' as const,
+      fromPortfolioId: source.id,
+      toPortfolioId: target.id,
+      amount: asset.amount,
+      instrumentId: asset.instrumentId,
+      timestamp: event.timestamp,
+      note: `ادغام ${source.name}`
+    };
+    return transferAsset(acc, transfer, `ast-${transfer.id}`, event.id, issues);
+  }, p);
+
+  let rootPortfolios = next.rootPortfolios;
+  findPortfolioRecursive(rootPortfolios, source.id)!.children.forEach(child => {
+    rootPortfolios = insertPortfolio(deletePortfolioRecursive(rootPortfolios, child.id), target.id, child);
+  });
+  if (!intoParent) rootPortfolios = editPortfolioRecursive(rootPortfolios, target.id, { allocation: target.allocation + source.allocation });
+  rootPortfolios = pruneChildTargets(deletePortfolioRecursive(rootPortfolios, source.id));
+
+  const repoint = <T extends { portfolioId: string }>(item: T): T => item.portfolioId === source.id ? { ...item, portfolioId: target.id } : item;
+  return {
+    ...next,
+    rootPortfolios,
+    plans: next.plans.map(repoint),
+    orders: next.orders.map(o => o.status === 'open' ? repoint(o) : o)
+  };
+};
+
+// --- Order Matching ---
+
+// Limit buys, take-profit buys and stop-loss sells wait for the price to drop to the trigger;
+// the others wait for it to rise
+const isTriggered = (order: Order, price: number): boolean =>
+  (order.kind === 'stop') === (order.side === 'sell') ? price <= order.triggerPrice : price >= order.triggerPrice;
+
+// Last known price of an asset, preferring the order's own portfolio
+const marketPriceOf = (p: Projection, order: Order): number | undefined => {
+  const own = findPortfolioRecursive(p.rootPortfolios, order.portfolioId)?.assets.find(a => a.instrumentId === order.instrumentId);
+  if (own) return own.currentPrice;
+  return flattenPortfolios(p.rootPortfolios).flatMap(pf => pf.assets).find(a => a.instrumentId === order.instrumentId)?.currentPrice;
+};
+
+const closeOrder = (orders: Order[], id: string, changes: Partial<Order>): Order[] =>
+  orders.map(o => o.id === id ? { ...o, ...changes } : o);
+
+// Trade id of an order's fill
+const fillIdOf = (orderId: string) => `${orderId}-fill`;
+
+// Fills a triggered order at the market price. Funds are checked at fill time, so an
+// order the account can no longer afford is rejected instead of overdrawing it.
+// Margin portfolios are checked against their leverage limit instead of cash and holdings.
+// An edited fill keeps the order's time and amount but books the corrected price and fee.
+const fillOrder = (p: Projection, order: Order, marketPrice: number, timestamp: string, issues: ReplayIssue[]): Projection => {
+  const portfolio = findPortfolioRecursive(p.rootPortfolios, order.portfolioId);
+  const price = order.fill ? order.fill.price : marketPrice;
+  const totalValue = order.amount * price;
+  const fee = order.fill ? order.fill.fee : order.feeType === 'percentage' ? totalValue * (order.feeValue / 100) : order.feeValue;
+
+  let rejection: string | null = null;
+  if (!portfolio) {
+    rejection = 'سبد سفارش وجود ندارد.';
+  } else if (portfolio.margin) {
+    // Checked against the leverage limit once the fill is applied
+  } else if (order.side === 'buy') {
+    if (totalValue + fee > p.cash) rejection = 'موجودی نقد کافی نبود.';
+    else if (totalValue > Math.max(0, portfolio.allocation - calculateUsedBudget(portfolio))) rejection = 'بودجه سبد کافی نبود.';
+  } else if ((portfolio.assets.find(a => a.instrumentId === order.instrumentId)?.amount || 0) + AMOUNT_EPSILON < order.amount) {
+    rejection = 'موجودی دارایی کافی نبود.';
+  }
+  if (rejection) {
+    return { ...p, orders: closeOrder(p.orders, order.id, { status: 'rejected', closedAt: timestamp, note: rejection }) };
+  }
+
+  const trade: Trade = {
+    id: fillIdOf(order.id),
+    portfolioId: order.portfolioId,
+    type: order.side,
+    instrumentId: order.instrumentId,
+    assetName: order.assetName,
+    amount: order.amount,
+    price,
+    totalValue,
+    fee,
+    timestamp,
+    orderId: order.id,
+    ...(order.fill?.currency ? { currency: order.fill.currency, fxRate: order.fill.fxRate } : {}),
+    ...(order.fill?.lotId ? { lotId: order.fill.lotId } : {})
+  };
+  // A margin fill may still be rejected below, so its price point must not land in the series `p` shares
+  const apply = () => applyTradeEvent(p, { id: trade.id, timestamp, type: 'trade', trade }, issues);
+  const next = portfolio!.margin ? draftingPrices(false, apply) : apply();
+  if (exceedsLeverage(portfolio!, findPortfolioRecursive(next.rootPortfolios, order.portfolioId)!)) {
+    return { ...p, orders: closeOrder(p.orders, order.id, { status: 'rejected', closedAt: timestamp, note: 'سقف اهرم سبد کافی نبود.' }) };
+  }
+  const orders = next.orders.map(o => {
+    if (o.id === order.id) return { ...o, status: 'filled' as const, closedAt: timestamp, filledTradeId: trade.id };
+    if (order.ocoGroupId && o.ocoGroupId === order.ocoGroupId && o.status === 'open') {
+      return { ...o, status: 'cancelled' as const, closedAt: timestamp, note: 'لغو خودکار (OCO)' };
+    }
+    return o;
+  });
+  return { ...next, orders };
+};
+
+// Fills every open order on the instrument that the new price triggers, oldest first
+const matchOrders = (p: Projection, instrumentId: string, price: number, timestamp: string, issues: ReplayIssue[]): Projection =>
+  p.orders.reduce((next, { id }) => {
+    const order = next.orders.find(o => o.id === id)!;
+    if (order.status !== 'open' || order.instrumentId !== instrumentId || !isTriggered(order, price)) return next;
+    return fillOrder(next, order, price, timestamp, issues);
+  }, p);
+
+// Moves every holding of the instrument to the market price, then lets the new price trigger orders
+const repriceInstrument = (p: Projection, instrumentId: string, price: number, timestamp: string, issues: ReplayIssue[]): Projection => {
+  const reprice = (list: Portfolio[]): Portfolio[] => list.map(pf => ({
+    ...pf,
+    assets: pf.assets.map(a => a.instrumentId === instrumentId ? { ...a, currentPrice: price } : a),
+    children: reprice(pf.children)
+  }));
+  return matchOrders({ ...p, rootPortfolios: reprice(p.rootPortfolios) }, instrumentId, price, timestamp, issues);
+};
+
+// Instruments quoted in `currency` keep their native price when its current rate moves, so their
+// Toman price (and every holding of them) moves with the rate
+const revalueQuoted = (before: Projection, after: Projection, currency: Currency, timestamp: string, issues: ReplayIssue[]): Projection => {
+  const ratio = rateOf(after.currencies, currency) / rateOf(before.currencies, currency);
+  if (!Number.isFinite(ratio) || !(ratio > 0) || ratio === 1) return after;
+  return after.instruments.filter(i => i.quoteCurrency === currency).reduce((acc, { id }) => {
+    const price = acc.priceHistory[id]?.slice(-1)[0]?.price
+      ?? flattenPortfolios(acc.rootPortfolios).flatMap(pf => pf.assets).find(a => a.instrumentId === id)?.currentPrice;
+    if (!(price && price > 0)) return acc;
+    const revalued = { ...acc, priceHistory: recordPrice(acc.priceHistory, id, { timestamp, price: price * ratio, source: 'fx' }) };
+    return repriceInstrument(revalued, id, price * ratio, timestamp, issues);
+  }, after);
+};
+
+// An order that is already marketable when placed or modified fills right away
+const matchOrderNow = (p: Projection, orderId: string, timestamp: string, issues: ReplayIssue[]): Projection => {
+  const order = p.orders.find(o => o.id === orderId);
+  if (!order || order.status !== 'open') return p;
+  const price = marketPriceOf(p, order);
+  if (price === undefined || !isTriggered(order, price)) return p;
+  return fillOrder(p, order, price, timestamp, issues);
+};
+
+const reduceEvent = (p: Projection, event: JournalEvent, issues: ReplayIssue[]): Projection => {
+  switch (event.type) {
+    case 'genesis':
+      return {
+        ...EMPTY_PROJECTION,
+        cash: event.cash,
+        cashBalances: { [BASE_CURRENCY]: event.cash },
+        currencies: initialCurrencies(event.tetherPrice),
+        fxRateHistory: [{ currency: 'tether', rate: event.tetherPrice, timestamp: event.timestamp }],
+        tetherPrice: event.tetherPrice,
+        rootPortfolios: event.rootPortfolios,
+        cashTransactions: [{ id: event.id, type: 'deposit', amount: event.cash, timestamp: event.timestamp, note: 'موجودی اولیه' }]
+      };
+    case 'trade': {
+      const { p: resolved, instrument } = resolveInstrument(p, event.trade.instrumentId, event.trade.assetName);
+      const trade: Trade = { ...event.trade, instrumentId: instrument?.id || event.trade.instrumentId };
+      return matchOrders(applyTradeEvent(resolved, { ...event, trade }, issues), trade.instrumentId, trade.price, event.timestamp, issues);
+    }
+    case 'cash': {
+      const rate = rateOf(p.currencies, event.currency);
+      const amount = event.amount * rate;
+      const line: CashTransaction = { id: event.id, type: event.kind, amount, timestamp: event.timestamp, note: event.note, ...nativeFields(event.currency, rate, amount) };
+      return { ...moveCash(p, event.currency || BASE_CURRENCY, event.amount), cashTransactions: [line, ...p.cashTransactions] };
+    }
+    case 'tetherPrice':
+      return revalueQuoted(p, setRates(p, 'tether', [{ timestamp: event.timestamp, rate: event.price }]), 'tether', event.timestamp, issues);
+    case 'fxRate':
+      return revalueQuoted(p, setRates(p, event.currency, [{ timestamp: event.effectiveAt || event.timestamp, rate: event.rate }], event.replaces), event.currency, event.timestamp, issues);
+    case 'fxRateImport':
+      return revalueQuoted(p, setRates(p, event.currency, event.rates), event.currency, event.timestamp, issues);
+    case 'currencyAdd':
+      if (p.currencies.some(c => c.code === event.currency.code)) return p;
+      return {
+        ...p,
+        currencies: [...p.currencies, event.currency],
+        fxRateHistory: upsertRates(p.fxRateHistory, event.currency.code, [{ timestamp: event.timestamp, rate: event.currency.rate }])
+      };
+    case 'fxConvert':
+      return convertCash(p, event.id, event.timestamp, event.from, event.to, event.amount, event.received);
+    case 'assetPrice': {
+      const portfolio = findPortfolioRecursive(p.rootPortfolios, event.portfolioId);
+      const target = portfolio?.assets.find(a => event.instrumentId ? a.instrumentId === event.instrumentId : a.name === event.assetName);
+      if (!portfolio || !target) return p;
+      const assets = portfolio.assets.map(a => a === target ? { ...a, currentPrice: event.price } : a);
+      const priced = {
+        ...p,
+        rootPortfolios: updatePortfolioRecursive(p.rootPortfolios, { ...portfolio, assets }),
+        priceHistory: recordPrice(p.priceHistory, target.instrumentId, { timestamp: event.timestamp, price: event.price, source: 'manual' })
+      };
+      return matchOrders(priced, target.instrumentId, event.price, event.timestamp, issues);
+    }
+    case 'priceImport': {
+      const previous = p.priceHistory[event.instrumentId] || [];
+      const lastKnown = previous.length > 0 ? previous[previous.length - 1].time : -Infinity;
+      const imported = { ...p, priceHistory: recordPrices(p.priceHistory, event.instrumentId, event.prices.map(pt => ({ ...pt, source: 'import' as const }))) };
+      // Only an import that reaches past everything already known moves the market price
+      const latest = imported.priceHistory[event.instrumentId].slice(-1)[0];
+      if (!latest || latest.source !== 'import' || latest.time < lastKnown) return imported;
+      return repriceInstrument(imported, event.instrumentId, latest.price, event.timestamp, issues);
+    }
+    case 'marketQuotes':
+      return event.quotes.reduce((acc, q) => repriceInstrument(
+        { ...acc, priceHistory: recordPrice(acc.priceHistory, q.instrumentId, { timestamp: event.timestamp, price: q.price, source: 'feed' }) },
+        q.instrumentId, q.price, event.timestamp, issues
+      ), p);
+    case 'instrumentAdd':
+      if (p.instruments.some(i => i.id === event.instrument.id)) return p;
+      return { ...p, instruments: [...p.instruments, event.instrument] };
+    case 'instrumentEdit': {
+      const { id, name, symbol } = event.instrument;
+      const rename = (list: Portfolio[]): Portfolio[] => list.map(pf => ({
+        ...pf,
+        assets: pf.assets.map(a => a.instrumentId === id ? { ...a, name, symbol } : a),
+        children: rename(pf.children)
+      }));
+      return {
+        ...p,
+        instruments: p.instruments.map(i => i.id === id ? event.instrument : i),
+        rootPortfolios: rename(p.rootPortfolios)
+      };
+    }
+    case 'planAdd':
+      return { ...p, plans: [...p.plans, event.plan] };
+    case 'planEdit':
+      return { ...p, plans: p.plans.map(plan => plan.id === event.plan.id ? { ...event.plan, lastDueAt: plan.lastDueAt } : plan) };
+    case 'planDelete':
+      return { ...p, plans: p.plans.filter(plan => plan.id !== event.planId) };
+    case 'planRun':
+      return {
+        ...p,
+        plans: p.plans.map(plan => plan.id === event.planId ? { ...plan, lastDueAt: event.dueAt } : plan),
+        planRuns: [{ id: event.id, planId: event.planId, dueAt: event.dueAt, tradeId: event.tradeId, skipReason: event.skipReason }, ...p.planRuns]
+      };
+    case 'portfolioAdd': {
+      const portfolio: Portfolio = {
+        id: event.portfolioId,
+        name: event.name,
+        allocation: event.allocation,
+        costBasisMethod: event.costBasisMethod,
+        assets: [],
+        children: []
+      };
+      return {
+        ...p,
+        rootPortfolios: event.parentId === null
+          ? [...p.rootPortfolios, portfolio]
+          : addPortfolioRecursive(p.rootPortfolios, event.parentId, portfolio)
+      };
+    }
+    case 'portfolioEdit': {
+      const changes = { name: event.name, allocation: event.allocation, ...(event.costBasisMethod ? { costBasisMethod: event.costBasisMethod } : {}) };
+      return { ...p, rootPortfolios: editPortfolioRecursive(p.rootPortfolios, event.portfolioId, changes) };
+    }
+    case 'portfolioAllocations':
+      return { ...p, rootPortfolios: event.changes.reduce((list, c) => editPortfolioRecursive(list, c.portfolioId, { allocation: c.allocation }), p.rootPortfolios) };
+    case 'portfolioMove': {
+      const portfolio = findPortfolioRecursive(p.rootPortfolios, event.portfolioId);
+      if (!portfolio) return p;
+      const detached = deletePortfolioRecursive(p.rootPortfolios, portfolio.id);
+      // A portfolio cannot end up inside itself; the ledger refuses such moves
+      if (event.parentId !== null && !findPortfolioRecursive(detached, event.parentId)) return p;
+      return { ...p, rootPortfolios: pruneChildTargets(insertPortfolio(detached, event.parentId, portfolio, event.beforeId)) };
+    }
+    case 'portfolioMerge':
+      return applyMergeEvent(p, event, issues);
+    case 'portfolioDelete': {
+      const rootPortfolios = pruneChildTargets(deletePortfolioRecursive(p.rootPortfolios, event.portfolioId));
+      // Plans of the removed portfolios go with them
+      return { ...p, rootPortfolios, plans: p.plans.filter(plan => findPortfolioRecursive(rootPortfolios, plan.portfolioId)) };
+    }
+    case 'transfer':
+      return applyTransferEvent(p, event, issues);
+    case 'portfolioTargets': {
+      const portfolio = findPortfolioRecursive(p.rootPortfolios, event.portfolioId);
+      if (!portfolio) return p;
+      return { ...p, rootPortfolios: updatePortfolioRecursive(p.rootPortfolios, { ...portfolio, targets: event.targets || undefined }) };
+    }
+    case 'portfolioMargin': {
+      const portfolio = findPortfolioRecursive(p.rootPortfolios, event.portfolioId);
+      if (!portfolio) return p;
+      if (event.margin) {
+        const updated = { ...portfolio, margin: event.margin, interestAccruedAt: portfolio.interestAccruedAt || event.timestamp };
+        return { ...p, rootPortfolios: updatePortfolioRecursive(p.rootPortfolios, updated) };
+      }
+      // Back to a cash account: settle whatever interest is still outstanding
+      const settled = chargeInterest(p, portfolio, portfolio.accruedInterest || 0, event.timestamp);
+      const closed = findPortfolioRecursive(settled.rootPortfolios, portfolio.id)!;
+      const cashAccount = { ...closed, margin: undefined, accruedInterest: undefined, interestAccruedAt: undefined };
+      return { ...settled, rootPortfolios: updatePortfolioRecursive(settled.rootPortfolios, cashAccount) };
+    }
+    case 'orderPlace': {
+      const { p: resolved, instrument } = resolveInstrument(p, event.order.instrumentId, event.order.assetName);
+      const order: Order = { ...event.order, instrumentId: instrument?.id || event.order.instrumentId, status: 'open' };
+      return matchOrderNow({ ...resolved, orders: [...resolved.orders, order] }, order.id, event.timestamp, issues);
+    }
+    case 'orderModify': {
+      const orders = p.orders.map(o => o.id === event.orderId && o.status === 'open' ? { ...o, amount: event.amount, triggerPrice: event.triggerPrice } : o);
+      return matchOrderNow({ ...p, orders }, event.orderId, event.timestamp, issues);
+    }
+    case 'orderCancel':
+      return {
+        ...p,
+        orders: p.orders.map(o => o.id === event.orderId && o.status === 'open' ? { ...o, status: 'cancelled', closedAt: event.timestamp } : o)
+      };
+    case 'notes': {
+      if (event.target === 'trade') {
+        return { ...p, tradeHistory: p.tradeHistory.map(t => t.id === event.targetId ? { ...t, notes: event.notes || undefined } : t) };
+      }
+      const { [event.targetId]: _, ...positionNotes } = p.positionNotes;
+      return { ...p, positionNotes: event.notes ? { ...positionNotes, [event.targetId]: event.notes } : positionNotes };
+    }
+    case 'void':
+    case 'tradeEdit': // Applied to the trade event it targets (see buildTimeline)
+      return p;
+  }
+};
+
+// --- Margin ---
+
+const dayOf = (iso: string) => iso.slice(0, 10);
+
+// Moves accrued interest out of cash and the portfolio budget
+const chargeInterest = (p: Projection, portfolio: Portfolio, amount: number, timestamp: string): Projection => {
+  const charged = updatePortfolioRecursive(p.rootPortfolios, { ...portfolio, accruedInterest: 0 });
+  if (!(amount > 0)) return { ...p, rootPortfolios: charged };
+  const charge: CashTransaction = {
+    id: `${portfolio.id}-interest-${timestamp}`,
+    type: 'fee',
+    amount: -amount,
+    timestamp,
+    note: `بهره وام مارجین ${portfolio.name}`,
+    portfolioId: portfolio.id
+  };
+  return {
+    ...moveCash(p, BASE_CURRENCY, -amount),
+    rootPortfolios: adjustAllocationAlongPath(charged, portfolio.id, -amount),
+    cashTransactions: [charge, ...p.cashTransactions]
+  };
+};
+
+// Accrues borrowing cost on every margin portfolio up to `timestamp`. Interest is charged to
+// cash (and the portfolio budget) once per day, the first time an event lands on a new day.
+const accrueMarginInterest = (p: Projection, timestamp: string): Projection =>
+  flattenPortfolios(p.rootPortfolios).filter(pf => pf.margin).reduce((next, { id }) => {
+    const portfolio = findPortfolioRecursive(next.rootPortfolios, id)!;
+    const since = portfolio.interestAccruedAt;
+    if (since && timestamp <= since) return next;
+    if (!since) {
+      return { ...next, rootPortfolios: updatePortfolioRecursive(next.rootPortfolios, { ...portfolio, interestAccruedAt: timestamp }) };
+    }
+
+    const accrued = (portfolio.accruedInterest || 0) + borrowCost(portfolio, since, timestamp);
+    if (dayOf(since) === dayOf(timestamp) || accrued <= 0) {
+      return { ...next, rootPortfolios: updatePortfolioRecursive(next.rootPortfolios, { ...portfolio, accruedInterest: accrued, interestAccruedAt: timestamp }) };
+    }
+
+    return chargeInterest(next, { ...portfolio, interestAccruedAt: timestamp }, accrued, timestamp);
+  }, p);
+
+// Margin call: a portfolio whose equity fell below its maintenance requirement has every
+// position closed at the current market price
+const liquidateUnderwater = (p: Projection, event: JournalEvent, issues: ReplayIssue[]): Projection =>
+  flattenPortfolios(p.rootPortfolios).filter(pf => pf.margin).reduce((next, { id }) => {
+    const portfolio = findPortfolioRecursive(next.rootPortfolios, id)!;
+    if (calculateMarginMetrics(portfolio).status !== 'liquidation') return next;
+
+    return portfolio.assets.reduce((acc, asset) => {
+      const trade: Trade = {
+        id: `${event.id}-liq-${asset.id}`,
+        portfolioId: id,
+        type: asset.amount > 0 ? 'sell' : 'buy',
+        instrumentId: asset.instrumentId,
+        assetName: asset.name,
+        amount: Math.abs(asset.amount),
+        price: asset.currentPrice,
+        totalValue: Math.abs(asset.amount) * asset.currentPrice,
+        fee: 0,
+        timestamp: event.timestamp,
+        liquidation: true
+      };
+      return applyTradeEvent(acc, { id: trade.id, timestamp: trade.timestamp, type: 'trade', trade }, issues);
+    }, next);
+  }, p);
+
+export const applyEvent = (p: Projection, event: JournalEvent, issues: ReplayIssue[] = []): Projection => {
+  const accrued = event.type === 'genesis' ? p : accrueMarginInterest(p, event.timestamp);
+  const next = liquidateUnderwater(reduceEvent(accrued, event, issues), event, issues);
+  if (NON_VALUE_EVENTS.includes(event.type) && next.cash === p.cash) return next;
+  return { ...next, netWorthHistory: recordHistory(next.netWorthHistory, next.cash + calculateTotalAssets(next.rootPortfolios), event.timestamp) };
+};
+
+// --- Replay ---
+
+const timeOf = (event: JournalEvent) => new Date(event.timestamp).getTime();
+
+// Events that take effect, with trade edits folded into the trades they target, in effective-time
+// order (stable for equal timestamps). A fill has no event of its own; its edit rides on the order.
+
+const buildTimeline = (journal: JournalEvent[]): JournalEvent[] => {
+  const voided = new Set(journal.flatMap(e => e.type === 'void' ? [e.targetId] : []));
+  const edits = new Map<string, Trade>();
+  journal.forEach(e => {
+    if (e.type === 'tradeEdit' && !voided.has(e.id)) edits.set(e.tradeId, e.trade);
+  });
+  return journal
+    .map((event, index) => {
+      if (event.type === 'orderPlace') {
+        const fill = edits.get(fillIdOf(event.id));
+        if (!fill) return { event, index };
+        const { price, fee, currency, fxRate, lotId } = fill;
+        return { event: { ...event, order: { ...event.order, fill: { price, fee, currency, fxRate, lotId } } }, index };
+      }
+      const edited = event.type === 'trade' ? edits.get(event.id) : undefined;
+      return { event: edited ? { ...event, timestamp: edited.timestamp, trade: edited } : event, index };
+    })
+    .filter(({ event }) => event.type !== 'void' && event.type !== 'tradeEdit' && !voided.has(event.id))
+    .sort((a, b) => (a.event.type === 'genesis' ? -1 : b.event.type === 'genesis' ? 1 : 0) || timeOf(a.event) - timeOf(b.event) || a.index - b.index)
+    .map(({ event }) => event);
+};
+
+// A replay owns the price series it builds, so they grow in place instead of being copied per point
+export const replayJournal = (journal: JournalEvent[]): { projection: Projection; issues: ReplayIssue[] } => {
+  const issues: ReplayIssue[] = [];
+  const projection = draftingPrices(true, () => buildTimeline(journal).reduce((p, event) => applyEvent(p, event, issues), EMPTY_PROJECTION));
+  return { projection, issues };
+};
+
+// Replays the journal and hands each step to `visit`, for checks and analytics that follow a value
+// through time; returns the final projection. Price series are shared between steps, so
+// `before.priceHistory` may already hold later points.
+export const replaySteps = (
+  journal: JournalEvent[],
+  visit: (before: Projection, after: Projection, event: JournalEvent) => void,
+  issues: ReplayIssue[] = []
+): Projection =>
+  draftingPrices(true, () => buildTimeline(journal).reduce((p, event) => {
+    const next = applyEvent(p, event, issues);
+    visit(p, next, event);
+    return next;
+  }, EMPTY_PROJECTION));
+
+// Whether `events` only add to the end of the timeline of `journal`, so applying them on top of its
+// projection gives the same result as a full replay. Voids, edits and back-dated events do not.
+export const appendsInOrder = (journal: JournalEvent[], events: JournalEvent[]): boolean => {
+  let cursor = journal.reduce((max, e) => Math.max(max, timeOf(e)), -Infinity);
+  return events.every(e => {
+    const inOrder = e.type !== 'void' && e.type !== 'tradeEdit' && e.type !== 'genesis' && timeOf(e) >= cursor;
+    cursor = Math.max(cursor, timeOf(e));
+    return inOrder;
+  });
+};
+
+// Appends events to the journal. Events that land after everything already recorded are
+// applied incrementally; anything else (voids, back-dated events) triggers a full replay.
+// Both paths run the same reducer, so they always agree.
+export const appendEvents = (state: AppState, events: JournalEvent[]): { state: AppState; issues: ReplayIssue[] } => {
+  const journal = [...state.journal, ...events];
+
+  if (appendsInOrder(state.journal, events)) {
+    const issues: ReplayIssue[] = [];
+    const projection = events.reduce<Projection>((p, event) => applyEvent(p, event, issues), state);
+    return { state: { ...state, ...pickProjection(projection), journal }, issues };
+  }
+
+  const { projection, issues } = replayJournal(journal);
+  return { state: { ...state, ...projection, journal }, issues };
+};
+
+const pickProjection = (p: Projection): Projection => ({
+  cash: p.cash,
+  cashBalances: p.cashBalances,
+  currencies: p.currencies,
+  fxRateHistory: p.fxRateHistory,
+  tetherPrice: p.tetherPrice,
+  instruments: p.instruments,
+  priceHistory: p.priceHistory,
+  rootPortfolios: p.rootPortfolios,
+  tradeHistory: p.tradeHistory,
+  orders: p.orders,
+  plans: p.plans,
+  planRuns: p.planRuns,
+  transfers: p.transfers,
+  positionNotes: p.positionNotes,
+  cashTransactions: p.cashTransactions,
+  netWorthHistory: p.netWorthHistory
+});
+
+export const createEventId = (prefix: string, journal: JournalEvent[], now: Date): string =>
+  `${prefix}-${now.getTime()}-${journal.length}`;
+
+// --- Loading ---
+
+// Saves written before the journal existed only hold snapshots. We rebuild an opening
+// (genesis) balance by reversing every trade, then journal the trades on top of it.
+// Deposits made before the migration are folded into the opening cash.
+export const migrateLegacyState = (legacy: any, now: Date = new Date()): AppState => {
+  const trades: Trade[] = [...(legacy.tradeHistory || [])]
+    .sort((a: Trade, b: Trade) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const stripAssets = (list: Portfolio[]): Portfolio[] => list.map(p => ({ ...p, assets: [], children: stripAssets(p.children || []) }));
+  let openingPortfolios = stripAssets(legacy.rootPortfolios || []);
+  let openingCash: number = legacy.cash || 0;
+  trades.forEach(t => {
+    openingCash -= tradeCashEffect(t);
+    if (t.type === 'sell') openingPortfolios = adjustAllocationAlongPath(openingPortfolios, t.portfolioId, -((t.realizedPnl || 0) - t.fee));
+  });
+
+  const genesisTime = trades.length > 0 ? trades[0].timestamp : (legacy.netWorthHistory?.[0]?.date || now.toISOString());
+  const journal: JournalEvent[] = [
+    { id: 'ev-genesis', timestamp: genesisTime, type: 'genesis', cash: openingCash, tetherPrice: legacy.tetherPrice || 0, rootPortfolios: openingPortfolios },
+    ...trades.map((t): JournalEvent => {
+      const { realizedPnl, costBasis, ...trade } = t;
+      return { id: t.id, timestamp: t.timestamp, type: 'trade', trade };
+    })
+  ];
+
+  // Carry over manually edited market prices the trades alone would not reproduce
+  const replayed = replayJournal(journal).projection;
+  const lastTradeTime = trades.length > 0 ? new Date(trades[trades.length - 1].timestamp).getTime() : 0;
+  const priceTime = new Date(Math.max(now.getTime(), lastTradeTime)).toISOString();
+  const collectAssets = (list: Portfolio[]): { portfolioId: string; asset: Asset }[] =>
+    list.flatMap(p => [...p.assets.map(asset => ({ portfolioId: p.id, asset })), ...collectAssets(p.children || [])]);
+  collectAssets(legacy.rootPortfolios || []).forEach(({ portfolioId, asset }) => {
+    const current = findPortfolioRecursive(replayed.rootPortfolios, portfolioId)?.assets.find(a => a.name === asset.name);
+    if (current && current.currentPrice !== asset.currentPrice) {
+      journal.push({ id: createEventId('ev', journal, now), timestamp: priceTime, type: 'assetPrice', portfolioId, assetName: asset.name, price: asset.currentPrice });
+    }
+  });
+
+  return {
+    ...replayJournal(journal).projection,
+    selectedPortfolioId: legacy.selectedPortfolioId ?? null,
+    journal
+  };
+};
+
+// Accepts any saved state (journaled or legacy) and returns a consistent AppState
+export const hydrateState = (saved: any): AppState => {
+  if (!Array.isArray(saved?.journal) || saved.journal.length === 0) return migrateLegacyState(saved);
+  return { ...saved, ...replayJournal(saved.journal).projection };
+};
+
+// --- Compaction ---
+
+const HOUR_MS = 60 * 60 * 1000;
+const QUOTE_DETAIL_MS = 24 * HOUR_MS; // Feed ticks younger than this are kept one by one
+
+// Feed ticks are journaled as they arrive, which outgrows browser storage within days. Ticks older
+// than a day are folded hour by hour: consecutive ticks of one provider become a single event at
+// the last one's time, carrying each instrument's last price. A tick that filled or cancelled an
+// order or set off a liquidation is kept as it is. Returns `state` itself when nothing folds, or
+// when the folded journal would replay to different trades, orders or cash.
+export const compactMarketQuotes = (state: AppState, now: Date): AppState => {
+  const cutoff = now.getTime() - QUOTE_DETAIL_MS;
+  const acted = new Set(state.orders.map(o => o.closedAt).filter(Boolean));
+  const liquidated = new Set(state.tradeHistory.filter(t => t.liquidation).map(t => t.id.slice(0, t.id.indexOf('-liq-'))));
+  const foldable = (e: JournalEvent): e is JournalEvent & { type: 'marketQuotes' } =>
+    e.type === 'marketQuotes' && timeOf(e) < cutoff && !acted.has(e.timestamp) && !liquidated.has(e.id);
+
+  // Runs of foldable ticks in timeline order; anything else in between ends a run
+  const runs: (JournalEvent & { type: 'marketQuotes' })[][] = [];
+  let run: (JournalEvent & { type: 'marketQuotes' })[] = [];
+  buildTimeline(state.journal).forEach(e => {
+    const joins = foldable(e) && run.length > 0 && run[0].providerId === e.providerId && Math.floor(timeOf(run[0]) / HOUR_MS) === Math.floor(timeOf(e) / HOUR_MS);
+    if (!joins) {
+      if (run.length > 1) runs.push(run);
+      run = foldable(e) ? [e] : [];
+    } else {
+      run.push(e);
+    }
+  });
+  if (run.length > 1) runs.push(run);
+  if (runs.length === 0) return state;
+
+  // What each folded tick turns into: nothing, or for the last of a run the combined event
+  const folded = new Map<string, JournalEvent[]>();
+  runs.forEach(ticks => {
+    const prices = new Map<string, number>();
+    ticks.forEach(tick => tick.quotes.forEach(q => prices.set(q.instrumentId, q.price)));
+    const last = ticks[ticks.length - 1];
+    ticks.forEach(tick => folded.set(tick.id, []));
+    folded.set(last.id, [{ ...last, quotes: [...prices].map(([instrumentId, price]) => ({ instrumentId, price })) }]);
+  });
+  const journal = state.journal.flatMap(e => folded.get(e.id) || [e]);
+
+  const { projection } = replayJournal(journal);
+  const sameTrades = projection.tradeHistory.length === state.tradeHistory.length && projection.tradeHistory.every((t, i) => {
+    const was = state.tradeHistory[i];
+    return t.id === was.id && t.amount === was.amount && t.price === was.price;
+  });
+  const sameOrders = projection.orders.length === state.orders.length && projection.orders.every((o, i) => o.id === state.orders[i].id && o.status === state.orders[i].status);
+  if (!sameTrades || !sameOrders || Math.abs(projection.cash - state.cash) > AMOUNT_EPSILON) return state;
+  return { ...state, ...projection, journal };
+};
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, INITIAL_STATE, TradeType } from '../types';
+import { applyCommand, LedgerCommand, LedgerErrorCode, TradeCommand } from './ledger';
+import { replayJournal } from './journal';
+import { findPortfolioRecursive } from './portfolioTree';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const start = new Date(INITIAL_STATE.journal[0].timestamp).getTime();
+const day = (n: number) => new Date(start + n * DAY_MS);
+
+// Runs commands in order, each at its own time; fails the test on the first rejection
+const run = (state: AppState, ...commands: [LedgerCommand, Date][]): AppState =>
+  commands.reduce((current, [command, at]) => {
+    const result = applyCommand(current, command, at);
+    if (result.ok === false) throw new Error(`${command.type}: ${result.error.message}`);
+    return result.state;
+  }, state);
+
+const rejection = (state: AppState, command: LedgerCommand, at: Date): LedgerErrorCode | undefined => {
+  const result = applyCommand(state, command, at);
+  return result.ok === false ? result.error.code : undefined;
+};
+
+// The journal has to replay to exactly the state the commands left behind
+const expectReplayable = (state: AppState) => {
+  const { projection } = replayJournal(state.journal);
+  expect(projection.cash).toBe(state.cash);
+  expect(projection.tradeHistory).toEqual(state.tradeHistory);
+  expect(projection.rootPortfolios).toEqual(state.rootPortfolios);
+};
+
+const withGold = (): { state: AppState; gold: string } => {
+  const state = run(INITIAL_STATE, [{ type: 'addInstrument', symbol: 'GLD', name: 'Gold', assetClass: 'gold', quoteCurrency: 'toman', lotSize: 0, pricePrecision: 0 }, day(0.5)]);
+  return { state, gold: state.instruments[0].id };
+};
+
+const trade = (type: TradeType, instrumentId: string, amount: number, price: number, extra: Partial<TradeCommand> = {}): TradeCommand =>
+  ({ type, portfolioId: 'p-2', instrumentId, amount, price, totalValue: amount * price, fee: 0, ...extra });
+
+const holding = (state: AppState, instrumentId: string) =>
+  findPortfolioRecursive(state.rootPortfolios, 'p-2')!.assets.find(a => a.instrumentId === instrumentId);
+
+describe('trades', () => {
+  it('books a buy against cash and the portfolio', () => {
+    const { state, gold } = withGold();
+    const next = run(state, [trade('buy', gold, 10, 1_000_000, { fee: 50_000 }), day(1)]);
+
+    expect(next.cash).toBe(state.cash - 10_050_000);
+    expect(holding(next, gold)).toMatchObject({ amount: 10, avgBuyPrice: 1_000_000 });
+    expectReplayable(next);
+  });
+
+  it('realizes the profit of a sell', () => {
+    const { state, gold } = withGold();
+    const next = run(state, [trade('buy', gold, 10, 1_000_000), day(1)], [trade('sell', gold, 4, 1_500_000), day(2)]);
+
+    expect(next.cash).toBe(state.cash - 10_000_000 + 6_000_000);
+    expect(holding(next, gold)?.amount).toBe(6);
+    expect(next.tradeHistory[0]).toMatchObject({ type: 'sell', realizedPnl: 2_000_000 });
+    expectReplayable(next);
+  });
+
+  it('rejects selling more than is held', () => {
+    const { state, gold } = withGold();
+    const bought = run(state, [trade('buy', gold, 10, 1_000_000), day(1)]);
+
+    expect(rejection(bought, trade('sell', gold, 11, 1_000_000), day(2))).toBe('INSUFFICIENT_HOLDINGS');
+    expect(rejection(state, trade('sell', gold, 1, 1_000_000), day(2))).toBe('INSUFFICIENT_HOLDINGS');
+  });
+
+  it('rejects a buy over the portfolio budget', () => {
+    const { state, gold } = withGold();
+    const budget = findPortfolioRecursive(state.rootPortfolios, 'p-2')!.allocation;
+
+    expect(rejection(state, trade('buy', gold, 1, budget + 1), day(1))).toBe('INSUFFICIENT_BUDGET');
+  });
+});
+
+describe('withdrawals', () => {
+  it('only releases cash no portfolio budget has reserved', () => {
+    const reserved = INITIAL_STATE.rootPortfolios.reduce((sum, p) => sum + p.allocation, 0);
+    const free = INITIAL_STATE.cash - reserved;
+
+    expect(rejection(INITIAL_STATE, { type: 'withdraw', amount: free + 1 }, day(1))).toBe('INSUFFICIENT_CASH');
+    const next = run(INITIAL_STATE, [{ type: 'withdraw', amount: free }, day(1)]);
+    expect(next.cash).toBe(reserved);
+  });
+});
+
+describe('editing a trade', () => {
+  it('replays everything after the corrected trade', () => {
+    const { state, gold } = withGold();
+    const traded = run(state, [trade('buy', gold, 10, 1_000_000), day(1)], [trade('sell', gold, 4, 1_500_000), day(2)]);
+    const buy = traded.tradeHistory.find(t => t.type === 'buy')!;
+
+    const next = run(traded, [{ type: 'editTrade', tradeId: buy.id, trade: { ...trade('buy', gold, 10, 1_200_000), timestamp: buy.timestamp } }, day(3)]);
+
+    expect(next.cash).toBe(state.cash - 12_000_000 + 6_000_000);
+    expect(next.tradeHistory.find(t => t.type === 'sell')?.realizedPnl).toBe(1_200_000);
+    expectReplayable(next);
+  });
+
+  it('refuses an edit that leaves a later sell without holdings', () => {
+    const { state, gold } = withGold();
+    const traded = run(state, [trade('buy', gold, 10, 1_000_000), day(1)], [trade('sell', gold, 8, 1_500_000), day(2)]);
+    const buy = traded.tradeHistory.find(t => t.type === 'buy')!;
+
+    expect(rejection(traded, { type: 'editTrade', tradeId: buy.id, trade: { ...trade('buy', gold, 5, 1_000_000), timestamp: buy.timestamp } }, day(3))).toBe('INSUFFICIENT_HOLDINGS');
+  });
+});
+
+describe('back-dated trades', () => {
+  it('places the trade at its own time and recomputes later results', () => {
+    const { state, gold } = withGold();
+    const traded = run(state, [trade('buy', gold, 10, 1_000_000), day(2)], [trade('sell', gold, 10, 1_500_000), day(3)]);
+
+    const next = run(traded, [trade('buy', gold, 10, 500_000, { executedAt: day(1).toISOString() }), day(4)]);
+
+    const past = next.tradeHistory.find(t => t.price === 500_000)!;
+    expect(past.timestamp).toBe(day(1).toISOString());
+    expect(holding(next, gold)?.amount).toBe(10);
+    // The later sell now closes part of the cheaper lot too, at the average cost
+    expect(next.tradeHistory.find(t => t.type === 'sell')?.realizedPnl).toBe(7_500_000);
+    expectReplayable(next);
+  });
+
+  it('rejects a past sell of something not yet held at that time', () => {
+    const { state, gold } = withGold();
+    const traded = run(state, [trade('buy', gold, 10, 1_000_000), day(2)]);
+
+    expect(rejection(traded, trade('sell', gold, 5, 1_000_000, { executedAt: day(1).toISOString() }), day(3))).toBe('INSUFFICIENT_HOLDINGS');
+  });
+
+  it('rejects a time in the future', () => {
+    const { state, gold } = withGold();
+
+    expect(rejection(state, trade('buy', gold, 1, 1_000_000, { executedAt: day(5).toISOString() }), day(3))).toBe('INVALID_AMOUNT');
+  });
+});
@@ -0,0 +1,1217 @@
+import { AppState, AssetClass, BASE_CURRENCY, CostBasisMethod, Currency, FeeType, Instrument, InvestmentPlan, JournalEvent, MarginSettings, Order, OrderInput, PlanInput, Portfolio, PortfolioTargets, PortfolioTransfer, PositionView, Trade, TradeInput, TradeNotes } from '../types';
+import {
+  calculatePortfolioCost,
+  calculateUsedBudget,
+  findPortfolioPath,
+  findPortfolioRecursive,
+  flattenPortfolios
+} from './portfolioTree';
+import { Projection, ReplayIssue, appendEvents, createEventId, replayJournal, replaySteps } from './journal';
+import { AllocationChange, checkAllocations, newAllocationIssue } from './allocation';
+import { AMOUNT_EPSILON, consumeLots, lotsOf } from './costBasis';
+import { calculateMarginMetrics, exceedsLeverage } from './margin';
+import { formatCurrency, formatNumber } from './format';
+import { findCurrency, rateAt, rateOf } from './currency';
+import { findInstrument, findInstrumentBySymbol, isLotMultiple, normalizeSymbol } from './instruments';
+import { priceAt } from './priceHistory';
+import { pendingDueDates, PLAN_FREQUENCY_LABELS } from './plans';
+
+// --- Commands & Results ---
+export type TradeCommand = TradeInput & { portfolioId: string };
+export type TradeEdit = TradeCommand & { timestamp: string }; // Every field of a trade the user enters, its time included
+export type PlaceOrderCommand = OrderInput & { type: 'placeOrder'; portfolioId: string };
+
+// A stop-loss and a take-profit guarding the same holding; whichever fills first cancels the other
+export interface OcoInput {
+  instrumentId: string;
+  amount: number;
+  stopPrice: number;
+  takeProfitPrice: number;
+  feeType: FeeType;
+  feeValue: number;
+}
+export type PlaceOcoCommand = OcoInput & { type: 'placeOco'; portfolioId: string };
+
+// Instrument master fields the user edits; the id is assigned by the ledger
+export type InstrumentInput = Omit<Instrument, 'id'>;
+
+// Transfer fields entered by the user; the ledger stamps id and time
+export type TransferInput = Omit<PortfolioTransfer, 'id' | 'timestamp' | 'cost'>;
+
+export type LedgerCommand =
+  | TradeCommand
+  | { type: 'deleteTrade'; tradeId: string }
+  | { type: 'editTrade'; tradeId: string; trade: TradeEdit }
+  | PlaceOrderCommand
+  | PlaceOcoCommand
+  | { type: 'modifyOrder'; orderId: string; amount: number; triggerPrice: number }
+  | { type: 'cancelOrder'; orderId: string }
+  | { type: 'deposit'; amount: number; note?: string; currency?: Currency } // A negative amount is treated as a withdrawal
+  | { type: 'withdraw'; amount: number; note?: string; currency?: Currency }
+  | { type: 'chargeFee'; amount: number; note?: string }
+  | { type: 'priceUpdate'; assetId: string; price: number }
+  | { type: 'setTetherPrice'; price: number }
+  | { type: 'addCurrency'; code: Currency; name: string; symbol: string; rate: number }
+  | { type: 'setFxRate'; currency: Currency; rate: number; effectiveAt?: string } // Back-dated when effectiveAt is given
+  | { type: 'editFxRate'; currency: Currency; originalAt: string; effectiveAt: string; rate: number }
+  | { type: 'importFxRates'; currency: Currency; rates: { timestamp: string; rate: number }[] }
+  | { type: 'convertCurrency'; from: Currency; to: Currency; amount: number }
+  | { type: 'importPrices'; instrumentId: string; prices: { timestamp: string; price: number }[] }
+  | { type: 'applyQuotes'; providerId: string; quotes: { instrumentId: string; price: number }[] } // A tick from a market data feed
+  | (InstrumentInput & { type: 'addInstrument' })
+  | (Omit<InstrumentInput, 'symbol'> & { type: 'editInstrument'; instrumentId: string }) // The symbol is fixed once registered
+  | { type: 'addPortfolio'; parentId: string | null; name: string; allocation: number; costBasisMethod?: CostBasisMethod }
+  | { type: 'editPortfolio'; portfolioId: string; name: string; allocation: number; costBasisMethod?: CostBasisMethod }
+  | { type: 'setAllocations'; changes: AllocationChange[] }
+  | { type: 'deletePortfolio'; portfolioId: string; mergeInto?: string } // Merges into the parent or a sibling instead of discarding
+  | { type: 'movePortfolio'; portfolioId: string; parentId: string | null; beforeId?: string }
+  | { type: 'undoStructure' } // Reverts the latest structural edit of the portfolio tree
+  | (TransferInput & { type: 'transfer' })
+  | { type: 'cancelTransfer'; transferId: string }
+  | (PlanInput & { type: 'addPlan'; portfolioId: string })
+  | (PlanInput & { type: 'editPlan'; planId: string })
+  | { type: 'deletePlan'; planId: string }
+  | { type: 'runPlans' } // Executes every plan due up to now
+  | { type: 'setMargin'; portfolioId: string; margin: MarginSettings | null }
+  | { type: 'setTargets'; portfolioId: string; targets: PortfolioTargets | null }
+  | { type: 'setNotes'; target: 'trade' | 'position'; targetId: string; notes: TradeNotes | null };
+
+export type LedgerErrorCode =
+  | 'PORTFOLIO_NOT_FOUND'
+  | 'CURRENCY_NOT_FOUND'
+  | 'INSTRUMENT_NOT_FOUND'
+  | 'DUPLICATE_SYMBOL'
+  | 'ASSET_NOT_FOUND'
+  | 'TRADE_NOT_FOUND'
+  | 'TRADE_NOT_EDITABLE'
+  | 'POSITION_NOT_FOUND'
+  | 'ORDER_NOT_FOUND'
+  | 'PLAN_NOT_FOUND'
+  | 'TRANSFER_NOT_FOUND'
+  | 'NOTHING_TO_UNDO'
+  | 'FX_RATE_NOT_FOUND'
+  | 'INVALID_LINK'
+  | 'INVALID_AMOUNT'
+  | 'INSUFFICIENT_CASH'
+  | 'INSUFFICIENT_BUDGET'
+  | 'INSUFFICIENT_HOLDINGS'
+  | 'LOT_NOT_FOUND'
+  | 'MARGIN_EXCEEDED'
+  | 'ORDER_REJECTED'
+  | 'ALLOCATION_EXCEEDED';
+
+export interface LedgerError {
+  code: LedgerErrorCode;
+  message: string; // User facing (Persian)
+}
+
+export type LedgerResult =
+  | { ok: true; state: AppState }
+  | { ok: false; error: LedgerError };
+
+const fail = (code: LedgerErrorCode, message: string): LedgerResult => ({ ok: false, error: { code, message } });
+
+// Cash not reserved by any root portfolio's unspent budget; the most that can leave the account
+export const calculateFreeCash = (cash: number, rootPortfolios: Portfolio[]): number => {
+  const reserved = rootPortfolios.reduce((sum, p) => sum + Math.max(0, p.allocation - calculatePortfolioCost(p)), 0);
+  return Math.max(0, cash - reserved);
+};
+
+const commit = (state: AppState, events: JournalEvent[]): LedgerResult => ({ ok: true, state: appendEvents(state, events).state });
+
+// --- Command Handlers ---
+// Each handler validates against the current projection, then records journal events.
+
+const applyTrade = (state: AppState, command: TradeCommand, now: Date): LedgerResult => {
+  const portfolio = findPortfolioRecursive(state.rootPortfolios, command.portfolioId);
+  if (!portfolio) return fail('PORTFOLIO_NOT_FOUND', 'سبد مورد نظر یافت نشد.');
+  if (!(command.amount > 0) || !(command.price >= 0) || !(command.fee >= 0)) {
+    return fail('INVALID_AMOUNT', 'مقدار، قیمت یا کارمزد معامله نامعتبر است.');
+  }
+  const unknown = validateInstrument(state, command.instrumentId, command.amount);
+  if (unknown) return unknown;
+  if (command.currency && command.currency !== BASE_CURRENCY) {
+    if (!state.currencies.some(c => c.code === command.currency)) return fail('CURRENCY_NOT_FOUND', 'ارز معامله تعریف نشده است.');
+    // Without an explicit rate the trade is valued at the rate in effect when it happens
+    if (command.fxRate === undefined) command = { ...command, fxRate: rateAt(state.fxRateHistory, command.currency, command.executedAt || now.toISOString()) };
+    if (!(command.fxRate > 0)) return fail('INVALID_AMOUNT', 'نرخ تبدیل ارز معامله نامعتبر است.');
+  }
+
+  if (command.executedAt !== undefined) return applyPastTrade(state, command, portfolio, now);
+  if (portfolio.margin) return applyMarginTrade(state, command, portfolio, now);
+
+  if (command.type === 'buy') {
+    if (command.lotId) return fail('INVALID_AMOUNT', 'انتخاب لات فقط برای فروش ممکن است.');
+    if (command.totalValue + command.fee > state.cash) {
+      return fail('INSUFFICIENT_CASH', 'موجودی نقد کافی نیست!');
+    }
+    const remainingBudget = Math.max(0, portfolio.allocation - calculateUsedBudget(portfolio));
+    if (command.totalValue > remainingBudget) {
+      return fail('INSUFFICIENT_BUDGET', `بودجه این سبد کافی نیست! بودجه باقی‌مانده: ${formatCurrency(remainingBudget)}`);
+    }
+  } else {
+    const existingAsset = portfolio.assets.find(a => a.instrumentId === command.instrumentId);
+    if (!existingAsset || existingAsset.amount < command.amount) {
+      return fail('INSUFFICIENT_HOLDINGS', 'موجودی دارایی کافی نیست!');
+    }
+    if (command.lotId) {
+      const lot = lotsOf(existingAsset).find(l => l.id === command.lotId);
+      if (!lot) return fail('LOT_NOT_FOUND', 'لات انتخاب شده یافت نشد.');
+      if (lot.amount + AMOUNT_EPSILON < command.amount) return fail('INSUFFICIENT_HOLDINGS', 'مقدار فروش بیشتر از موجودی لات انتخاب شده است.');
+    }
+  }
+
+  return commit(state, [tradeEvent(state, command, now)]);
+};
+
+// A trade entered after the fact, e.g. from a broker statement. What was held and spent at the time is
+// only known by replaying, so it is checked like an edit rather than against the current balances.
+// Importing an account's history starts with its oldest trade, which usually predates the day the app
+// was first opened. Until the account has a trade, the opening balance is moved back to meet it.
+const applyPastTrade = (state: AppState, command: TradeCommand, portfolio: Portfolio, now: Date): LedgerResult => {
+  const executedAt = new Date(command.executedAt!);
+  const genesis = genesisOf(state.journal);
+  const opening: JournalEvent[] = genesis && state.tradeHistory.length === 0 && executedAt < new Date(genesis.timestamp)
+    ? [
+      { id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'void', targetId: genesis.id },
+      { ...genesis, id: createEventId('ev', [...state.journal, genesis], now), timestamp: executedAt.toISOString() }
+    ]
+    : [];
+  const journal = [...state.journal, ...opening];
+  const invalidTime = validateTradeTime({ ...state, journal }, command.executedAt!, now);
+  if (invalidTime) {
+    return genesis && executedAt < new Date(genesis.timestamp)
+      ? fail('INVALID_AMOUNT', 'این تاریخ پیش از شروع حساب است. شروع حساب فقط تا پیش از ثبت اولین معامله به عقب می‌رود؛ معاملات گذشته را از قدیمی‌ترین ثبت کنید.')
+      : invalidTime;
+  }
+  if (command.lotId && command.type === 'buy') return fail('INVALID_AMOUNT', 'انتخاب لات فقط برای فروش ممکن است.');
+
+  const event = tradeEvent({ ...state, journal }, command, executedAt);
+  const result = commitRewrite(state, [...opening, event], event.id, portfolio.id, 'این معامله');
+  // Margin portfolios are limited by leverage rather than budget
+  if (!result.ok || command.type === 'sell' || portfolio.margin) return result;
+  // What the buy still holds today has to fit in the portfolio's budget, like a buy made now
+  const after = findPortfolioRecursive(result.state.rootPortfolios, portfolio.id)!;
+  const overBudget = calculateUsedBudget(after) - after.allocation;
+  if (overBudget > AMOUNT_EPSILON && overBudget > calculateUsedBudget(portfolio) - portfolio.allocation + AMOUNT_EPSILON) {
+    return fail('INSUFFICIENT_BUDGET', `بودجه این سبد کافی نیست! بودجه باقی‌مانده: ${formatCurrency(Math.max(0, portfolio.allocation - calculateUsedBudget(portfolio)))}`);
+  }
+  return result;
+};
+
+// The instrument exists and the amount respects its lot size
+const validateInstrument = (state: AppState, instrumentId: string, amount: number): LedgerResult | null => {
+  const instrument = findInstrument(state.instruments, instrumentId);
+  if (!instrument) return fail('INSTRUMENT_NOT_FOUND', 'نماد مورد نظر یافت نشد.');
+  if (!isLotMultiple(amount, instrument.lotSize)) {
+    return fail('INVALID_AMOUNT', `مقدار ${instrument.symbol} باید مضربی از اندازه لات (${formatNumber(instrument.lotSize)}) باشد.`);
+  }
+  return null;
+};
+
+const tradeEvent = (state: AppState, command: TradeCommand, now: Date): JournalEvent => {
+  const { portfolioId, executedAt, ...tradeData } = command;
+  const trade: Trade = {
+    id: createEventId('tr', state.journal, now),
+    portfolioId,
+    timestamp: now.toISOString(),
+    assetName: findInstrument(state.instruments, command.instrumentId)!.name,
+    ...tradeData
+  };
+  return { id: trade.id, timestamp: trade.timestamp, type: 'trade', trade };
+};
+
+// Margin portfolios may borrow and sell short; the only limit is the leverage on equity.
+// The trade is replayed first so fees and the new price are part of the check.
+const applyMarginTrade = (state: AppState, command: TradeCommand, portfolio: Portfolio, now: Date): LedgerResult => {
+  if (command.lotId) {
+    const asset = portfolio.assets.find(a => a.instrumentId === command.instrumentId);
+    const closesLong = command.type === 'sell' && !!asset && asset.amount > 0;
+    if (!closesLong || !lotsOf(asset!).some(l => l.id === command.lotId)) return fail('LOT_NOT_FOUND', 'لات انتخاب شده یافت نشد.');
+  }
+
+  const event = tradeEvent(state, command, now);
+  const next = appendEvents(state, [event]).state;
+  const after = findPortfolioRecursive(next.rootPortfolios, portfolio.id);
+  if (!after || next.tradeHistory.some(t => t.liquidation && t.id.startsWith(`${event.id}-liq`))) {
+    return fail('MARGIN_EXCEEDED', 'این معامله حساب مارجین را زیر حد نگهداری می‌برد و باعث لیکوئید شدن می‌شود.');
+  }
+  if (exceedsLeverage(portfolio, after)) {
+    const { buyingPower } = calculateMarginMetrics(portfolio);
+    return fail('MARGIN_EXCEEDED', `سقف اهرم سبد اجازه این معامله را نمی‌دهد. قدرت خرید باقی‌مانده: ${formatCurrency(buyingPower)}`);
+  }
+  return { ok: true, state: next };
+};
+
+const deleteTrade = (state: AppState, tradeId: string, now: Date): LedgerResult => {
+  const trade = state.tradeHistory.find(t => t.id === tradeId);
+  if (!trade) return fail('TRADE_NOT_FOUND', 'معامله مورد نظر یافت نشد.');
+
+  // An order fill has no event of its own; deleting it removes the order that produced it
+  const targetId = trade.orderId || tradeId;
+  const voidEvent: JournalEvent = { id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'void', targetId };
+  const before = new Set(replayJournal(state.journal).issues.map(i => i.eventId));
+  const after = appendEvents(state, [voidEvent]);
+  if (after.issues.some(i => i.code === 'OVERSELL' && !before.has(i.eventId))) {
+    return fail('INSUFFICIENT_HOLDINGS', 'با حذف این معامله، فروش‌های بعدی بیشتر از موجودی خواهند شد. ابتدا آن فروش‌ها را حذف کنید.');
+  }
+  return { ok: true, state: after.state };
+};
+
+// The event that opened the account; a voided one was replaced by an earlier start
+const genesisOf = (journal: JournalEvent[]): (JournalEvent & { type: 'genesis' }) | undefined =>
+  journal.find((e): e is JournalEvent & { type: 'genesis' } => e.type === 'genesis' && !journal.some(v => v.type === 'void' && v.targetId === e.id));
+
+// What a journal's history already contains, so a rewrite is only held to what it makes worse
+interface JournalAudit {
+  issues: ReplayIssue[];
+  lowestCash: number; // Lowest cash balance the account reaches at any point
+  overLeveraged: string[]; // Trades that took their margin portfolio past its leverage limit
+}
+
+// Kept per journal, so the journal one rewrite commits is not replayed again to check the next
+const audits = new WeakMap<JournalEvent[], JournalAudit>();
+
+// Replays the journal once, collecting everything a rewrite is checked against along the way
+const auditJournal = (journal: JournalEvent[]): { audit: JournalAudit; projection: Projection } => {
+  const audit: JournalAudit = { issues: [], lowestCash: Infinity, overLeveraged: [] };
+  const projection = replaySteps(journal, (before, after, event) => {
+    audit.lowestCash = Math.min(audit.lowestCash, after.cash);
+    if (event.type !== 'trade') return;
+    const from = findPortfolioRecursive(before.rootPortfolios, event.trade.portfolioId);
+    const to = findPortfolioRecursive(after.rootPortfolios, event.trade.portfolioId);
+    if (from && to && exceedsLeverage(from, to)) audit.overLeveraged.push(event.id);
+  }, audit.issues);
+  audits.set(journal, audit);
+  return { audit, projection };
+};
+
+const auditOf = (journal: JournalEvent[]): JournalAudit => audits.get(journal) || auditJournal(journal).audit;
+
+// A trade's time may be back-dated, but not into the future or before the account was opened
+const validateTradeTime = (state: AppState, timestamp: string, now: Date): LedgerResult | null => {
+  const at = new Date(timestamp).getTime();
+  const genesis = genesisOf(state.journal);
+  if (!Number.isFinite(at)) return fail('INVALID_AMOUNT', 'تاریخ معامله نامعتبر است.');
+  if (at > now.getTime()) return fail('INVALID_AMOUNT', 'تاریخ معامله نمی‌تواند در آینده باشد.');
+  if (genesis && at < new Date(genesis.timestamp).getTime()) return fail('INVALID_AMOUNT', 'تاریخ معامله نمی‌تواند پیش از شروع حساب باشد.');
+  return null;
+};
+
+// Commits events that change the past (a back-dated or edited trade). Everything after them is replayed,
+// and no later trade may lose the holdings or cash it relied on. Margin portfolios get the checks a new
+// trade gets: no trade past the leverage limit, and no liquidation set off (a trade's price reprices the
+// instrument, so that holds whatever portfolio the trade is in). `change` names the rewrite in messages.
+const commitRewrite = (state: AppState, events: JournalEvent[], tradeId: string, portfolioId: string, change: string): LedgerResult => {
+  const before = auditOf(state.journal);
+  const journal = [...state.journal, ...events];
+  const { audit, projection } = auditJournal(journal);
+  const after: AppState = { ...state, ...projection, journal };
+  const fresh = audit.issues.filter(i => !before.issues.some(b => b.eventId === i.eventId && b.code === i.code));
+  if (fresh.some(i => i.code === 'PORTFOLIO_MISSING')) return fail('PORTFOLIO_NOT_FOUND', 'سبد معامله در این تاریخ هنوز وجود نداشت.');
+  const oversell = fresh.find(i => i.code === 'OVERSELL');
+  if (oversell) {
+    const sell = after.tradeHistory.find(t => t.id === oversell.eventId);
+    return fail('INSUFFICIENT_HOLDINGS', !sell || sell.id === tradeId
+      ? 'در این تاریخ موجودی کافی برای این فروش وجود ندارد.'
+      : `با ${change}، فروش ${sell.assetName} در ${new Date(sell.timestamp).toLocaleDateString('fa-IR')} بیشتر از موجودی می‌شود. ابتدا آن فروش را ویرایش یا حذف کنید.`);
+  }
+  const trade = after.tradeHistory.find(t => t.id === tradeId);
+  if (!trade) {
+    // Only an order fill can drop out: the replayed order was rejected when it triggered
+    const orderId = state.tradeHistory.find(t => t.id === tradeId)?.orderId;
+    const order = after.orders.find(o => o.id === orderId);
+    return fail('ORDER_REJECTED', `با ${change}، سفارش این معامله هنگام اجرا رد می‌شود${order?.note ? `: ${order.note}` : '.'}`);
+  }
+  const liquidated = state.tradeHistory.filter(t => t.liquidation).map(t => t.id);
+  if (after.tradeHistory.some(t => t.liquidation && !liquidated.includes(t.id))) {
+    return fail('MARGIN_EXCEEDED', `با ${change}، حساب مارجین در مقطعی زیر حد نگهداری می‌رود و لیکوئید می‌شود.`);
+  }
+
+  const breach = audit.overLeveraged.find(id => !before.overLeveraged.includes(id));
+  if (breach) {
+    const later = after.tradeHistory.find(t => t.id === breach);
+    return fail('MARGIN_EXCEEDED', !later || later.id === tradeId
+      ? `با ${change}، سقف اهرم سبد در زمان معامله رعایت نمی‌شود.`
+      : `با ${change}، معامله ${later.assetName} در ${new Date(later.timestamp).toLocaleDateString('fa-IR')} از سقف اهرم سبد بیشتر می‌شود.`);
+  }
+  const margin = !!findPortfolioRecursive(after.rootPortfolios, portfolioId)?.margin;
+  if (!margin && audit.lowestCash < Math.min(0, before.lowestCash) - AMOUNT_EPSILON) {
+    return fail('INSUFFICIENT_CASH', `با ${change}، موجودی نقد حساب در مقطعی منفی می‌شود.`);
+  }
+  return { ok: true, state: after };
+};
+
+// Rewrites a trade in place, time included, and replays everything after it. An order fill stays tied to
+// its order: only its price, fee and rate can be corrected, so the order (and any OCO it cancelled) holds.
+const editTrade = (state: AppState, tradeId: string, input: TradeEdit, now: Date): LedgerResult => {
+  const trade = state.tradeHistory.find(t => t.id === tradeId);
+  if (!trade) return fail('TRADE_NOT_FOUND', 'معامله مورد نظر یافت نشد.');
+  if (!trade.orderId && !state.journal.some(e => e.type === 'trade' && e.id === tradeId)) {
+    return fail('TRADE_NOT_EDITABLE', 'این معامله خودکار ثبت شده است (مثلاً لیکوئید)؛ معامله‌ای را که باعث آن شد ویرایش کنید.');
+  }
+
+  const portfolio = findPortfolioRecursive(state.rootPortfolios, input.portfolioId);
+  if (!portfolio) return fail('PORTFOLIO_NOT_FOUND', 'سبد مورد نظر یافت نشد.');
+  if (!(input.amount > 0) || !(input.price >= 0) || !(input.fee >= 0)) {
+    return fail('INVALID_AMOUNT', 'مقدار، قیمت یا کارمزد معامله نامعتبر است.');
+  }
+  const unknown = validateInstrument(state, input.instrumentId, input.amount);
+  if (unknown) return unknown;
+  if (input.currency && input.currency !== BASE_CURRENCY) {
+    if (!state.currencies.some(c => c.code === input.currency)) return fail('CURRENCY_NOT_FOUND', 'ارز معامله تعریف نشده است.');
+    if (!(input.fxRate! > 0)) return fail('INVALID_AMOUNT', 'نرخ تبدیل ارز معامله نامعتبر است.');
+  }
+  if (input.lotId && input.type === 'buy') return fail('INVALID_AMOUNT', 'انتخاب لات فقط برای فروش ممکن است.');
+  if (trade.orderId && (
+    input.type !== trade.type || input.portfolioId !== trade.portfolioId || input.instrumentId !== trade.instrumentId ||
+    Math.abs(input.amount - trade.amount) > AMOUNT_EPSILON || new Date(input.timestamp).getTime() !== new Date(trade.timestamp).getTime()
+  )) {
+    return fail('TRADE_NOT_EDITABLE', 'زمان، مقدار، نوع، سبد و نماد اجرای سفارش به خود سفارش بسته است؛ فقط قیمت، کارمزد و نرخ تبدیل آن قابل ویرایش است.');
+  }
+  const invalidTime = validateTradeTime(state, input.timestamp, now);
+  if (invalidTime) return invalidTime;
+
+  // Results (realized PnL, cost basis) are worked out again on replay
+  const { realizedPnl, costBasis, orderId, ...kept } = trade;
+  const { executedAt, ...fields } = input;
+  const edited: Trade = {
+    ...kept,
+    ...fields,
+    assetName: findInstrument(state.instruments, input.instrumentId)!.name,
+    timestamp: new Date(input.timestamp).toISOString(),
+    lotId: input.lotId,
+    currency: input.currency,
+    fxRate: input.currency && input.currency !== BASE_CURRENCY ? input.fxRate : undefined
+  };
+  const event: JournalEvent = { id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'tradeEdit', tradeId, trade: edited };
+  return commitRewrite(state, [event], tradeId, portfolio.id, 'این ویرایش');
+};
+
+// --- Orders ---
+
+const validateOrder = (state: AppState, portfolioId: string, order: Pick<OrderInput, 'side' | 'instrumentId' | 'amount' | 'triggerPrice' | 'feeValue'>): LedgerResult | null => {
+  const portfolio = findPortfolioRecursive(state.rootPortfolios, portfolioId);
+  if (!portfolio) return fail('PORTFOLIO_NOT_FOUND', 'سبد مورد نظر یافت نشد.');
+  if (!(order.amount > 0) || !(order.triggerPrice > 0) || !(order.feeValue >= 0)) {
+    return fail('INVALID_AMOUNT', 'مقدار، قیمت یا کارمزد سفارش نامعتبر است.');
+  }
+  const unknown = validateInstrument(state, order.instrumentId, order.amount);
+  if (unknown) return unknown;
+  if (portfolio.margin) return null; // Leverage is checked when the order fills
+
+  if (order.side === 'sell') {
+    const held = portfolio.assets.find(a => a.instrumentId === order.instrumentId)?.amount || 0;
+    if (held + AMOUNT_EPSILON < order.amount) return fail('INSUFFICIENT_HOLDINGS', 'موجودی دارایی برای این سفارش کافی نیست!');
+  } else if (order.amount * order.triggerPrice > state.cash) {
+    return fail('INSUFFICIENT_CASH', 'موجودی نقد برای این سفارش کافی نیست!');
+  }
+  return null;
+};
+
+const placeOrder = (state: AppState, command: PlaceOrderCommand, now: Date): LedgerResult => {
+  const { type, portfolioId, ...input } = command;
+  const invalid = validateOrder(state, portfolioId, input);
+  if (invalid) return invalid;
+
+  const assetName = findInstrument(state.instruments, input.instrumentId)!.name;
+  const order: Order = { ...input, assetName, id: createEventId('ord', state.journal, now), portfolioId, status: 'open', createdAt: now.toISOString() };
+  return commit(state, [{ id: order.id, timestamp: order.createdAt, type: 'orderPlace', order }]);
+};
+
+const placeOco = (state: AppState, command: PlaceOcoCommand, now: Date): LedgerResult => {
+  const { portfolioId, instrumentId, amount, stopPrice, takeProfitPrice, feeType, feeValue } = command;
+  if (!(stopPrice < takeProfitPrice)) return fail('INVALID_AMOUNT', 'قیمت حد ضرر باید کمتر از قیمت حد سود باشد.');
+  const invalid = validateOrder(state, portfolioId, { side: 'sell', instrumentId, amount, triggerPrice: stopPrice, feeValue });
+  if (invalid) return invalid;
+
+  const ocoGroupId = createEventId('oco', state.journal, now);
+  const assetName = findInstrument(state.instruments, instrumentId)!.name;
+  const base = { side: 'sell' as const, instrumentId, assetName, amount, feeType, feeValue, portfolioId, ocoGroupId, status: 'open' as const, createdAt: now.toISOString() };
+  const stop: Order = { ...base, id: `${ocoGroupId}-sl`, kind: 'stop', triggerPrice: stopPrice };
+  const takeProfit: Order = { ...base, id: `${ocoGroupId}-tp`, kind: 'takeProfit', triggerPrice: takeProfitPrice };
+  return commit(state, [
+    { id: stop.id, timestamp: stop.createdAt, type: 'orderPlace', order: stop },
+    { id: takeProfit.id, timestamp: takeProfit.createdAt, type: 'orderPlace', order: takeProfit }
+  ]);
+};
+
+const findOpenOrder = (state: AppState, orderId: string): Order | null =>
+  state.orders.find(o => o.id === orderId && o.status === 'open') || null;
+
+const modifyOrder = (state: AppState, orderId: string, amount: number, triggerPrice: number, now: Date): LedgerResult => {
+  const order = findOpenOrder(state, orderId);
+  if (!order) return fail('ORDER_NOT_FOUND', 'سفارش باز مورد نظر یافت نشد.');
+  const invalid = validateOrder(state, order.portfolioId, { ...order, amount, triggerPrice });
+  if (invalid) return invalid;
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'orderModify', orderId, amount, triggerPrice }]);
+};
+
+const cancelOrder = (state: AppState, orderId: string, now: Date): LedgerResult => {
+  if (!findOpenOrder(state, orderId)) return fail('ORDER_NOT_FOUND', 'سفارش باز مورد نظر یافت نشد.');
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'orderCancel', orderId }]);
+};
+
+const deposit = (state: AppState, amount: number, note: string, currency: Currency, now: Date): LedgerResult => {
+  if (!Number.isFinite(amount) || amount === 0) return fail('INVALID_AMOUNT', 'مبلغ تراکنش نامعتبر است.');
+  if (!(rateOf(state.currencies, currency) > 0)) return fail('CURRENCY_NOT_FOUND', 'ارز انتخاب شده تعریف نشده است.');
+  if (amount < 0) return withdraw(state, -amount, note, currency, now);
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'cash', kind: 'deposit', amount, note, ...currencyField(currency) }]);
+};
+
+const withdraw = (state: AppState, amount: number, note: string, currency: Currency, now: Date): LedgerResult => {
+  if (!Number.isFinite(amount) || amount <= 0) return fail('INVALID_AMOUNT', 'مبلغ تراکنش نامعتبر است.');
+  const info = state.currencies.find(c => c.code === currency);
+  if (!info) return fail('CURRENCY_NOT_FOUND', 'ارز انتخاب شده تعریف نشده است.');
+  const balance = state.cashBalances[currency] || 0;
+  if (amount > balance) {
+    return fail('INSUFFICIENT_CASH', `موجودی ${info.name} کافی نیست. موجودی: ${formatNumber(balance)} ${info.symbol}`);
+  }
+  const freeCash = calculateFreeCash(state.cash, state.rootPortfolios);
+  if (amount * info.rate > freeCash) {
+    return fail('INSUFFICIENT_CASH', `مبلغ برداشت بیشتر از نقدینگی آزاد است. نقدینگی آزاد (پس از کسر بودجه سبدها): ${formatCurrency(freeCash)}`);
+  }
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'cash', kind: 'withdrawal', amount: -amount, note, ...currencyField(currency) }]);
+};
+
+// Base-currency cash events leave the field out, as they always have
+const currencyField = (currency: Currency): { currency?: Currency } => currency === BASE_CURRENCY ? {} : { currency };
+
+const chargeFee = (state: AppState, amount: number, note: string, now: Date): LedgerResult => {
+  if (!Number.isFinite(amount) || amount <= 0) return fail('INVALID_AMOUNT', 'مبلغ کارمزد نامعتبر است.');
+  if (amount > (state.cashBalances[BASE_CURRENCY] || 0)) return fail('INSUFFICIENT_CASH', 'موجودی نقد تومانی کافی نیست!');
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'cash', kind: 'fee', amount: -amount, note }]);
+};
+
+const updatePrice = (state: AppState, assetId: string, price: number, now: Date): LedgerResult => {
+  if (!Number.isFinite(price) || price < 0) return fail('INVALID_AMOUNT', 'قیمت وارد شده نامعتبر است.');
+  const portfolio = flattenPortfolios(state.rootPortfolios).find(p => p.assets.some(a => a.id === assetId));
+  if (!portfolio) return fail('ASSET_NOT_FOUND', 'دارایی مورد نظر یافت نشد.');
+
+  const asset = portfolio.assets.find(a => a.id === assetId)!;
+  return commit(state, [{
+    id: createEventId('ev', state.journal, now),
+    timestamp: now.toISOString(),
+    type: 'assetPrice',
+    portfolioId: portfolio.id,
+    instrumentId: asset.instrumentId,
+    assetName: asset.name,
+    price
+  }]);
+};
+
+// Shared checks for every entry written to the rate timeline
+const validateRate = (state: AppState, currency: Currency, rate: number, effectiveAt: string, now: Date): LedgerResult | null => {
+  if (currency === BASE_CURRENCY) return fail('INVALID_AMOUNT', 'نرخ ارز پایه قابل تغییر نیست.');
+  if (!state.currencies.some(c => c.code === currency)) return fail('CURRENCY_NOT_FOUND', 'ارز انتخاب شده تعریف نشده است.');
+  if (!Number.isFinite(rate) || rate <= 0) return fail('INVALID_AMOUNT', 'قیمت وارد شده نامعتبر است.');
+  const at = new Date(effectiveAt).getTime();
+  if (isNaN(at)) return fail('INVALID_AMOUNT', 'تاریخ نرخ نامعتبر است.');
+  if (at > now.getTime()) return fail('INVALID_AMOUNT', 'تاریخ نرخ نمی‌تواند در آینده باشد.');
+  return null;
+};
+
+const setFxRate = (state: AppState, currency: Currency, rate: number, effectiveAt: string | undefined, now: Date): LedgerResult => {
+  const invalid = validateRate(state, currency, rate, effectiveAt || now.toISOString(), now);
+  if (invalid) return invalid;
+  return commit(state, [{
+    id: createEventId('ev', state.journal, now),
+    timestamp: now.toISOString(),
+    type: 'fxRate',
+    currency,
+    rate,
+    ...(effectiveAt ? { effectiveAt: new Date(effectiveAt).toISOString() } : {})
+  }]);
+};
+
+const editFxRate = (state: AppState, currency: Currency, originalAt: string, effectiveAt: string, rate: number, now: Date): LedgerResult => {
+  const original = new Date(originalAt).getTime();
+  if (!state.fxRateHistory.some(r => r.currency === currency && new Date(r.timestamp).getTime() === original)) {
+    return fail('FX_RATE_NOT_FOUND', 'نرخ مورد نظر در تاریخچه یافت نشد.');
+  }
+  const invalid = validateRate(state, currency, rate, effectiveAt, now);
+  if (invalid) return invalid;
+  return commit(state, [{
+    id: createEventId('ev', state.journal, now),
+    timestamp: now.toISOString(),
+    type: 'fxRate',
+    currency,
+    rate,
+    effectiveAt: new Date(effectiveAt).toISOString(),
+    replaces: originalAt
+  }]);
+};
+
+// The whole batch is recorded as one event, so an import is all-or-nothing
+const importFxRates = (state: AppState, currency: Currency, rates: { timestamp: string; rate: number }[], now: Date): LedgerResult => {
+  if (rates.length === 0) return fail('INVALID_AMOUNT', 'هیچ نرخی برای ورود یافت نشد.');
+  for (let i = 0; i < rates.length; i++) {
+    const invalid = validateRate(state, currency, rates[i].rate, rates[i].timestamp, now);
+    if (invalid && invalid.ok === false) return fail(invalid.error.code, `ردیف ${formatNumber(i + 1)}: ${invalid.error.message}`);
+  }
+  return commit(state, [{
+    id: createEventId('ev', state.journal, now),
+    timestamp: now.toISOString(),
+    type: 'fxRateImport',
+    currency,
+    rates: rates.map(r => ({ timestamp: new Date(r.timestamp).toISOString(), rate: r.rate }))
+  }]);
+};
+
+const addCurrency = (state: AppState, code: Currency, name: string, symbol: string, rate: number, now: Date): LedgerResult => {
+  const normalized = code.trim().toLowerCase();
+  if (!normalized || !name) return fail('INVALID_AMOUNT', 'کد و نام ارز الزامی است.');
+  if (state.currencies.some(c => c.code === normalized)) return fail('INVALID_AMOUNT', 'این ارز قبلاً تعریف شده است.');
+  if (!Number.isFinite(rate) || rate <= 0) return fail('INVALID_AMOUNT', 'نرخ وارد شده نامعتبر است.');
+  return commit(state, [{
+    id: createEventId('ev', state.journal, now),
+    timestamp: now.toISOString(),
+    type: 'currencyAdd',
+    currency: { code: normalized, name, symbol: symbol || normalized.toUpperCase(), rate }
+  }]);
+};
+
+const convertCurrency = (state: AppState, from: Currency, to: Currency, amount: number, now: Date): LedgerResult => {
+  if (from === to) return fail('INVALID_AMOUNT', 'ارز مبدا و مقصد یکسان است.');
+  const fromRate = rateOf(state.currencies, from);
+  const toRate = rateOf(state.currencies, to);
+  if (!(fromRate > 0) || !(toRate > 0)) return fail('CURRENCY_NOT_FOUND', 'ارز انتخاب شده تعریف نشده است.');
+  if (!Number.isFinite(amount) || amount <= 0) return fail('INVALID_AMOUNT', 'مبلغ تبدیل نامعتبر است.');
+  const balance = state.cashBalances[from] || 0;
+  if (amount > balance) {
+    const info = findCurrency(state.currencies, from);
+    return fail('INSUFFICIENT_CASH', `موجودی ${info.name} کافی نیست. موجودی: ${formatNumber(balance)} ${info.symbol}`);
+  }
+  return commit(state, [{
+    id: createEventId('ev', state.journal, now),
+    timestamp: now.toISOString(),
+    type: 'fxConvert',
+    from,
+    to,
+    amount,
+    received: amount * fromRate / toRate
+  }]);
+};
+
+const addPortfolio = (
+  state: AppState,
+  parentId: string | null,
+  name: string,
+  allocation: number,
+  costBasisMethod: CostBasisMethod | undefined,
+  now: Date
+): LedgerResult => {
+  if (!name) return fail('INVALID_AMOUNT', 'نام سبد الزامی است.');
+  if (!Number.isFinite(allocation) || allocation < 0) return fail('INVALID_AMOUNT', 'بودجه وارد شده نامعتبر است.');
+
+  if (parentId !== null && !findPortfolioRecursive(state.rootPortfolios, parentId)) return fail('PORTFOLIO_NOT_FOUND', 'سبد والد یافت نشد.');
+
+  return commit(state, [{
+    id: createEventId('ev', state.journal, now),
+    timestamp: now.toISOString(),
+    type: 'portfolioAdd',
+    parentId,
+    portfolioId: `p-${now.getTime()}`,
+    name,
+    allocation,
+    costBasisMethod
+  }]);
+};
+
+// Parent of a portfolio, or null for a root portfolio
+const parentIdOf = (state: AppState, portfolioId: string): string | null =>
+  findPortfolioPath(state.rootPortfolios, portfolioId).slice(-2, -1)[0]?.id ?? null;
+
+const transfer = (state: AppState, input: TransferInput, now: Date): LedgerResult => {
+  const from = findPortfolioRecursive(state.rootPortfolios, input.fromPortfolioId);
+  const to = findPortfolioRecursive(state.rootPortfolios, input.toPortfolioId);
+  if (!from || !to) return fail('PORTFOLIO_NOT_FOUND', 'سبد مبدا یا مقصد یافت نشد.');
+  if (from.id === to.id) return fail('INVALID_AMOUNT', 'سبد مبدا و مقصد نمی‌توانند یکی باشند.');
+  if (!(input.amount > 0)) return fail('INVALID_AMOUNT', 'مقدار انتقال باید بیشتر از صفر باشد.');
+
+  const freeBudget = (p: Portfolio) => p.allocation - calculateUsedBudget(p);
+  if (input.kind === 'budget') {
+    if (input.amount > freeBudget(from) + AMOUNT_EPSILON) {
+      return fail('ALLOCATION_EXCEEDED', `بودجه آزاد سبد مبدا (${formatCurrency(Math.max(0, freeBudget(from)))}) برای این انتقال کافی نیست.`);
+    }
+  } else {
+    const instrument = findInstrument(state.instruments, input.instrumentId);
+    if (!instrument) return fail('INSTRUMENT_NOT_FOUND', 'نماد مورد نظر یافت نشد.');
+    const source = from.assets.find(a => a.instrumentId === instrument.id);
+    if (!source || source.amount <= 0) return fail('INSUFFICIENT_HOLDINGS', `سبد مبدا موقعیت خریدی از ${instrument.symbol} ندارد.`);
+    if (input.amount > source.amount + AMOUNT_EPSILON) return fail('INSUFFICIENT_HOLDINGS', `موجودی ${instrument.symbol} در سبد مبدا کافی نیست.`);
+    if (!isLotMultiple(input.amount, instrument.lotSize)) {
+      return fail('INVALID_AMOUNT', `مقدار ${instrument.symbol} باید مضربی از اندازه لات (${formatNumber(instrument.lotSize)}) باشد.`);
+    }
+    // Without its budget, the moved cost has to fit in what the destination has left
+    const { cost } = consumeLots(lotsOf(source), input.amount, from.costBasisMethod || 'average');
+    if (!input.withBudget && !to.margin && cost > freeBudget(to) + AMOUNT_EPSILON) {
+      return fail('INSUFFICIENT_BUDGET', `بودجه سبد مقصد کافی نیست! بودجه باقی‌مانده: ${formatCurrency(Math.max(0, freeBudget(to)))}`);
+    }
+  }
+
+  return commit(state, [{
+    id: createEventId('ev', state.journal, now),
+    timestamp: now.toISOString(),
+    type: 'transfer',
+    transfer: { ...input, id: createEventId('xfer', state.journal, now), timestamp: now.toISOString(), note: input.note?.trim() || undefined }
+  }]);
+};
+
+// Undoes a transfer as if it never happened, unless later sales depend on the moved units
+const cancelTransfer = (state: AppState, transferId: string, now: Date): LedgerResult => {
+  const event = state.journal.find(e => e.type === 'transfer' && e.transfer.id === transferId);
+  if (!event || !state.transfers.some(t => t.id === transferId)) return fail('TRANSFER_NOT_FOUND', 'انتقال مورد نظر یافت نشد.');
+  const voidEvent: JournalEvent = { id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'void', targetId: event.id };
+  const before = new Set(replayJournal(state.journal).issues.map(i => i.eventId));
+  const after = appendEvents(state, [voidEvent]);
+  if (after.issues.some(i => i.code === 'OVERSELL' && !before.has(i.eventId))) {
+    return fail('INSUFFICIENT_HOLDINGS', 'با لغو این انتقال، فروش‌های بعدی سبد مقصد بیشتر از موجودی خواهند شد.');
+  }
+  return { ok: true, state: after.state };
+};
+
+const editPortfolio = (
+  state: AppState,
+  portfolioId: string,
+  name: string,
+  allocation: number,
+  costBasisMethod: CostBasisMethod | undefined,
+  now: Date
+): LedgerResult => {
+  if (!findPortfolioRecursive(state.rootPortfolios, portfolioId)) return fail('PORTFOLIO_NOT_FOUND', 'سبد مورد نظر یافت نشد.');
+  if (!name) return fail('INVALID_AMOUNT', 'نام سبد الزامی است.');
+  if (!Number.isFinite(allocation) || allocation < 0) return fail('INVALID_AMOUNT', 'بودجه وارد شده نامعتبر است.');
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'portfolioEdit', portfolioId, name, allocation, costBasisMethod }]);
+};
+
+// Sets several budgets at once, e.g. a repair from the health check that only holds as a whole
+const setAllocations = (state: AppState, changes: AllocationChange[], now: Date): LedgerResult => {
+  if (changes.length === 0) return fail('INVALID_AMOUNT', 'تغییری برای ثبت وجود ندارد.');
+  if (changes.some(c => !findPortfolioRecursive(state.rootPortfolios, c.portfolioId))) return fail('PORTFOLIO_NOT_FOUND', 'سبد مورد نظر یافت نشد.');
+  if (changes.some(c => !Number.isFinite(c.allocation) || c.allocation < 0)) return fail('INVALID_AMOUNT', 'بودجه وارد شده نامعتبر است.');
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'portfolioAllocations', changes }]);
+};
+
+// --- Instruments ---
+
+// Recorded as one event, so an import is all-or-nothing
+const importPrices = (state: AppState, instrumentId: string, prices: { timestamp: string; price: number }[], now: Date): LedgerResult => {
+  if (!findInstrument(state.instruments, instrumentId)) return fail('INSTRUMENT_NOT_FOUND', 'نماد مورد نظر یافت نشد.');
+  if (prices.length === 0) return fail('INVALID_AMOUNT', 'هیچ قیمتی برای ورود یافت نشد.');
+  for (let i = 0; i < prices.length; i++) {
+    const at = new Date(prices[i].timestamp).getTime();
+    if (!(prices[i].price > 0) || isNaN(at)) return fail('INVALID_AMOUNT', `ردیف ${formatNumber(i + 1)}: تاریخ یا قیمت نامعتبر است.`);
+    if (at > now.getTime()) return fail('INVALID_AMOUNT', `ردیف ${formatNumber(i + 1)}: تاریخ قیمت نمی‌تواند در آینده باشد.`);
+  }
+  return commit(state, [{
+    id: createEventId('ev', state.journal, now),
+    timestamp: now.toISOString(),
+    type: 'priceImport',
+    instrumentId,
+    prices: prices.map(p => ({ timestamp: new Date(p.timestamp).toISOString(), price: p.price }))
+  }]);
+};
+
+// Quotes that repeat the last known price are dropped so an idle feed does not grow the journal
+const applyQuotes = (state: AppState, providerId: string, quotes: { instrumentId: string; price: number }[], now: Date): LedgerResult => {
+  for (const q of quotes) {
+    const instrument = findInstrument(state.instruments, q.instrumentId);
+    if (!instrument) return fail('INSTRUMENT_NOT_FOUND', 'نماد مورد نظر یافت نشد.');
+    if (!(q.price > 0)) return fail('INVALID_AMOUNT', `قیمت دریافتی برای ${instrument.symbol} نامعتبر است.`);
+  }
+  const changed = quotes.filter(q => state.priceHistory[q.instrumentId]?.slice(-1)[0]?.price !== q.price);
+  if (changed.length === 0) return { ok: true, state };
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'marketQuotes', providerId, quotes: changed }]);
+};
+
+const validateInstrumentFields = (input: Omit<InstrumentInput, 'symbol'>, state: AppState): LedgerResult | null => {
+  if (!input.name.trim()) return fail('INVALID_AMOUNT', 'نام نماد الزامی است.');
+  if (!state.currencies.some(c => c.code === input.quoteCurrency)) return fail('CURRENCY_NOT_FOUND', 'ارز قیمت‌گذاری تعریف نشده است.');
+  if (!(input.lotSize >= 0)) return fail('INVALID_AMOUNT', 'اندازه لات نامعتبر است.');
+  if (!(Number.isInteger(input.pricePrecision) && input.pricePrecision >= 0 && input.pricePrecision <= 8)) {
+    return fail('INVALID_AMOUNT', 'دقت قیمت باید عددی صحیح بین ۰ تا ۸ باشد.');
+  }
+  return null;
+};
+
+const addInstrument = (state: AppState, input: InstrumentInput, now: Date): LedgerResult => {
+  const symbol = normalizeSymbol(input.symbol);
+  if (!symbol) return fail('INVALID_AMOUNT', 'نماد الزامی است.');
+  if (findInstrumentBySymbol(state.instruments, symbol)) return fail('DUPLICATE_SYMBOL', `نماد ${symbol} قبلاً ثبت شده است.`);
+  const invalid = validateInstrumentFields(input, state);
+  if (invalid) return invalid;
+  return commit(state, [{
+    id: createEventId('ev', state.journal, now),
+    timestamp: now.toISOString(),
+    type: 'instrumentAdd',
+    instrument: { ...input, id: createEventId('ins', state.journal, now), symbol, name: input.name.trim() }
+  }]);
+};
+
+const editInstrument = (state: AppState, instrumentId: string, input: Omit<InstrumentInput, 'symbol'>, now: Date): LedgerResult => {
+  const instrument = findInstrument(state.instruments, instrumentId);
+  if (!instrument) return fail('INSTRUMENT_NOT_FOUND', 'نماد مورد نظر یافت نشد.');
+  const invalid = validateInstrumentFields(input, state);
+  if (invalid) return invalid;
+  return commit(state, [{
+    id: createEventId('ev', state.journal, now),
+    timestamp: now.toISOString(),
+    type: 'instrumentEdit',
+    instrument: { ...instrument, ...input, name: input.name.trim() }
+  }]);
+};
+
+// --- Investment Plans ---
+
+const validatePlan = (state: AppState, portfolioId: string, input: PlanInput): LedgerResult | null => {
+  if (!findPortfolioRecursive(state.rootPortfolios, portfolioId)) return fail('PORTFOLIO_NOT_FOUND', 'سبد مورد نظر یافت نشد.');
+  if (!findInstrument(state.instruments, input.instrumentId)) return fail('INSTRUMENT_NOT_FOUND', 'نماد مورد نظر یافت نشد.');
+  if (!(input.amount > 0)) return fail('INVALID_AMOUNT', 'مبلغ هر خرید باید بیشتر از صفر باشد.');
+  if (!state.currencies.some(c => c.code === input.currency)) return fail('CURRENCY_NOT_FOUND', 'ارز برنامه تعریف نشده است.');
+  if (!PLAN_FREQUENCY_LABELS[input.frequency]) return fail('INVALID_AMOUNT', 'دوره تکرار نامعتبر است.');
+  const start = new Date(input.startDate).getTime();
+  if (isNaN(start)) return fail('INVALID_AMOUNT', 'تاریخ شروع نامعتبر است.');
+  if (input.endDate !== undefined) {
+    const end = new Date(input.endDate).getTime();
+    if (isNaN(end) || end < start) return fail('INVALID_AMOUNT', 'تاریخ پایان باید بعد از تاریخ شروع باشد.');
+  }
+  return null;
+};
+
+const addPlan = (state: AppState, portfolioId: string, input: PlanInput, now: Date): LedgerResult => {
+  const invalid = validatePlan(state, portfolioId, input);
+  if (invalid) return invalid;
+  const plan: InvestmentPlan = { ...input, id: createEventId('plan', state.journal, now), portfolioId };
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'planAdd', plan }]);
+};
+
+const editPlan = (state: AppState, planId: string, input: PlanInput, now: Date): LedgerResult => {
+  const plan = state.plans.find(p => p.id === planId);
+  if (!plan) return fail('PLAN_NOT_FOUND', 'برنامه مورد نظر یافت نشد.');
+  const invalid = validatePlan(state, plan.portfolioId, input);
+  if (invalid) return invalid;
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'planEdit', plan: { ...plan, ...input } }]);
+};
+
+const deletePlan = (state: AppState, planId: string, now: Date): LedgerResult => {
+  if (!state.plans.some(p => p.id === planId)) return fail('PLAN_NOT_FOUND', 'برنامه مورد نظر یافت نشد.');
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'planDelete', planId }]);
+};
+
+// Market price of an instrument at a moment: its price history, else what a holding is marked at
+const planPrice = (state: AppState, instrumentId: string, at: string): number | undefined =>
+  priceAt(state.priceHistory[instrumentId], at)
+  ?? flattenPortfolios(state.rootPortfolios).flatMap(p => p.assets).find(a => a.instrumentId === instrumentId)?.currentPrice;
+
+// Handles every due date that has passed, oldest first. A due date whose buy cannot go through
+// (no price, not enough cash or budget, below one lot) is recorded as skipped with the reason.
+// A buy that lands behind later events is checked along the timeline, like any back-dated trade.
+const runPlans = (state: AppState, now: Date): LedgerResult => {
+  const due = state.plans
+    .filter(plan => plan.active)
+    .flatMap(plan => pendingDueDates(plan, now).map(dueAt => ({ plan, dueAt })))
+    .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+  if (due.length === 0) return { ok: true, state };
+
+  let next = state;
+  const runs: JournalEvent[] = [];
+  for (const { plan, dueAt } of due) {
+    const at = new Date(dueAt);
+    const record = (outcome: { tradeId?: string; skipReason?: string }) => {
+      // Stamped with the check time: a due date can predate the plan itself, and the run must replay after it.
+      // Runs are appended once every buy is in, so they do not put the later buys behind them.
+      runs.push({ id: createEventId('ev', [...next.journal, ...runs], now), timestamp: now.toISOString(), type: 'planRun', planId: plan.id, dueAt, ...outcome });
+    };
+    const instrument = findInstrument(next.instruments, plan.instrumentId);
+    const price = planPrice(next, plan.instrumentId, dueAt);
+    const rate = plan.currency === BASE_CURRENCY ? 1 : rateAt(next.fxRateHistory, plan.currency, dueAt);
+    const invalidTime = validateTradeTime(next, dueAt, now);
+    if (invalidTime?.ok === false) {
+      record({ skipReason: invalidTime.error.message });
+      continue;
+    }
+    if (!instrument) {
+      record({ skipReason: 'نماد برنامه دیگر وجود ندارد.' });
+      continue;
+    }
+    if (!(price && price > 0)) {
+      record({ skipReason: `قیمتی برای ${instrument.symbol} در این تاریخ ثبت نشده است.` });
+      continue;
+    }
+    if (!(rate > 0)) {
+      record({ skipReason: 'نرخ ارز برنامه در این تاریخ مشخص نیست.' });
+      continue;
+    }
+    let amount = plan.amount * rate / price;
+    if (instrument.lotSize > 0) amount = Math.floor(amount / instrument.lotSize + AMOUNT_EPSILON) * instrument.lotSize;
+    if (!(amount > AMOUNT_EPSILON)) {
+      record({ skipReason: 'مبلغ برنامه برای خرید یک لات کافی نیست.' });
+      continue;
+    }
+    const command: TradeCommand = {
+      type: 'buy',
+      portfolioId: plan.portfolioId,
+      instrumentId: plan.instrumentId,
+      amount,
+      price,
+      totalValue: amount * price,
+      fee: 0,
+      ...(plan.currency !== BASE_CURRENCY ? { currency: plan.currency, fxRate: rate } : {})
+    };
+    const latest = next.journal.every(e => new Date(e.timestamp) <= at);
+    const result = latest ? applyTrade(next, command, at) : applyTrade(next, { ...command, executedAt: dueAt }, now);
+    if (result.ok === false) {
+      record({ skipReason: result.error.message });
+      continue;
+    }
+    const tradeId = result.state.journal.slice(next.journal.length).find(e => e.type === 'trade')?.id;
+    next = result.state;
+    record({ tradeId });
+  }
+  return commit(next, runs);
+};
+
+const deletePortfolio = (state: AppState, portfolioId: string, mergeInto: string | undefined, now: Date): LedgerResult => {
+  const portfolio = findPortfolioRecursive(state.rootPortfolios, portfolioId);
+  if (!portfolio) return fail('PORTFOLIO_NOT_FOUND', 'سبد مورد نظر یافت نشد.');
+  if (!mergeInto) return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'portfolioDelete', portfolioId }]);
+
+  const parentId = parentIdOf(state, portfolioId);
+  const siblings = parentId === null ? state.rootPortfolios : findPortfolioRecursive(state.rootPortfolios, parentId)!.children;
+  if (mergeInto !== parentId && !siblings.some(s => s.id === mergeInto && s.id !== portfolioId)) {
+    return fail('PORTFOLIO_NOT_FOUND', 'سبد را فقط می‌توان در سبد والد یا یک سبد هم‌سطح ادغام کرد.');
+  }
+  if (portfolio.assets.some(a => a.amount < 0)) return fail('MARGIN_EXCEEDED', 'ابتدا پوزیشن‌های شورت این سبد را ببندید.');
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'portfolioMerge', portfolioId, targetId: mergeInto }]);
+};
+
+const movePortfolio = (state: AppState, portfolioId: string, parentId: string | null, beforeId: string | undefined, now: Date): LedgerResult => {
+  const portfolio = findPortfolioRecursive(state.rootPortfolios, portfolioId);
+  if (!portfolio) return fail('PORTFOLIO_NOT_FOUND', 'سبد مورد نظر یافت نشد.');
+  if (parentId !== null) {
+    if (!findPortfolioRecursive(state.rootPortfolios, parentId)) return fail('PORTFOLIO_NOT_FOUND', 'سبد والد یافت نشد.');
+    if (findPortfolioPath(state.rootPortfolios, parentId).some(p => p.id === portfolioId)) {
+      return fail('INVALID_AMOUNT', 'یک سبد را نمی‌توان به زیرمجموعه خودش منتقل کرد.');
+    }
+  }
+  if (beforeId === portfolioId) beforeId = undefined;
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'portfolioMove', portfolioId, parentId, beforeId }]);
+};
+
+const STRUCTURAL_EVENTS: JournalEvent['type'][] = ['portfolioAdd', 'portfolioEdit', 'portfolioAllocations', 'portfolioDelete', 'portfolioMove', 'portfolioMerge'];
+
+// Latest edit of the tree that is still in effect, i.e. what undoStructure would revert
+export const lastStructuralEvent = (journal: JournalEvent[]): JournalEvent | undefined => {
+  const voided = new Set(journal.flatMap(e => e.type === 'void' ? [e.targetId] : []));
+  return [...journal].reverse().find(e => STRUCTURAL_EVENTS.includes(e.type) && !voided.has(e.id));
+};
+
+const undoStructure = (state: AppState, now: Date): LedgerResult => {
+  const target = lastStructuralEvent(state.journal);
+  if (!target) return fail('NOTHING_TO_UNDO', 'تغییری در ساختار سبدها برای بازگردانی نمانده است.');
+  const voidEvent: JournalEvent = { id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'void', targetId: target.id };
+  const before = new Set(replayJournal(state.journal).issues.map(i => i.eventId));
+  const after = appendEvents(state, [voidEvent]);
+  if (after.issues.some(i => !before.has(i.eventId))) {
+    return fail('INSUFFICIENT_HOLDINGS', 'معاملات یا انتقال‌های بعدی به این تغییر وابسته‌اند و بازگردانی آن ممکن نیست.');
+  }
+  return { ok: true, state: after.state };
+};
+
+const setMargin = (state: AppState, portfolioId: string, margin: MarginSettings | null, now: Date): LedgerResult => {
+  const portfolio = findPortfolioRecursive(state.rootPortfolios, portfolioId);
+  if (!portfolio) return fail('PORTFOLIO_NOT_FOUND', 'سبد مورد نظر یافت نشد.');
+
+  if (margin) {
+    if (!(margin.leverage >= 1 && margin.leverage <= 10)) return fail('INVALID_AMOUNT', 'اهرم باید بین ۱ تا ۱۰ باشد.');
+    if (!(margin.borrowRate >= 0)) return fail('INVALID_AMOUNT', 'نرخ بهره نامعتبر است.');
+    // Maintenance has to sit below the initial margin (1 / leverage), or every new position would be liquidated
+    if (!(margin.maintenanceMargin > 0 && margin.maintenanceMargin < 100 / margin.leverage)) {
+      return fail('INVALID_AMOUNT', `حد نگهداری باید بیشتر از صفر و کمتر از ${(100 / margin.leverage).toFixed(1)}٪ باشد.`);
+    }
+  } else if (portfolio.margin) {
+    const { borrowed } = calculateMarginMetrics(portfolio);
+    // Once every position is closed, a negative budget is just a realized loss, not a loan
+    if (portfolio.assets.some(a => a.amount < 0) || (portfolio.assets.length > 0 && borrowed > AMOUNT_EPSILON)) {
+      return fail('MARGIN_EXCEEDED', 'ابتدا پوزیشن‌های شورت و وام مارجین این سبد را تسویه کنید.');
+    }
+  }
+
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'portfolioMargin', portfolioId, margin }]);
+};
+
+const setTargets = (state: AppState, portfolioId: string, targets: PortfolioTargets | null, now: Date): LedgerResult => {
+  const portfolio = findPortfolioRecursive(state.rootPortfolios, portfolioId);
+  if (!portfolio) return fail('PORTFOLIO_NOT_FOUND', 'سبد مورد نظر یافت نشد.');
+
+  if (targets) {
+    if (Object.keys(targets.assets).some(id => !findInstrument(state.instruments, id))) return fail('INSTRUMENT_NOT_FOUND', 'نماد مورد نظر یافت نشد.');
+    if (Object.keys(targets.children).some(id => !portfolio.children.some(c => c.id === id))) return fail('PORTFOLIO_NOT_FOUND', 'وزن هدف فقط برای زیرسبدهای همین سبد تعیین می‌شود.');
+    const weights = [...Object.values(targets.assets), ...Object.values(targets.children)];
+    if (weights.some(w => !(w >= 0 && w <= 100))) return fail('INVALID_AMOUNT', 'وزن هدف باید بین ۰ تا ۱۰۰ درصد باشد.');
+    const sum = weights.reduce((total, w) => total + w, 0);
+    if (Math.abs(sum - 100) > 0.01) return fail('INVALID_AMOUNT', `جمع وزن‌های هدف باید ۱۰۰٪ باشد (اکنون ${sum.toFixed(2)}٪).`);
+  }
+
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'portfolioTargets', portfolioId, targets }]);
+};
+
+// --- Notes ---
+
+// Trimmed, without empty fields or duplicate tags; null when nothing is left
+const cleanNotes = (notes: TradeNotes): TradeNotes | null => {
+  const text = (value?: string) => value?.trim() || undefined;
+  const list = (values?: string[]) => {
+    const kept = (values || []).map(v => v.trim()).filter((v, i, all) => v && all.indexOf(v) === i);
+    return kept.length > 0 ? kept : undefined;
+  };
+  const [note, setup, emotion] = [text(notes.note), text(notes.setup), text(notes.emotion)];
+  const [tags, screenshots] = [list(notes.tags), list(notes.screenshots)];
+  const cleaned: TradeNotes = {
+    ...(note ? { note } : {}),
+    ...(setup ? { setup } : {}),
+    ...(emotion ? { emotion } : {}),
+    ...(tags ? { tags } : {}),
+    ...(screenshots ? { screenshots } : {})
+  };
+  return Object.keys(cleaned).length > 0 ? cleaned : null;
+};
+
+const setNotes = (state: AppState, target: 'trade' | 'position', targetId: string, notes: TradeNotes | null, now: Date): LedgerResult => {
+  if (target === 'trade' && !state.tradeHistory.some(t => t.id === targetId)) return fail('TRADE_NOT_FOUND', 'معامله مورد نظر یافت نشد.');
+  if (target === 'position' && !buildPositions(state.tradeHistory, now, state.transfers, state.instruments).some(p => p.id === targetId)) {
+    return fail('POSITION_NOT_FOUND', 'پوزیشن مورد نظر یافت نشد.');
+  }
+  const cleaned = notes && cleanNotes(notes);
+  if (cleaned?.screenshots?.some(link => !/^https?:\/\/\S+$/i.test(link))) return fail('INVALID_LINK', 'تصویرها باید پیوند http یا https باشند.');
+
+  return commit(state, [{ id: createEventId('ev', state.journal, now), timestamp: now.toISOString(), type: 'notes', target, targetId, notes: cleaned }]);
+};
+
+// Commands that set budgets directly must leave the allocation rules intact. Market moves, realized
+// results and undoing to an earlier tree can still break them; the health check reports those.
+const BUDGET_COMMANDS: LedgerCommand['type'][] = [
+  'addPortfolio', 'editPortfolio', 'setAllocations', 'deletePortfolio', 'movePortfolio', 'transfer', 'cancelTransfer'
+];
+
+// Pure entry point: never mutates `state`, never touches the UI
+export const applyCommand = (state: AppState, command: LedgerCommand, now: Date = new Date()): LedgerResult => {
+  const result = dispatchCommand(state, command, now);
+  if (result.ok === false || !BUDGET_COMMANDS.includes(command.type)) return result;
+  const broken = newAllocationIssue(checkAllocations(state.cash, state.rootPortfolios), checkAllocations(result.state.cash, result.state.rootPortfolios));
+  return broken ? fail('ALLOCATION_EXCEEDED', broken.message) : result;
+};
+
+const dispatchCommand = (state: AppState, command: LedgerCommand, now: Date): LedgerResult => {
+  switch (command.type) {
+    case 'buy':
+    case 'sell':
+      return applyTrade(state, command, now);
+    case 'deleteTrade':
+      return deleteTrade(state, command.tradeId, now);
+    case 'editTrade':
+      return editTrade(state, command.tradeId, command.trade, now);
+    case 'placeOrder':
+      return placeOrder(state, command, now);
+    case 'placeOco':
+      return placeOco(state, command, now);
+    case 'modifyOrder':
+      return modifyOrder(state, command.orderId, command.amount, command.triggerPrice, now);
+    case 'cancelOrder':
+      return cancelOrder(state, command.orderId, now);
+    case 'deposit':
+      return deposit(state, command.amount, command.note || '', command.currency || BASE_CURRENCY, now);
+    case 'withdraw':
+      return withdraw(state, command.amount, command.note || '', command.currency || BASE_CURRENCY, now);
+    case 'chargeFee':
+      return chargeFee(state, command.amount, command.note || '', now);
+    case 'priceUpdate':
+      return updatePrice(state, command.assetId, command.price, now);
+    case 'setTetherPrice':
+      return setFxRate(state, 'tether', command.price, undefined, now);
+    case 'setFxRate':
+      return setFxRate(state, command.currency, command.rate, command.effectiveAt, now);
+    case 'editFxRate':
+      return editFxRate(state, command.currency, command.originalAt, command.effectiveAt, command.rate, now);
+    case 'importFxRates':
+      return importFxRates(state, command.currency, command.rates, now);
+    case 'addCurrency':
+      return addCurrency(state, command.code, command.name, command.symbol, command.rate, now);
+    case 'convertCurrency':
+      return convertCurrency(state, command.from, command.to, command.amount, now);
+    case 'importPrices':
+      return importPrices(state, command.instrumentId, command.prices, now);
+    case 'addPlan': {
+      const { type, portfolioId, ...input } = command;
+      return addPlan(state, portfolioId, input, now);
+    }
+    case 'editPlan': {
+      const { type, planId, ...input } = command;
+      return editPlan(state, planId, input, now);
+    }
+    case 'deletePlan':
+      return deletePlan(state, command.planId, now);
+    case 'runPlans':
+      return runPlans(state, now);
+    case 'applyQuotes':
+      return applyQuotes(state, command.providerId, command.quotes, now);
+    case 'addInstrument': {
+      const { type, ...input } = command;
+      return addInstrument(state, input, now);
+    }
+    case 'editInstrument': {
+      const { type, instrumentId, ...input } = command;
+      return editInstrument(state, instrumentId, input, now);
+    }
+    case 'addPortfolio':
+      return addPortfolio(state, command.parentId, command.name, command.allocation, command.costBasisMethod, now);
+    case 'editPortfolio':
+      return editPortfolio(state, command.portfolioId, command.name, command.allocation, command.costBasisMethod, now);
+    case 'setAllocations':
+      return setAllocations(state, command.changes, now);
+    case 'deletePortfolio':
+      return deletePortfolio(state, command.portfolioId, command.mergeInto, now);
+    case 'movePortfolio':
+      return movePortfolio(state, command.portfolioId, command.parentId, command.beforeId, now);
+    case 'undoStructure':
+      return undoStructure(state, now);
+    case 'setMargin':
+      return setMargin(state, command.portfolioId, command.margin, now);
+    case 'transfer': {
+      const { type, ...input } = command;
+      return transfer(state, input, now);
+    }
+    case 'cancelTransfer':
+      return cancelTransfer(state, command.transferId, now);
+    case 'setTargets':
+      return setTargets(state, command.portfolioId, command.targets, now);
+    case 'setNotes':
+      return setNotes(state, command.target, command.targetId, command.notes, now);
+  }
+};
+
+// --- Position Processing ---
+// An asset transfer leaves its source position and joins the destination's at cost, so neither side realizes anything
+const transferMoves = (transfers: PortfolioTransfer[], instruments: Instrument[]): Trade[] =>
+  transfers.flatMap(t => {
+    if (t.kind !== 'asset' || !t.instrumentId || !t.cost) return [];
+    const move = {
+      instrumentId: t.instrumentId,
+      assetName: findInstrument(instruments, t.instrumentId)?.name || t.instrumentId,
+      amount: t.amount,
+      price: t.cost / t.amount,
+      totalValue: t.cost,
+      fee: 0,
+      timestamp: t.timestamp,
+      transferId: t.id
+    };
+    return [
+      { ...move, id: `${t.id}-out`, portfolioId: t.fromPortfolioId, type: 'sell' as const, costBasis: t.cost, realizedPnl: 0 },
+      { ...move, id: `${t.id}-in`, portfolioId: t.toPortfolioId, type: 'buy' as const }
+    ];
+  });
+
+export const buildPositions = (
+  tradeHistory: Trade[],
+  now: Date = new Date(),
+  transfers: PortfolioTransfer[] = [],
+  instruments: Instrument[] = [],
+  positionNotes: Record<string, TradeNotes> = {}
+): PositionView[] => {
+  const sortedTrades = [...tradeHistory, ...transferMoves(transfers, instruments)].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const positions: PositionView[] = [];
+  const openMap = new Map<string, PositionView>(); // Key: portfolioId + instrumentId
+  const remainingCost = new Map<string, number>(); // Cost basis still held, per open position
+
+  sortedTrades.forEach(trade => {
+    const key = `${trade.portfolioId}-${trade.instrumentId}`;
+    let position = openMap.get(key);
+
+    if (!position) {
+      // Start new position: a buy opens a long, a sell with nothing held opens a short
+      position = {
+        id: `pos-${trade.id}`,
+        instrumentId: trade.instrumentId,
+        assetName: trade.assetName,
+        portfolioId: trade.portfolioId,
+        status: 'OPEN',
+        side: trade.type === 'buy' ? 'LONG' : 'SHORT',
+        totalBuyAmount: 0,
+        remainingAmount: 0,
+        avgBuyPrice: 0,
+        totalCost: 0,
+        realizedPnl: 0,
+        trades: [],
+        startDate: trade.timestamp,
+        durationDays: 0
+      };
+      openMap.set(key, position);
+    }
+
+    position.trades.push(trade);
+    position.lastUpdateDate = trade.timestamp; // Track last activity
+
+    const opensPosition = (trade.type === 'buy') === (position.side === 'LONG');
+    if (opensPosition) {
+      position.totalCost += trade.totalValue;
+      position.remainingAmount += trade.amount;
+      position.totalBuyAmount += trade.amount;
+      remainingCost.set(key, (remainingCost.get(key) || 0) + trade.totalValue);
+    } else {
+      // The ledger already priced the close with the portfolio's cost-basis method
+      // Net PnL = Realized PnL - Fee
+      const closedAmount = Math.min(trade.amount, position.remainingAmount);
+      const costOfClosed = trade.costBasis ?? closedAmount * position.avgBuyPrice;
+      const fallbackPnl = position.side === 'LONG' ? trade.price * closedAmount - costOfClosed : costOfClosed - trade.price * closedAmount;
+      position.realizedPnl += (trade.realizedPnl ?? fallbackPnl) - trade.fee;
+      position.remainingAmount -= trade.amount;
+      remainingCost.set(key, (remainingCost.get(key) || 0) - costOfClosed);
+    }
+
+    // Average cost of what is still held (kept as-is once the position closes)
+    if (position.remainingAmount > AMOUNT_EPSILON) {
+      position.avgBuyPrice = (remainingCost.get(key) || 0) / position.remainingAmount;
+    } else {
+      // Close position if amount is negligible
+      const overshoot = -position.remainingAmount;
+      position.status = 'CLOSED';
+      position.remainingAmount = 0;
+      position.endDate = trade.timestamp;
+      positions.push({ ...position }); // Save closed position
+      openMap.delete(key); // Remove from open
+      remainingCost.delete(key);
+
+      // A margin trade larger than the position flips it: the excess opens the opposite side
+      if (overshoot > AMOUNT_EPSILON) {
+        const flipValue = overshoot * trade.price;
+        openMap.set(key, {
+          ...position,
+          id: `pos-${trade.id}-flip`,
+          status: 'OPEN',
+          side: position.side === 'LONG' ? 'SHORT' : 'LONG',
+          totalBuyAmount: overshoot,
+          remainingAmount: overshoot,
+          avgBuyPrice: trade.price,
+          totalCost: flipValue,
+          realizedPnl: 0,
+          trades: [trade],
+          startDate: trade.timestamp,
+          endDate: undefined
+        });
+        remainingCost.set(key, flipValue);
+      }
+    }
+  });
+
+  // Add remaining open positions
+  openMap.forEach(p => positions.push(p));
+
+  // Calculate Duration
+  return positions.map(p => {
+    const start = new Date(p.startDate);
+    const end = p.endDate ? new Date(p.endDate) : now;
+    const diffDays = Math.ceil(Math.abs(end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+    return { ...p, durationDays: diffDays, notes: positionNotes[p.id] };
+  }).sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime()); // Newest first
+};
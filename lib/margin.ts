@@ -0,0 +1,58 @@
+import { MarginSettings, Portfolio } from '../types';
+import { AMOUNT_EPSILON } from './costBasis';
+
+export const DEFAULT_MARGIN: MarginSettings = { leverage: 2, maintenanceMargin: 25, borrowRate: 24 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type MarginStatus = 'ok' | 'call' | 'liquidation';
+
+export interface MarginMetrics {
+  equity: number; // Own budget + unrealized PnL - unpaid interest
+  exposure: number; // Gross market value of long and short positions
+  borrowed: number; // Cash borrowed for longs + market value of shorts
+  buyingPower: number; // Extra exposure the leverage still allows
+  maintenanceRequirement: number; // Equity needed to avoid liquidation
+  status: MarginStatus;
+}
+
+// Margin applies to a portfolio's own assets; child portfolios only count through their allocation
+export const calculateMarginMetrics = (p: Portfolio): MarginMetrics => {
+  const settings = p.margin || DEFAULT_MARGIN;
+  const ownBudget = p.allocation - p.children.reduce((sum, c) => sum + c.allocation, 0);
+  const ownCash = ownBudget - p.assets.reduce((sum, a) => sum + a.amount * a.avgBuyPrice, 0);
+  const unrealized = p.assets.reduce((sum, a) => sum + a.amount * (a.currentPrice - a.avgBuyPrice), 0);
+  const exposure = p.assets.reduce((sum, a) => sum + Math.abs(a.amount) * a.currentPrice, 0);
+  const shortValue = p.assets.reduce((sum, a) => sum + (a.amount < 0 ? -a.amount * a.currentPrice : 0), 0);
+
+  const equity = ownBudget + unrealized - (p.accruedInterest || 0);
+  const maintenanceRequirement = exposure * (settings.maintenanceMargin / 100);
+  const status: MarginStatus = exposure > 0 && equity < maintenanceRequirement
+    ? 'liquidation'
+    : exposure > settings.leverage * equity ? 'call' : 'ok';
+
+  return {
+    equity,
+    exposure,
+    borrowed: Math.max(0, -ownCash) + shortValue,
+    buyingPower: Math.max(0, settings.leverage * equity - exposure),
+    maintenanceRequirement,
+    status
+  };
+};
+
+// Interest owed on the borrowed amount over the given period
+export const borrowCost = (p: Portfolio, fromIso: string, toIso: string): number => {
+  if (!p.margin) return 0;
+  const days = (new Date(toIso).getTime() - new Date(fromIso).getTime()) / DAY_MS;
+  if (!(days > 0)) return 0;
+  return calculateMarginMetrics(p).borrowed * (p.margin.borrowRate / 100) * (days / 365);
+};
+
+// A trade may not push exposure past the leverage limit; trades that reduce exposure are always allowed
+export const exceedsLeverage = (before: Portfolio, after: Portfolio): boolean => {
+  if (!after.margin) return false;
+  const prev = calculateMarginMetrics(before);
+  const next = calculateMarginMetrics(after);
+  return next.exposure > prev.exposure + AMOUNT_EPSILON && next.exposure > after.margin.leverage * next.equity + AMOUNT_EPSILON;
+};
@@ -0,0 +1,246 @@
+import { AppState, Instrument, Portfolio } from '../types';
+import { findInstrumentBySymbol } from './instruments';
+import { formatNumber } from './format';
+
+export interface Quote {
+  instrumentId: string;
+  price: number; // In Toman, like holdings and the price history; convert quotes in other currencies first
+}
+
+// What the feed knows about each instrument when it asks for the next tick
+export interface MarketSnapshot {
+  instrument: Instrument;
+  price?: number; // Last known price in Toman, if any
+}
+
+export interface ProviderTick {
+  quotes: Quote[];
+  done?: boolean; // The provider has nothing more to say; the feed stops
+}
+
+// A source of quotes. Real exchange adapters implement `next` with a network call.
+export interface PriceProvider {
+  id: string;
+  next: (market: MarketSnapshot[], now: Date) => Promise<ProviderTick>;
+}
+
+export interface ProviderField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  multiline?: boolean;
+  defaultValue?: string;
+}
+
+export type ProviderResult = { ok: true; provider: PriceProvider } | { ok: false; message: string };
+
+// Registered in PRICE_PROVIDERS; the UI renders `fields` as the settings form and passes their values to `create`
+export interface PriceProviderDefinition {
+  id: string;
+  name: string;
+  description: string;
+  fields: ProviderField[];
+  create: (config: Record<string, string>) => ProviderResult;
+}
+
+// Last price of every instrument: its newest recorded point, else what a holding is marked at
+export const buildMarketSnapshot = (state: Pick<AppState, 'instruments' | 'priceHistory' | 'rootPortfolios'>): MarketSnapshot[] => {
+  const held = new Map<string, number>();
+  const collect = (list: Portfolio[]) => list.forEach(p => {
+    p.assets.forEach(a => { if (a.currentPrice > 0) held.set(a.instrumentId, a.currentPrice); });
+    collect(p.children);
+  });
+  collect(state.rootPortfolios);
+  return state.instruments.map(instrument => ({
+    instrument,
+    price: state.priceHistory[instrument.id]?.slice(-1)[0]?.price ?? held.get(instrument.id)
+  }));
+};
+
+// --- Random walk ---
+
+// Small seeded PRNG (mulberry32) so the same seed always produces the same path
+const seededRandom = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const roundTo = (value: number, precision: number): number => {
+  const factor = Math.pow(10, Math.max(0, precision));
+  return Math.round(value * factor) / factor;
+};
+
+// Geometric random walk from each instrument's last price; instruments without a price are skipped
+export const createRandomWalkProvider = (seed: number, volatilityPercent: number, driftPercent = 0): PriceProvider => {
+  const random = seededRandom(seed);
+  const sigma = volatilityPercent / 100;
+  const mu = driftPercent / 100;
+  return {
+    id: 'random-walk',
+    next: async (market) => {
+      const quotes = [...market]
+        .filter(m => m.price !== undefined && m.price > 0)
+        .sort((a, b) => a.instrument.id.localeCompare(b.instrument.id)) // Stable draw order keeps runs reproducible
+        .map(m => {
+          // Box-Muller: one standard normal draw per instrument and tick
+          const z = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+          const price = roundTo(m.price! * Math.exp(mu - sigma * sigma / 2 + sigma * z), m.instrument.pricePrecision);
+          return { instrumentId: m.instrument.id, price: price > 0 ? price : m.price! };
+        });
+      return { quotes };
+    }
+  };
+};
+
+// --- File replay ---
+
+export interface ReplaySeries {
+  symbol: string;
+  prices: number[];
+}
+
+// Accepts JSON ({"BTC": [1, 2], ...} or [{"symbol": "BTC", "price": 1}, ...])
+// or CSV lines of `symbol,price` / `timestamp,symbol,price`. Each symbol's prices are replayed in file order.
+export const parseReplayFile = (text: string): { series: ReplaySeries[]; badLines: number[] } => {
+  const bySymbol = new Map<string, number[]>();
+  const push = (symbol: string, price: number) => bySymbol.set(symbol, [...(bySymbol.get(symbol) || []), price]);
+  const badLines: number[] = [];
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      const data = JSON.parse(trimmed);
+      const rows: { symbol: unknown; price: unknown }[] = Array.isArray(data)
+        ? data
+        : Object.entries(data).flatMap(([symbol, prices]) => (Array.isArray(prices) ? prices : [prices]).map(price => ({ symbol, price })));
+      rows.forEach((row, i) => {
+        const price = Number(row?.price);
+        if (typeof row?.symbol !== 'string' || !(price > 0)) badLines.push(i + 1);
+        else push(row.symbol, price);
+      });
+    } catch {
+      badLines.push(1);
+    }
+  } else {
+    text.split(/\r?\n/).forEach((line, i) => {
+      if (!line.trim()) return;
+      const cells = line.trim().split(/[,;\t]+/).map(c => c.trim());
+      const [symbol, priceText] = cells.length >= 3 ? cells.slice(1) : cells;
+      const price = parseFloat((priceText || '').replace(/_/g, ''));
+      if (i === 0 && isNaN(price)) return; // Header row
+      if (!symbol || !(price > 0)) badLines.push(i + 1);
+      else push(symbol, price);
+    });
+  }
+
+  return { series: [...bySymbol.entries()].map(([symbol, prices]) => ({ symbol, prices })), badLines };
+};
+
+// Emits the next price of every series on each tick and finishes once all series are used up
+export const createReplayProvider = (series: ReplaySeries[]): PriceProvider => {
+  let step = 0;
+  return {
+    id: 'replay',
+    next: async (market) => {
+      const instruments = market.map(m => m.instrument);
+      const quotes: Quote[] = [];
+      series.forEach(s => {
+        const instrument = findInstrumentBySymbol(instruments, s.symbol);
+        if (instrument && step < s.prices.length) quotes.push({ instrumentId: instrument.id, price: s.prices[step] });
+      });
+      step++;
+      return { quotes, done: series.every(s => step >= s.prices.length) };
+    }
+  };
+};
+
+// --- Registry ---
+
+export const PRICE_PROVIDERS: PriceProviderDefinition[] = [
+  {
+    id: 'random-walk',
+    name: 'گام تصادفی',
+    description: 'قیمت هر نماد از آخرین قیمت شناخته‌شده به‌صورت تصادفی و قابل تکرار حرکت می‌کند.',
+    fields: [
+      { key: 'seed', label: 'بذر تصادفی', defaultValue: '42' },
+      { key: 'volatility', label: 'نوسان هر گام (٪)', defaultValue: '1' },
+      { key: 'drift', label: 'روند هر گام (٪)', defaultValue: '0' }
+    ],
+    create: (config) => {
+      const seed = parseInt(config.seed);
+      const volatility = parseFloat(config.volatility);
+      const drift = parseFloat(config.drift || '0');
+      if (isNaN(seed)) return { ok: false, message: 'بذر تصادفی باید یک عدد صحیح باشد.' };
+      if (!(volatility >= 0) || isNaN(drift)) return { ok: false, message: 'نوسان و روند باید عدد باشند.' };
+      return { ok: true, provider: createRandomWalkProvider(seed, volatility, drift) };
+    }
+  },
+  {
+    id: 'replay',
+    name: 'بازپخش فایل',
+    description: 'قیمت‌های یک فایل CSV یا JSON را به ترتیب، در هر گام یک قیمت برای هر نماد، پخش می‌کند.',
+    fields: [
+      { key: 'data', label: 'داده قیمت (CSV یا JSON)', placeholder: 'BTC,3500000000\nBTC,3520000000\nETH,180000000', multiline: true }
+    ],
+    create: (config) => {
+      const { series, badLines } = parseReplayFile(config.data || '');
+      if (badLines.length > 0) return { ok: false, message: `ردیف‌های نامعتبر در فایل: ${badLines.map(n => formatNumber(n)).join('، ')}` };
+      if (series.length === 0) return { ok: false, message: 'فایل هیچ قیمتی ندارد.' };
+      return { ok: true, provider: createReplayProvider(series) };
+    }
+  }
+];
+
+// Plug-in point for exchange adapters; a definition with an existing id replaces it
+export const registerPriceProvider = (definition: PriceProviderDefinition): void => {
+  const index = PRICE_PROVIDERS.findIndex(d => d.id === definition.id);
+  if (index >= 0) PRICE_PROVIDERS[index] = definition;
+  else PRICE_PROVIDERS.push(definition);
+};
+
+// --- Scheduler ---
+
+export interface FeedHandlers {
+  getMarket: () => MarketSnapshot[];
+  onQuotes: (quotes: Quote[]) => void;
+  onDone?: () => void;
+  onError?: (error: unknown) => void;
+}
+
+// Polls the provider every `intervalMs` (waiting for slow providers rather than overlapping calls).
+// Returns a function that stops the feed.
+export const startPriceFeed = (provider: PriceProvider, intervalMs: number, handlers: FeedHandlers): (() => void) => {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const tick = async () => {
+    try {
+      const { quotes, done } = await provider.next(handlers.getMarket(), new Date());
+      if (stopped) return;
+      if (quotes.length > 0) handlers.onQuotes(quotes);
+      if (done) {
+        stopped = true;
+        handlers.onDone?.();
+        return;
+      }
+    } catch (e) {
+      if (stopped) return;
+      stopped = true;
+      handlers.onError?.(e);
+      return;
+    }
+    timer = setTimeout(tick, intervalMs);
+  };
+
+  timer = setTimeout(tick, 0);
+  return () => {
+    stopped = true;
+    if (timer !== undefined) clearTimeout(timer);
+  };
+};
@@ -0,0 +1,181 @@
+import { JournalEvent } from '../types';
+import { Projection, applyEvent, appendsInOrder, replaySteps } from './journal';
+import { AMOUNT_EPSILON } from './costBasis';
+import { calculatePortfolioTotal, calculateTotalAssets, findPortfolioRecursive, getAllPortfolioIds } from './portfolioTree';
+
+// --- Performance ---
+// A scope is a portfolio (with its children) or, with a null id, the whole account.
+
+export interface PerformancePoint {
+  date: string; // ISO date
+  value: number; // Market value of the scope, in Toman
+  index: number; // Growth of 1 Toman held since the start, deposits and withdrawals excluded (time-weighted)
+  flow: number; // Money that entered (+) or left (−) the scope at this point, in Toman
+}
+
+export type PerformancePeriod = 'mtd' | 'ytd' | '1y' | 'inception';
+
+export const PERFORMANCE_PERIOD_LABELS: Record<PerformancePeriod, string> = {
+  mtd: 'از ابتدای ماه',
+  ytd: 'از ابتدای سال',
+  '1y': 'یک سال اخیر',
+  inception: 'از ابتدا'
+};
+
+export interface PeriodReturn {
+  startValue: number; // In Toman
+  endValue: number;
+  netFlow: number; // Deposits minus withdrawals (or money moved in minus out) during the period
+  gain: number; // endValue - startValue - netFlow
+  twr: number; // Percent, time-weighted: how the holdings performed, whatever was added or taken out
+  xirr: number | null; // Annual percent, money-weighted; null for periods under a day or when it does not converge
+}
+
+// Events that only move money or holdings into or out of a portfolio; they change its value without earning anything
+const PORTFOLIO_FLOW_EVENTS: JournalEvent['type'][] = ['genesis', 'portfolioAdd', 'portfolioDelete', 'portfolioMove', 'portfolioMerge', 'transfer'];
+
+const scopeValue = (p: Projection, portfolioId: string | null): number => {
+  if (portfolioId === null) return p.cash + calculateTotalAssets(p.rootPortfolios);
+  const portfolio = findPortfolioRecursive(p.rootPortfolios, portfolioId);
+  return portfolio ? calculatePortfolioTotal(portfolio) : 0;
+};
+
+// Money that entered (+) or left (−) the scope during one replay step, as opposed to what it earned
+const externalFlow = (before: Projection, after: Projection, event: JournalEvent, portfolioId: string | null, valueChange: number): number => {
+  if (portfolioId === null) {
+    if (event.type === 'genesis') return valueChange;
+    return event.type === 'cash' && event.kind !== 'fee' ? after.cash - before.cash : 0;
+  }
+  if (PORTFOLIO_FLOW_EVENTS.includes(event.type)) return valueChange;
+  // Trades (including plan buys and liquidations the event caused) turn cash into holdings and back; fees are a cost
+  const portfolio = findPortfolioRecursive(after.rootPortfolios, portfolioId) || findPortfolioRecursive(before.rootPortfolios, portfolioId);
+  const ids = portfolio ? getAllPortfolioIds(portfolio) : [];
+  return after.tradeHistory
+    .slice(0, after.tradeHistory.length - before.tradeHistory.length)
+    .filter(t => ids.includes(t.portfolioId))
+    .reduce((sum, t) => sum + (t.type === 'buy' ? t.totalValue + t.fee : -(t.totalValue - t.fee)), 0);
+};
+
+// A performance series together with what it needs to grow as events are appended
+export interface PerformanceTrack {
+  journal: JournalEvent[]; // The series covers exactly these events
+  portfolioId: string | null;
+  points: PerformancePoint[];
+  projection: Projection; // After the last event
+}
+
+// Adds the point for one replay step to `points` (in place) and returns the new growth index
+const addStep = (points: PerformancePoint[], index: number, before: Projection, after: Projection, event: JournalEvent, portfolioId: string | null): number => {
+  const valueBefore = scopeValue(before, portfolioId);
+  const valueAfter = scopeValue(after, portfolioId);
+  const flow = externalFlow(before, after, event, portfolioId, valueAfter - valueBefore);
+  const next = Math.abs(valueBefore) > AMOUNT_EPSILON ? index * Math.max(0, (valueAfter - flow) / valueBefore) : index;
+  // Later events supersede points at the same time, and the genesis point when it is dated after them
+  const time = new Date(event.timestamp).getTime();
+  let merged = flow;
+  while (points.length > 0 && new Date(points[points.length - 1].date).getTime() >= time) merged += points.pop()!.flow;
+  points.push({ date: event.timestamp, value: valueAfter, index: next, flow: merged });
+  return next;
+};
+
+export const trackPerformance = (journal: JournalEvent[], portfolioId: string | null): PerformanceTrack => {
+  const points: PerformancePoint[] = [];
+  let index = 1;
+  let projection: Projection | undefined;
+  replaySteps(journal, (before, after, event) => {
+    index = addStep(points, index, before, after, event, portfolioId);
+    projection = after;
+  });
+  return { journal, portfolioId, points, projection: projection! };
+};
+
+// Value and time-weighted growth of a scope after every journal event, oldest first
+export const performanceSeries = (journal: JournalEvent[], portfolioId: string | null): PerformancePoint[] =>
+  trackPerformance(journal, portfolioId).points;
+
+// Brings a track up to date with `journal`. Events appended in time order (price ticks, new trades)
+// are stepped on top of the last projection; anything else replays the journal from the start.
+export const updatePerformance = (track: PerformanceTrack | null, journal: JournalEvent[], portfolioId: string | null): PerformanceTrack => {
+  if (!track || track.portfolioId !== portfolioId) return trackPerformance(journal, portfolioId);
+  if (track.journal === journal) return track;
+  const length = track.journal.length;
+  const added = journal.slice(length);
+  const grown = journal.length > length && journal[length - 1] === track.journal[length - 1];
+  if (!grown || !appendsInOrder(track.journal, added)) return trackPerformance(journal, portfolioId);
+
+  const points = [...track.points];
+  let index = points[points.length - 1]?.index ?? 1;
+  const projection = added.reduce((before, event) => {
+    const after = applyEvent(before, event);
+    index = addStep(points, index, before, after, event, portfolioId);
+    return after;
+  }, track.projection);
+  return { journal, portfolioId, points, projection };
+};
+
+// Local calendar start of a period (months and years as in the device's calendar); null since inception
+export const periodStart = (period: PerformancePeriod, now: Date): Date | null => {
+  switch (period) {
+    case 'mtd': return new Date(now.getFullYear(), now.getMonth(), 1);
+    case 'ytd': return new Date(now.getFullYear(), 0, 1);
+    case '1y': return new Date(now.getFullYear() - 1, now.getMonth(), now.getDate(), now.getHours(), now.getMinutes());
+    case 'inception': return null;
+  }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Annual rate at which the dated cash flows (negative = paid in) net to zero. Newton's method, with
+// bisection as a fallback when it leaves the valid range.
+export const xirr = (flows: { time: number; amount: number }[]): number | null => {
+  if (!flows.some(f => f.amount > 0) || !flows.some(f => f.amount < 0)) return null;
+  const t0 = flows[0].time;
+  const years = flows.map(f => (f.time - t0) / (365 * DAY_MS));
+  const npv = (rate: number) => flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+  const slope = (rate: number) => flows.reduce((sum, f, i) => sum - years[i] * f.amount / Math.pow(1 + rate, years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const d = slope(rate);
+    if (!d || !Number.isFinite(d)) break;
+    const next = rate - npv(rate) / d;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-9) return next;
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 100;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (npv(low) * npv(mid) <= 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+};
+
+// TWR and XIRR of a scope over a period ending `now`. The scope is treated as bought at its value when the
+// period starts and sold at its value now; flows in between are the ledger's deposits, withdrawals and moves.
+export const periodReturn = (points: PerformancePoint[], period: PerformancePeriod, now: Date): PeriodReturn => {
+  const startTime = periodStart(period, now)?.getTime() ?? -Infinity;
+  const before = points.filter(p => new Date(p.date).getTime() <= startTime);
+  const inside = points.filter(p => new Date(p.date).getTime() > startTime);
+  const opening = before[before.length - 1];
+  const last = points[points.length - 1];
+
+  const startValue = opening?.value || 0;
+  const endValue = last?.value || 0;
+  const netFlow = inside.reduce((sum, p) => sum + p.flow, 0);
+  const twr = ((last?.index || 1) / (opening?.index || 1) - 1) * 100;
+
+  const start = opening ? startTime : inside.length > 0 ? new Date(inside[0].date).getTime() : now.getTime();
+  const flows = [
+    ...(startValue > AMOUNT_EPSILON ? [{ time: start, amount: -startValue }] : []),
+    ...inside.filter(p => Math.abs(p.flow) > AMOUNT_EPSILON).map(p => ({ time: new Date(p.date).getTime(), amount: -p.flow })),
+    { time: now.getTime(), amount: endValue }
+  ];
+  const rate = now.getTime() - start >= DAY_MS ? xirr(flows) : null;
+
+  return { startValue, endValue, netFlow, gain: endValue - startValue - netFlow, twr, xirr: rate === null ? null : rate * 100 };
+};
@@ -0,0 +1,45 @@
+import { InvestmentPlan, PlanFrequency } from '../types';
+
+export const PLAN_FREQUENCY_LABELS: Record<PlanFrequency, string> = {
+  daily: 'روزانه',
+  weekly: 'هفتگی',
+  monthly: 'ماهانه'
+};
+
+// Catch-up after a long absence is capped so one run cannot flood the journal
+export const MAX_RUNS_PER_CHECK = 400;
+
+// The due date `count` periods after the start. Monthly plans keep the start's day of month,
+// falling back to the last day of shorter months.
+const dueAt = (plan: Pick<InvestmentPlan, 'startDate' | 'frequency'>, count: number): Date => {
+  const start = new Date(plan.startDate);
+  if (plan.frequency === 'daily') return new Date(start.getTime() + count * 86400000);
+  if (plan.frequency === 'weekly') return new Date(start.getTime() + count * 7 * 86400000);
+  const monthStart = new Date(start.getFullYear(), start.getMonth() + count, 1, start.getHours(), start.getMinutes(), start.getSeconds(), start.getMilliseconds());
+  const lastDay = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0).getDate();
+  monthStart.setDate(Math.min(start.getDate(), lastDay));
+  return monthStart;
+};
+
+// Due dates not handled yet, up to `now` and the plan's end date, oldest first
+export const pendingDueDates = (plan: InvestmentPlan, now: Date, limit = MAX_RUNS_PER_CHECK): string[] => {
+  const after = plan.lastDueAt ? new Date(plan.lastDueAt).getTime() : -Infinity;
+  const end = Math.min(now.getTime(), plan.endDate ? new Date(plan.endDate).getTime() : Infinity);
+  const dates: string[] = [];
+  for (let count = 0; dates.length < limit; count++) {
+    const due = dueAt(plan, count);
+    if (due.getTime() > end) break;
+    if (due.getTime() > after) dates.push(due.toISOString());
+  }
+  return dates;
+};
+
+// Next execution still ahead of `now`, if the plan has one
+export const nextDueDate = (plan: InvestmentPlan, now: Date): string | undefined => {
+  const end = plan.endDate ? new Date(plan.endDate).getTime() : Infinity;
+  for (let count = 0; ; count++) {
+    const due = dueAt(plan, count);
+    if (due.getTime() > end) return undefined;
+    if (due.getTime() > now.getTime()) return due.toISOString();
+  }
+};
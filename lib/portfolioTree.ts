@@ -0,0 +1,134 @@
+import { Portfolio } from '../types';
+
+// --- Helper Functions for Nested State ---
+export const findPortfolioRecursive = (portfolios: Portfolio[], id: string): Portfolio | null => {
+  for (const p of portfolios) {
+    if (p.id === id) return p;
+    const found = findPortfolioRecursive(p.children, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Chain of portfolios from the root down to (and including) the target
+export const findPortfolioPath = (portfolios: Portfolio[], id: string): Portfolio[] => {
+  for (const p of portfolios) {
+    if (p.id === id) return [p];
+    const path = findPortfolioPath(p.children, id);
+    if (path.length > 0) return [p, ...path];
+  }
+  return [];
+};
+
+export const updatePortfolioRecursive = (portfolios: Portfolio[], updated: Portfolio): Portfolio[] => {
+  return portfolios.map(p => {
+    if (p.id === updated.id) return updated;
+    if (p.children.length > 0) {
+      return { ...p, children: updatePortfolioRecursive(p.children, updated) };
+    }
+    return p;
+  });
+};
+
+export const addPortfolioRecursive = (portfolios: Portfolio[], parentId: string, newPortfolio: Portfolio): Portfolio[] => {
+  return portfolios.map(p => {
+    if (p.id === parentId) {
+      return { ...p, children: [...p.children, newPortfolio] };
+    }
+    if (p.children.length > 0) {
+      return { ...p, children: addPortfolioRecursive(p.children, parentId, newPortfolio) };
+    }
+    return p;
+  });
+};
+
+export type PortfolioChanges = Partial<Pick<Portfolio, 'name' | 'allocation' | 'costBasisMethod'>>;
+
+export const editPortfolioRecursive = (portfolios: Portfolio[], id: string, changes: PortfolioChanges): Portfolio[] => {
+  return portfolios.map(p => {
+    if (p.id === id) return { ...p, ...changes };
+    if (p.children.length > 0) return { ...p, children: editPortfolioRecursive(p.children, id, changes) };
+    return p;
+  });
+};
+
+export const deletePortfolioRecursive = (portfolios: Portfolio[], id: string): Portfolio[] => {
+  return portfolios.filter(p => p.id !== id).map(p => ({
+    ...p,
+    children: deletePortfolioRecursive(p.children, id)
+  }));
+};
+
+// Places a portfolio under `parentId` (null = root), before the sibling `beforeId` or last
+export const insertPortfolio = (portfolios: Portfolio[], parentId: string | null, portfolio: Portfolio, beforeId?: string): Portfolio[] => {
+  const insert = (list: Portfolio[]) => {
+    const index = beforeId ? list.findIndex(p => p.id === beforeId) : -1;
+    return index >= 0 ? [...list.slice(0, index), portfolio, ...list.slice(index)] : [...list, portfolio];
+  };
+  if (parentId === null) return insert(portfolios);
+  return portfolios.map(p => p.id === parentId
+    ? { ...p, children: insert(p.children) }
+    : { ...p, children: insertPortfolio(p.children, parentId, portfolio, beforeId) });
+};
+
+// Adds `delta` to the allocation of the target portfolio and every ancestor above it
+export const adjustAllocationAlongPath = (portfolios: Portfolio[], id: string, delta: number): Portfolio[] => {
+  const pathIds = findPortfolioPath(portfolios, id).map(p => p.id);
+  const adjust = (list: Portfolio[]): Portfolio[] => list.map(p => {
+    if (!pathIds.includes(p.id)) return p;
+    return { ...p, allocation: p.allocation + delta, children: adjust(p.children) };
+  });
+  return adjust(portfolios);
+};
+
+// Moves `amount` of allocation between two nodes. Allocations are nested, so every portfolio on the source's
+// path gives it up and every one on the destination's path receives it, up to (not including) their common ancestor.
+export const moveAllocation = (portfolios: Portfolio[], fromId: string, toId: string, amount: number): Portfolio[] => {
+  const fromPath = findPortfolioPath(portfolios, fromId).map(p => p.id);
+  const toPath = findPortfolioPath(portfolios, toId).map(p => p.id);
+  const adjust = (list: Portfolio[]): Portfolio[] => list.map(p => {
+    const delta = (toPath.includes(p.id) ? amount : 0) - (fromPath.includes(p.id) ? amount : 0);
+    const children = adjust(p.children);
+    return delta === 0 && children.every((c, i) => c === p.children[i]) ? p : { ...p, allocation: p.allocation + delta, children };
+  });
+  return adjust(portfolios);
+};
+
+// --- Helper for Calculations ---
+export const calculatePortfolioTotal = (p: Portfolio): number => {
+  const assetsValue = p.assets.reduce((sum, a) => sum + (a.amount * a.currentPrice), 0);
+  const childrenValue = p.children.reduce((sum, child) => sum + calculatePortfolioTotal(child), 0);
+  return assetsValue + childrenValue;
+};
+
+export const calculatePortfolioCost = (p: Portfolio): number => {
+  const assetsCost = p.assets.reduce((sum, a) => sum + (a.amount * a.avgBuyPrice), 0);
+  const childrenCost = p.children.reduce((sum, child) => sum + calculatePortfolioCost(child), 0);
+  return assetsCost + childrenCost;
+};
+
+export const calculateTotalAssets = (portfolios: Portfolio[]): number =>
+  portfolios.reduce((sum, p) => sum + calculatePortfolioTotal(p), 0);
+
+// Used = Cost of current assets + Sum of children allocations
+export const calculateUsedBudget = (p: Portfolio): number => {
+  const assetsCost = p.assets.reduce((sum, a) => sum + (a.amount * a.avgBuyPrice), 0);
+  const childrenAlloc = p.children.reduce((sum, c) => sum + c.allocation, 0);
+  return assetsCost + childrenAlloc;
+};
+
+export const getAllPortfolioIds = (p: Portfolio): string[] => {
+  let ids = [p.id];
+  p.children.forEach(c => ids = [...ids, ...getAllPortfolioIds(c)]);
+  return ids;
+};
+
+// Flatten all portfolios for easy lookup
+export const flattenPortfolios = (portfolios: Portfolio[]): Portfolio[] => {
+    let flat: Portfolio[] = [];
+    portfolios.forEach(p => {
+        flat.push(p);
+        flat = [...flat, ...flattenPortfolios(p.children)];
+    });
+    return flat;
+};
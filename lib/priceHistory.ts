@@ -0,0 +1,130 @@
+import { PricePoint, Trade } from '../types';
+
+export type CandleInterval = '1h' | '1d' | '1w' | '1M';
+
+export const CANDLE_INTERVAL_LABELS: Record<CandleInterval, string> = {
+  '1h': 'ساعتی',
+  '1d': 'روزانه',
+  '1w': 'هفتگی',
+  '1M': 'ماهانه'
+};
+
+export interface Candle {
+  time: number; // Bucket start (ms)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  count: number; // Price points in the bucket
+}
+
+type NewPricePoint = Omit<PricePoint, 'time'>;
+
+// Index of the first point later than `time`
+const upperBound = (series: PricePoint[], time: number): number => {
+  let low = 0;
+  let high = series.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (series[mid].time <= time) low = mid + 1;
+    else high = mid;
+  }
+  return high;
+};
+
+// Places a point after those at the same time, or replaces the one with the same time and source.
+// Replay records prices mostly in time order, so the common case is a plain append.
+const insertPoint = (series: PricePoint[], point: PricePoint) => {
+  const last = series[series.length - 1];
+  const at = !last || last.time < point.time ? series.length : upperBound(series, point.time);
+  for (let i = at - 1; i >= 0 && series[i].time === point.time; i--) {
+    if (series[i].source === point.source) {
+      series.splice(i, 1);
+      series.splice(at - 1, 0, point);
+      return;
+    }
+  }
+  series.splice(at, 0, point);
+};
+
+// Inserts a point keeping the series sorted; a point at the same time and source replaces the old one
+export const recordPrice = (history: Record<string, PricePoint[]>, instrumentId: string, point: NewPricePoint): Record<string, PricePoint[]> =>
+  recordPrices(history, instrumentId, [point]);
+
+// Series created while drafting belong to that run alone, so further points go in place
+// instead of copying the whole series again. Outside a draft every record copies.
+let drafts: WeakSet<PricePoint[]> | null = null;
+
+// Runs `run` with in-place recording on (a replay) or off (a step that may be thrown away).
+// Anything still holding an earlier projection from the same run sees the newer points.
+export const draftingPrices = <T>(enabled: boolean, run: () => T): T => {
+  const outer = drafts;
+  drafts = enabled ? outer || new WeakSet() : null;
+  try {
+    return run();
+  } finally {
+    drafts = outer;
+  }
+};
+
+export const recordPrices = (history: Record<string, PricePoint[]>, instrumentId: string, points: NewPricePoint[]): Record<string, PricePoint[]> => {
+  const current = history[instrumentId];
+  const series = current && drafts?.has(current) ? current : [...(current || [])];
+  drafts?.add(series);
+  points.forEach(p => insertPoint(series, { ...p, time: new Date(p.timestamp).getTime() }));
+  return { ...history, [instrumentId]: series };
+};
+
+// Price in effect at `timestamp`: the latest point at or before it
+export const priceAt = (points: PricePoint[] | undefined, timestamp: string): number | undefined => {
+  if (!points) return undefined;
+  const at = upperBound(points, new Date(timestamp).getTime());
+  return at > 0 ? points[at - 1].price : undefined;
+};
+
+// Start of the bucket `time` falls in, in local time. Weeks start on Saturday.
+const bucketStart = (time: number, interval: CandleInterval): number => {
+  const d = new Date(time);
+  switch (interval) {
+    case '1h': return new Date(d.getFullYear(), d.getMonth(), d.getDate(), d.getHours()).getTime();
+    case '1d': return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+    case '1w': return new Date(d.getFullYear(), d.getMonth(), d.getDate() - (d.getDay() + 1) % 7).getTime();
+    case '1M': return new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+  }
+};
+
+// Aggregates a sorted price series into OHLC candles; empty buckets are skipped
+export const buildCandles = (points: PricePoint[], interval: CandleInterval): Candle[] => {
+  const candles: Candle[] = [];
+  points.forEach(p => {
+    const time = bucketStart(p.time, interval);
+    const last = candles[candles.length - 1];
+    if (last && last.time === time) {
+      last.high = Math.max(last.high, p.price);
+      last.low = Math.min(last.low, p.price);
+      last.close = p.price;
+      last.count += 1;
+    } else {
+      candles.push({ time, open: p.price, high: p.price, low: p.price, close: p.price, count: 1 });
+    }
+  });
+  return candles;
+};
+
+// Average buy and sell fill price per candle, for marking the user's trades on the chart
+export const fillsByCandle = (trades: Trade[], interval: CandleInterval): Map<number, { buy?: number; sell?: number }> => {
+  const sums = new Map<number, { buyValue: number; buyAmount: number; sellValue: number; sellAmount: number }>();
+  trades.forEach(t => {
+    const time = bucketStart(new Date(t.timestamp).getTime(), interval);
+    const sum = sums.get(time) || { buyValue: 0, buyAmount: 0, sellValue: 0, sellAmount: 0 };
+    if (t.type === 'buy') { sum.buyValue += t.price * t.amount; sum.buyAmount += t.amount; }
+    else { sum.sellValue += t.price * t.amount; sum.sellAmount += t.amount; }
+    sums.set(time, sum);
+  });
+  const fills = new Map<number, { buy?: number; sell?: number }>();
+  sums.forEach((s, time) => fills.set(time, {
+    buy: s.buyAmount > 0 ? s.buyValue / s.buyAmount : undefined,
+    sell: s.sellAmount > 0 ? s.sellValue / s.sellAmount : undefined
+  }));
+  return fills;
+};
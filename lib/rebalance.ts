@@ -0,0 +1,100 @@
+import { AppState, FeeType, Portfolio, TradeType } from '../types';
+import { LedgerCommand } from './ledger';
+import { AMOUNT_EPSILON } from './costBasis';
+import { calculatePortfolioTotal } from './portfolioTree';
+import { findInstrument } from './instruments';
+import { priceAt } from './priceHistory';
+
+// One targeted (or held) line of a portfolio compared with its target weight
+export interface DriftRow {
+  kind: 'asset' | 'child';
+  id: string; // instrumentId or child portfolioId
+  label: string;
+  value: number; // Market value in Toman
+  actual: number; // Percent of the portfolio's value
+  target: number; // Percent; 0 when the portfolio has targets but not for this line
+  drift: number; // actual - target, in percentage points
+}
+
+export interface RebalanceTrade {
+  portfolioId: string;
+  instrumentId: string;
+  symbol: string;
+  side: TradeType;
+  amount: number;
+  price: number; // In Toman
+  value: number;
+  fee: number;
+}
+
+export interface FeeModel {
+  feeType: FeeType;
+  feeValue: number; // Percent or Toman, as in TradeForm
+}
+
+export const estimateFee = (value: number, fee: FeeModel): number =>
+  fee.feeType === 'percentage' ? value * fee.feeValue / 100 : fee.feeValue;
+
+// Compares the direct assets and children of a portfolio with its targets
+export const portfolioDrift = (state: AppState, portfolio: Portfolio): DriftRow[] => {
+  const total = calculatePortfolioTotal(portfolio);
+  const targets = portfolio.targets;
+  const percentOf = (value: number) => total > 0 ? value / total * 100 : 0;
+  const row = (kind: DriftRow['kind'], id: string, label: string, value: number, target: number): DriftRow =>
+    ({ kind, id, label, value, actual: percentOf(value), target, drift: percentOf(value) - target });
+
+  const assetIds = [...new Set([...portfolio.assets.map(a => a.instrumentId), ...Object.keys(targets?.assets || {})])];
+  return [
+    ...assetIds.map(id => {
+      const held = portfolio.assets.find(a => a.instrumentId === id);
+      const label = held?.symbol || findInstrument(state.instruments, id)?.symbol || id;
+      return row('asset', id, label, held ? held.amount * held.currentPrice : 0, targets?.assets[id] || 0);
+    }),
+    ...portfolio.children.map(c => row('child', c.id, c.name, calculatePortfolioTotal(c), targets?.children[c.id] || 0))
+  ];
+};
+
+// Largest absolute drift of a portfolio, in percentage points (0 without targets)
+export const maxDrift = (state: AppState, portfolio: Portfolio): number =>
+  portfolio.targets ? portfolioDrift(state, portfolio).reduce((largest, r) => Math.max(largest, Math.abs(r.drift)), 0) : 0;
+
+// Trades that bring `portfolio` to `targetValue` (its current value at the top level). Children with targets are
+// rebalanced toward them recursively; a portfolio without targets is scaled as it stands.
+const collectTrades = (state: AppState, portfolio: Portfolio, targetValue: number, fee: FeeModel, now: Date, trades: RebalanceTrade[]) => {
+  const total = calculatePortfolioTotal(portfolio);
+  const targets = portfolio.targets;
+  const scale = total > 0 ? targetValue / total : 0;
+
+  const assetIds = [...new Set([...portfolio.assets.map(a => a.instrumentId), ...Object.keys(targets?.assets || {})])];
+  assetIds.forEach(id => {
+    const held = portfolio.assets.find(a => a.instrumentId === id);
+    const instrument = findInstrument(state.instruments, id);
+    const price = held?.currentPrice || priceAt(state.priceHistory[id], now.toISOString());
+    if (!instrument || !price) return;
+    const heldValue = held ? held.amount * held.currentPrice : 0;
+    const wanted = targets ? targetValue * (targets.assets[id] || 0) / 100 : heldValue * scale;
+    const side: TradeType = wanted > heldValue ? 'buy' : 'sell';
+    let amount = Math.abs(wanted - heldValue) / price;
+    if (side === 'sell') amount = Math.min(amount, Math.max(held?.amount || 0, 0));
+    if (instrument.lotSize > 0) amount = Math.floor(amount / instrument.lotSize + AMOUNT_EPSILON) * instrument.lotSize;
+    if (!(amount > AMOUNT_EPSILON)) return;
+    const value = amount * price;
+    trades.push({ portfolioId: portfolio.id, instrumentId: id, symbol: instrument.symbol, side, amount, price, value, fee: estimateFee(value, fee) });
+  });
+
+  portfolio.children.forEach(child => {
+    const childTarget = targets ? targetValue * (targets.children[child.id] || 0) / 100 : calculatePortfolioTotal(child) * scale;
+    collectTrades(state, child, childTarget, fee, now, trades);
+  });
+};
+
+// Buy/sell list that returns a portfolio to its target weights, sells first so their proceeds fund the buys
+export const proposeRebalance = (state: AppState, portfolio: Portfolio, fee: FeeModel, now: Date): RebalanceTrade[] => {
+  if (!portfolio.targets) return [];
+  const trades: RebalanceTrade[] = [];
+  collectTrades(state, portfolio, calculatePortfolioTotal(portfolio), fee, now, trades);
+  return [...trades.filter(t => t.side === 'sell'), ...trades.filter(t => t.side === 'buy')];
+};
+
+export const rebalanceCommands = (trades: RebalanceTrade[]): LedgerCommand[] =>
+  trades.map(t => ({ type: t.side, portfolioId: t.portfolioId, instrumentId: t.instrumentId, amount: t.amount, price: t.price, totalValue: t.value, fee: t.fee }));
@@ -0,0 +1,127 @@
+import { PerformancePoint } from './performance';
+
+// --- Risk ---
+// Measured on a scope's time-weighted growth (see performance.ts), so deposits, withdrawals and transfers
+// are not mistaken for gains or losses.
+
+export type RiskConfidence = 90 | 95 | 99;
+
+export interface RiskSettings {
+  riskFreeRate: number; // Annual percent, e.g. what a toman bank deposit pays
+  confidence: RiskConfidence; // For VaR and CVaR
+}
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = { riskFreeRate: 23, confidence: 95 };
+
+// One-sided standard normal quantiles
+const Z_SCORES: Record<RiskConfidence, number> = { 90: 1.2816, 95: 1.6449, 99: 2.3263 };
+
+export interface DrawdownPoint {
+  date: string; // ISO date
+  drawdown: number; // Percent below the best level so far, ≤ 0
+}
+
+export interface MaxDrawdown {
+  depth: number; // Percent, positive
+  peakDate: string;
+  troughDate: string;
+  recoveryDate: string | null; // Null while still under the peak
+}
+
+export interface RiskMetrics {
+  observations: number; // Daily returns the figures are based on
+  volatility: number; // Annualized percent
+  sharpe: number | null;
+  sortino: number | null; // Null without any return below the risk-free rate
+  maxDrawdown: MaxDrawdown;
+  // One-day losses as positive percents; historical from the observed returns, parametric assuming a normal distribution
+  historicalVar: number;
+  historicalCvar: number;
+  parametricVar: number;
+  parametricCvar: number;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// The scope's history starts once it holds something
+const heldPoints = (points: PerformancePoint[]): PerformancePoint[] => {
+  const start = points.findIndex(p => p.value > 0);
+  return start >= 0 ? points.slice(start) : [];
+};
+
+export const drawdownSeries = (points: PerformancePoint[]): DrawdownPoint[] => {
+  let peak = 0;
+  return heldPoints(points).map(p => {
+    peak = Math.max(peak, p.index);
+    return { date: p.date, drawdown: peak > 0 ? (p.index / peak - 1) * 100 : 0 };
+  });
+};
+
+export const maxDrawdown = (points: PerformancePoint[]): MaxDrawdown | null => {
+  const held = heldPoints(points);
+  if (held.length === 0) return null;
+  let peak = held[0];
+  let worst: MaxDrawdown = { depth: 0, peakDate: held[0].date, troughDate: held[0].date, recoveryDate: null };
+  let worstPeakIndex = held[0].index;
+  held.forEach(p => {
+    if (p.index >= peak.index) peak = p;
+    const depth = peak.index > 0 ? (1 - p.index / peak.index) * 100 : 0;
+    if (depth > worst.depth) {
+      worst = { depth, peakDate: peak.date, troughDate: p.date, recoveryDate: null };
+      worstPeakIndex = peak.index;
+    }
+  });
+  if (worst.depth > 0) {
+    const troughTime = new Date(worst.troughDate).getTime();
+    worst.recoveryDate = held.find(p => new Date(p.date).getTime() > troughTime && p.index >= worstPeakIndex)?.date || null;
+  }
+  return worst;
+};
+
+// Growth index at the last point of each local calendar day
+const dailyCloses = (points: PerformancePoint[]): { time: number; index: number }[] => {
+  const closes: { day: string; time: number; index: number }[] = [];
+  heldPoints(points).forEach(p => {
+    const date = new Date(p.date);
+    const day = date.toDateString();
+    if (closes.length > 0 && closes[closes.length - 1].day === day) closes.pop();
+    closes.push({ day, time: date.getTime(), index: p.index });
+  });
+  return closes;
+};
+
+// Null until there are at least two daily returns
+export const riskMetrics = (points: PerformancePoint[], settings: RiskSettings): RiskMetrics | null => {
+  const closes = dailyCloses(points);
+  const returns = closes.slice(1).map((c, i) => closes[i].index > 0 ? c.index / closes[i].index - 1 : 0);
+  const drawdown = maxDrawdown(points);
+  if (returns.length < 2 || !drawdown) return null;
+
+  // Days without activity are skipped rather than counted as flat, so annualize by the span actually covered
+  const years = (closes[closes.length - 1].time - closes[0].time) / YEAR_MS;
+  const perYear = years > 0 ? returns.length / years : 365;
+  const riskFree = Math.pow(1 + settings.riskFreeRate / 100, 1 / perYear) - 1;
+
+  const mu = mean(returns);
+  const sigma = Math.sqrt(returns.reduce((sum, r) => sum + (r - mu) ** 2, 0) / (returns.length - 1));
+  const downside = Math.sqrt(mean(returns.map(r => Math.min(0, r - riskFree) ** 2)));
+
+  const level = settings.confidence / 100;
+  const tail = [...returns].sort((a, b) => a - b).slice(0, Math.max(1, Math.ceil((1 - level) * returns.length)));
+  const z = Z_SCORES[settings.confidence];
+  const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+
+  return {
+    observations: returns.length,
+    volatility: sigma * Math.sqrt(perYear) * 100,
+    sharpe: sigma > 0 ? (mu - riskFree) / sigma * Math.sqrt(perYear) : null,
+    sortino: downside > 0 ? (mu - riskFree) / downside * Math.sqrt(perYear) : null,
+    maxDrawdown: drawdown,
+    historicalVar: -tail[tail.length - 1] * 100,
+    historicalCvar: -mean(tail) * 100,
+    parametricVar: -(mu - z * sigma) * 100,
+    parametricCvar: -(mu - sigma * density / (1 - level)) * 100
+  };
+};
@@ -0,0 +1,242 @@
+import { AppState, INITIAL_STATE, Portfolio, Trade } from '../types';
+import { AMOUNT_EPSILON } from './costBasis';
+import { buildPositions } from './ledger';
+import { advanceBacktest, BacktestStep, createBacktestSession, isBacktestFinished, runBacktestCommand } from './backtest';
+import { findInstrumentBySymbol } from './instruments';
+import { calculateTotalAssets } from './portfolioTree';
+import { formatNumber } from './format';
+
+// --- Strategy API ---
+// A strategy is a script that defines `function onTick(ctx)` and returns the orders to send on that tick.
+
+export interface StrategyContext {
+  time: string; // Virtual time of the tick (ISO)
+  step: number; // 0-based tick number
+  totalSteps: number;
+  prices: Record<string, number>; // Latest price per symbol
+  history: Record<string, number[]>; // Every price seen per symbol, oldest first
+  cash: number;
+  equity: number; // Cash plus the market value of the positions
+  positions: Record<string, { amount: number; avgPrice: number }>;
+  memory: Record<string, any>; // Kept between ticks for the strategy's own bookkeeping
+}
+
+// Either `amount` (units) or `value` (Toman) is given
+export interface StrategyOrder {
+  side: 'buy' | 'sell';
+  symbol: string;
+  amount?: number;
+  value?: number;
+}
+
+export type StrategyTick = (ctx: StrategyContext) => StrategyOrder[] | void;
+
+export interface StrategyDefinition {
+  id: string;
+  name: string;
+  code: string;
+}
+
+export interface StrategyStats {
+  finalEquity: number;
+  totalReturn: number; // Percent
+  maxDrawdown: number; // Percent, positive
+  trades: number;
+  fees: number;
+  closedPositions: number;
+  winRate: number; // Percent of closed positions with a profit
+}
+
+export interface StrategyRunResult {
+  equity: { date: string; value: number }[];
+  trades: Trade[];
+  rejected: { time: string; symbol: string; side: StrategyOrder['side']; message: string }[];
+  stats: StrategyStats;
+}
+
+export type StrategyRunOutcome = { ok: true; result: StrategyRunResult } | { ok: false; message: string };
+
+export interface StrategyRunInput {
+  base: Pick<AppState, 'instruments' | 'currencies' | 'fxRateHistory' | 'tetherPrice'>;
+  steps: BacktestStep[];
+  startCash: number;
+  feePercent: number;
+  now: string; // Real time, only used to reject datasets from the future
+}
+
+export const STRATEGY_PORTFOLIO_ID = 'strategy';
+
+export const STRATEGY_TEMPLATES: StrategyDefinition[] = [
+  {
+    id: 'tpl-dca',
+    name: 'خرید دوره‌ای (DCA)',
+    code: `// هر چند گام مبلغ ثابتی از یک نماد می‌خرد
+const SYMBOL = 'BTC';
+const EVERY = 5; // هر چند گام
+const BUDGET = 10000000; // مبلغ هر خرید (تومان)
+
+function onTick(ctx) {
+  if (ctx.step % EVERY !== 0 || !ctx.prices[SYMBOL] || ctx.cash < BUDGET) return [];
+  return [{ side: 'buy', symbol: SYMBOL, value: BUDGET }];
+}
+`
+  },
+  {
+    id: 'tpl-ma-cross',
+    name: 'تقاطع میانگین متحرک',
+    code: `// با عبور میانگین کوتاه از بلند به بالا می‌خرد و با عبور به پایین می‌فروشد
+const SYMBOL = 'BTC';
+const FAST = 5;
+const SLOW = 20;
+
+const average = (list, n) => list.slice(-n).reduce((sum, p) => sum + p, 0) / n;
+
+function onTick(ctx) {
+  const closes = ctx.history[SYMBOL] || [];
+  if (closes.length <= SLOW) return [];
+  const before = closes.slice(0, -1);
+  const wasAbove = average(before, FAST) > average(before, SLOW);
+  const isAbove = average(closes, FAST) > average(closes, SLOW);
+  const held = ctx.positions[SYMBOL]?.amount || 0;
+  if (!wasAbove && isAbove && held === 0) return [{ side: 'buy', symbol: SYMBOL, value: ctx.cash * 0.99 }];
+  if (wasAbove && !isAbove && held > 0) return [{ side: 'sell', symbol: SYMBOL, amount: held }];
+  return [];
+}
+`
+  },
+  {
+    id: 'tpl-rebalance',
+    name: 'باند تعادل‌بخشی',
+    code: `// وزن هر نماد را نزدیک هدف نگه می‌دارد؛ وقتی وزنی بیش از باند منحرف شود کل سبد متعادل می‌شود
+const TARGETS = { BTC: 0.5, GOLD: 0.5 };
+const BAND = 0.05;
+
+function onTick(ctx) {
+  const symbols = Object.keys(TARGETS);
+  if (symbols.some(s => !ctx.prices[s])) return [];
+  const weight = s => (ctx.positions[s]?.amount || 0) * ctx.prices[s] / ctx.equity;
+  if (!symbols.some(s => Math.abs(weight(s) - TARGETS[s]) > BAND)) return [];
+  const gaps = symbols.map(s => ({ symbol: s, value: (TARGETS[s] - weight(s)) * ctx.equity }));
+  // Sells first so their cash pays for the buys
+  return [
+    ...gaps.filter(g => g.value < 0).map(g => ({ side: 'sell', symbol: g.symbol, value: -g.value })),
+    ...gaps.filter(g => g.value > 0).map(g => ({ side: 'buy', symbol: g.symbol, value: g.value * 0.99 }))
+  ];
+}
+`
+  }
+];
+
+export const compileStrategy = (code: string): { ok: true; onTick: StrategyTick } | { ok: false; message: string } => {
+  try {
+    const onTick = new Function(`${code}\nreturn typeof onTick === 'function' ? onTick : undefined;`)();
+    if (typeof onTick !== 'function') return { ok: false, message: 'استراتژی باید تابع onTick(ctx) را تعریف کند.' };
+    return { ok: true, onTick };
+  } catch (e) {
+    return { ok: false, message: `خطای نحوی: ${e instanceof Error ? e.message : String(e)}` };
+  }
+};
+
+// Worst peak-to-trough fall of the curve, in percent
+const maxDrawdownOf = (equity: { value: number }[]): number => {
+  let peak = -Infinity;
+  return equity.reduce((worst, point) => {
+    peak = Math.max(peak, point.value);
+    return peak > 0 ? Math.max(worst, (peak - point.value) / peak * 100) : worst;
+  }, 0);
+};
+
+export const strategyStats = (equity: { value: number }[], trades: Trade[], startCash: number): StrategyStats => {
+  const finalEquity = equity.length > 0 ? equity[equity.length - 1].value : startCash;
+  const closed = buildPositions(trades).filter(p => p.status === 'CLOSED');
+  return {
+    finalEquity,
+    totalReturn: (finalEquity - startCash) / startCash * 100,
+    maxDrawdown: maxDrawdownOf(equity),
+    trades: trades.length,
+    fees: trades.reduce((sum, t) => sum + t.fee, 0),
+    closedPositions: closed.length,
+    winRate: closed.length > 0 ? closed.filter(p => p.realizedPnl > 0).length / closed.length * 100 : 0
+  };
+};
+
+// Replays the dataset through a backtest session holding a single portfolio, asking the strategy for orders on
+// every tick and sending them through the ledger as market trades at the tick's price
+export const runStrategy = (onTick: StrategyTick, input: StrategyRunInput): StrategyRunOutcome => {
+  const portfolio: Portfolio = { id: STRATEGY_PORTFOLIO_ID, name: 'استراتژی', allocation: input.startCash, assets: [], children: [] };
+  const created = createBacktestSession(
+    { ...INITIAL_STATE, ...input.base, rootPortfolios: [portfolio], selectedPortfolioId: STRATEGY_PORTFOLIO_ID },
+    input.steps, '', input.startCash, new Date(input.now)
+  );
+  if (created.ok === false) return created;
+
+  let session = created.session;
+  const history: Record<string, number[]> = {};
+  const memory: Record<string, any> = {};
+  const rejected: StrategyRunResult['rejected'] = [];
+
+  for (let step = 0; ; step++) {
+    session.steps[session.cursor - 1].quotes.forEach(q => { (history[q.symbol] = history[q.symbol] || []).push(q.price); });
+    const assets = session.state.rootPortfolios[0].assets;
+    const ctx: StrategyContext = {
+      time: session.clock,
+      step,
+      totalSteps: session.steps.length,
+      prices: Object.fromEntries(Object.entries(history).map(([symbol, prices]) => [symbol, prices[prices.length - 1]])),
+      history: Object.fromEntries(Object.entries(history).map(([symbol, prices]) => [symbol, [...prices]])), // Copies, so a script cannot corrupt them
+      cash: session.state.cash,
+      equity: session.state.cash + calculateTotalAssets(session.state.rootPortfolios),
+      positions: Object.fromEntries(assets.map(a => [a.symbol, { amount: a.amount, avgPrice: a.avgBuyPrice }])),
+      memory
+    };
+
+    let orders: StrategyOrder[];
+    try {
+      orders = onTick(ctx) || [];
+    } catch (e) {
+      return { ok: false, message: `خطای استراتژی در گام ${formatNumber(step + 1)}: ${e instanceof Error ? e.message : String(e)}` };
+    }
+
+    for (const order of orders) {
+      const instrument = findInstrumentBySymbol(session.state.instruments, order.symbol);
+      const price = ctx.prices[instrument?.symbol || ''];
+      const reject = (message: string) => rejected.push({ time: session.clock, symbol: order.symbol, side: order.side, message });
+      if (!instrument || !price) {
+        reject('نماد در داده‌ها قیمتی ندارد.');
+        continue;
+      }
+      let amount = order.amount ?? (order.value || 0) / price;
+      const held = session.state.rootPortfolios[0].assets.find(a => a.instrumentId === instrument.id)?.amount || 0;
+      if (order.side === 'sell' && held > 0) amount = Math.min(amount, held);
+      if (instrument.lotSize > 0) amount = Math.floor(amount / instrument.lotSize + AMOUNT_EPSILON) * instrument.lotSize;
+      if (!(amount > AMOUNT_EPSILON)) continue;
+      const totalValue = amount * price;
+      const result = runBacktestCommand(session, {
+        type: order.side,
+        portfolioId: STRATEGY_PORTFOLIO_ID,
+        instrumentId: instrument.id,
+        amount,
+        price,
+        totalValue,
+        fee: totalValue * input.feePercent / 100
+      });
+      if (result.ok === false) reject(result.error.message);
+      else session = { ...session, state: result.state };
+    }
+
+    if (isBacktestFinished(session)) break;
+    session = advanceBacktest(session);
+  }
+
+  const equity = session.state.netWorthHistory;
+  return { ok: true, result: { equity, trades: session.state.tradeHistory, rejected, stats: strategyStats(equity, session.state.tradeHistory, input.startCash) } };
+};
+
+// --- Worker protocol ---
+
+export interface StrategyWorkerRequest {
+  code: string;
+  input: StrategyRunInput;
+}
+
+export type StrategyWorkerResponse = StrategyRunOutcome;
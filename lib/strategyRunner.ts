@@ -0,0 +1,18 @@
+import { StrategyRunInput, StrategyWorkerResponse } from './strategy';
+
+export const STRATEGY_TIMEOUT_MS = 30000;
+
+// Runs a strategy script in a fresh Web Worker; the worker is terminated when it answers or times out
+export const runStrategyInWorker = (code: string, input: StrategyRunInput, timeoutMs = STRATEGY_TIMEOUT_MS): Promise<StrategyWorkerResponse> =>
+  new Promise(resolve => {
+    const worker = new Worker(new URL('./strategyWorker.ts', import.meta.url), { type: 'module' });
+    const finish = (response: StrategyWorkerResponse) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(response);
+    };
+    const timer = setTimeout(() => finish({ ok: false, message: `اجرای استراتژی بیش از ${Math.round(timeoutMs / 1000)} ثانیه طول کشید و متوقف شد.` }), timeoutMs);
+    worker.onmessage = (event: MessageEvent<StrategyWorkerResponse>) => finish(event.data);
+    worker.onerror = (event) => finish({ ok: false, message: `خطای اجرای استراتژی: ${event.message}` });
+    worker.postMessage({ code, input });
+  });
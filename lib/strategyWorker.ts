@@ -0,0 +1,10 @@
+// Runs one strategy away from the page: the script cannot reach the DOM or the live state,
+// and a runaway loop only blocks this worker, which the page terminates
+import { compileStrategy, runStrategy, StrategyWorkerRequest, StrategyWorkerResponse } from './strategy';
+
+self.onmessage = (event: MessageEvent<StrategyWorkerRequest>) => {
+  const { code, input } = event.data;
+  const compiled = compileStrategy(code);
+  const response: StrategyWorkerResponse = compiled.ok === false ? compiled : runStrategy(compiled.onTick, input);
+  self.postMessage(response);
+};
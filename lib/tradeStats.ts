@@ -0,0 +1,129 @@
+import { PositionView } from '../types';
+
+// --- Trade Journal Statistics ---
+// Built on closed positions. A position that closed by being transferred out was handed to another
+// portfolio rather than traded, so it is left out (its holding continues there).
+
+export interface TradeStatsFilter {
+  from: Date | null; // Positions closed at or after
+  to: Date | null; // Positions closed at or before
+  instrumentId: string | null;
+  tag: string | null; // On the position or any of its trades
+}
+
+export interface PnlGroup {
+  key: string; // Instrument or portfolio id, or tag
+  count: number;
+  wins: number;
+  pnl: number; // In Toman
+}
+
+export interface HoldingBucket {
+  label: string;
+  count: number;
+  pnl: number;
+}
+
+export interface TradeStats {
+  count: number;
+  wins: number;
+  losses: number;
+  winRate: number; // Percent
+  averageWin: number; // In Toman
+  averageLoss: number; // In Toman, positive
+  expectancy: number; // Average PnL per position, in Toman
+  profitFactor: number | null; // Gross profit / gross loss; null without losses
+  longestWinStreak: number;
+  longestLossStreak: number;
+  totalPnl: number;
+  byAsset: PnlGroup[]; // Best first
+  byPortfolio: PnlGroup[];
+  byTag: PnlGroup[]; // A position counts under each of its tags
+  holding: HoldingBucket[];
+}
+
+const HOLDING_BUCKETS: { label: string; maxDays: number }[] = [
+  { label: 'تا ۱ روز', maxDays: 1 },
+  { label: '۲ تا ۷ روز', maxDays: 7 },
+  { label: '۸ تا ۳۰ روز', maxDays: 30 },
+  { label: '۱ تا ۳ ماه', maxDays: 90 },
+  { label: '۳ ماه تا ۱ سال', maxDays: 365 },
+  { label: 'بیش از ۱ سال', maxDays: Infinity }
+];
+
+// Tags of the position and of its trades, without duplicates
+export const positionTags = (position: PositionView): string[] =>
+  [...(position.notes?.tags || []), ...position.trades.flatMap(t => t.notes?.tags || [])].filter((tag, i, all) => all.indexOf(tag) === i);
+
+export const filterClosedPositions = (positions: PositionView[], filter: TradeStatsFilter): PositionView[] =>
+  positions.filter(p => {
+    if (p.status !== 'CLOSED' || !p.endDate) return false;
+    if (p.trades[p.trades.length - 1]?.transferId) return false;
+    if (filter.instrumentId && p.instrumentId !== filter.instrumentId) return false;
+    if (filter.tag && !positionTags(p).includes(filter.tag)) return false;
+    const closed = new Date(p.endDate).getTime();
+    if (filter.from && closed < filter.from.getTime()) return false;
+    if (filter.to && closed > filter.to.getTime()) return false;
+    return true;
+  });
+
+const groupPnl = (positions: PositionView[], keysOf: (p: PositionView) => string[]): PnlGroup[] => {
+  const groups = new Map<string, PnlGroup>();
+  positions.forEach(p => keysOf(p).forEach(key => {
+    const group = groups.get(key) || { key, count: 0, wins: 0, pnl: 0 };
+    group.count++;
+    if (p.realizedPnl > 0) group.wins++;
+    group.pnl += p.realizedPnl;
+    groups.set(key, group);
+  }));
+  return [...groups.values()].sort((a, b) => b.pnl - a.pnl);
+};
+
+// Null when no position matches
+export const tradeStats = (positions: PositionView[], filter: TradeStatsFilter): TradeStats | null => {
+  const closed = filterClosedPositions(positions, filter)
+    .sort((a, b) => new Date(a.endDate!).getTime() - new Date(b.endDate!).getTime());
+  if (closed.length === 0) return null;
+
+  const wins = closed.filter(p => p.realizedPnl > 0);
+  const losses = closed.filter(p => p.realizedPnl < 0);
+  const grossProfit = wins.reduce((sum, p) => sum + p.realizedPnl, 0);
+  const grossLoss = -losses.reduce((sum, p) => sum + p.realizedPnl, 0);
+
+  // In closing order; a break-even position ends both kinds of streak
+  let winStreak = 0;
+  let lossStreak = 0;
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  closed.forEach(p => {
+    winStreak = p.realizedPnl > 0 ? winStreak + 1 : 0;
+    lossStreak = p.realizedPnl < 0 ? lossStreak + 1 : 0;
+    longestWinStreak = Math.max(longestWinStreak, winStreak);
+    longestLossStreak = Math.max(longestLossStreak, lossStreak);
+  });
+
+  const holding = HOLDING_BUCKETS.map(b => ({ label: b.label, count: 0, pnl: 0 }));
+  closed.forEach(p => {
+    const bucket = holding[HOLDING_BUCKETS.findIndex(b => p.durationDays <= b.maxDays)];
+    bucket.count++;
+    bucket.pnl += p.realizedPnl;
+  });
+
+  return {
+    count: closed.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: (wins.length / closed.length) * 100,
+    averageWin: wins.length > 0 ? grossProfit / wins.length : 0,
+    averageLoss: losses.length > 0 ? grossLoss / losses.length : 0,
+    expectancy: (grossProfit - grossLoss) / closed.length,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    longestWinStreak,
+    longestLossStreak,
+    totalPnl: grossProfit - grossLoss,
+    byAsset: groupPnl(closed, p => [p.instrumentId]),
+    byPortfolio: groupPnl(closed, p => [p.portfolioId]),
+    byTag: groupPnl(closed, positionTags),
+    holding
+  };
+};
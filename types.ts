@@ -1,82 +1,370 @@
 
-export type Currency = 'toman' | 'tether';
+// Currency code. Every amount is booked in the base currency (toman); other currencies
+// keep their own cash balance and are valued through their rate.
+export type Currency = string;
+export const BASE_CURRENCY: Currency = 'toman';
+
+export interface CurrencyInfo {
+  code: Currency;
+  name: string; // Persian display name
+  symbol: string;
+  rate: number; // Toman per unit (1 for the base currency)
+}
+
+export interface FxRate {
+  currency: Currency;
+  rate: number; // Toman per unit
+  timestamp: string; // ISO date the rate applies from
+}
 export type TradeType = 'buy' | 'sell';
 export type FeeType = 'percentage' | 'fixed';
+// How sells pick which purchased units they consume
+export type CostBasisMethod = 'average' | 'fifo' | 'lifo' | 'hifo';
+
+export type AssetClass = 'stock' | 'fund' | 'crypto' | 'gold' | 'coin' | 'fx';
+
+// A tradable instrument. Trades, orders and holdings point at it by id; the symbol is unique
+export interface Instrument {
+  id: string;
+  symbol: string; // Unique, upper case (e.g. BTC, GOLD18)
+  name: string; // Display name (e.g. Bitcoin, طلای ۱۸ عیار)
+  assetClass: AssetClass;
+  quoteCurrency: Currency; // Currency its price is usually quoted in
+  lotSize: number; // Traded amounts must be a multiple of this
+  pricePrecision: number; // Decimal places shown for its price
+}
+
+// Units bought by a single trade that are still held
+export interface Lot {
+  id: string; // Id of the trade that opened it
+  amount: number; // Remaining amount (always positive, short lots included)
+  unitCost: number; // In Toman; entry price for short lots
+  timestamp: string; // ISO date of the buy
+}
 
 export interface Asset {
   id: string;
-  symbol: string; // e.g., BTC, GOLD
-  name: string;   // e.g., Bitcoin, Gold 18k
-  amount: number;
-  avgBuyPrice: number; // In Toman
+  instrumentId: string;
+  symbol: string; // Copied from the instrument
+  name: string;   // Copied from the instrument
+  amount: number; // Negative for a short position
+  avgBuyPrice: number; // In Toman, cost (or short entry price) of the remaining lots
   currentPrice: number; // In Toman (for simulation)
+  lots: Lot[];
+  currency?: Currency; // Currency the position was opened in, when not the base
 }
 
 export interface Trade {
   id: string;
   portfolioId: string;
   type: TradeType;
-  assetName: string;
+  instrumentId: string; // Older journals omit it; replay resolves it from assetName
+  assetName: string; // Instrument name when the trade was made
   amount: number;
   price: number;
   totalValue: number;
   fee: number;
   timestamp: string; // ISO date
   realizedPnl?: number; // Profit/Loss for sell trades
+  costBasis?: number; // Cost of the lots a sell consumed (set by the ledger)
+  lotId?: string; // Specific lot a sell should consume first
+  orderId?: string; // Set when the trade is the fill of a pending order
+  liquidation?: boolean; // Forced close after a margin call
+  currency?: Currency; // Currency the trade was priced and settled in (base if unset)
+  fxRate?: number; // Toman per unit of `currency` when the trade was made
+  transferId?: string; // Set on the moves buildPositions derives from an asset transfer
+  notes?: TradeNotes;
+}
+
+// Journaling fields of a trade or position, written from the history tab
+export interface TradeNotes {
+  note?: string; // Why it was entered, what was learned
+  setup?: string; // Setup label, e.g. "breakout"
+  emotion?: string; // State of mind at the time
+  tags?: string[];
+  screenshots?: string[]; // Image links
+}
+
+// Trade fields entered by the user (TradeForm), before the ledger stamps id/portfolio/time
+export interface TradeInput {
+  type: TradeType;
+  instrumentId: string;
+  amount: number;
+  price: number; // In Toman
+  totalValue: number; // In Toman
+  fee: number; // In Toman
+  lotId?: string; // Sells only: consume this lot instead of following the portfolio method
+  currency?: Currency; // Native currency the user priced the trade in
+  fxRate?: number; // Rate used to convert the native price to Toman
+  executedAt?: string; // ISO date of a trade entered after the fact (now if unset)
+}
+
+// limit: buy at or below / sell at or above the trigger
+// stop: stop-loss, sells once the price drops to the trigger (buys once it rises)
+// takeProfit: sells once the price rises to the trigger (buys once it drops)
+export type OrderKind = 'limit' | 'stop' | 'takeProfit';
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'rejected';
+
+// Order fields entered by the user (TradeForm), before the ledger stamps id/portfolio/time
+export interface OrderInput {
+  side: TradeType;
+  kind: OrderKind;
+  instrumentId: string;
+  amount: number;
+  triggerPrice: number; // In Toman
+  feeType: FeeType;
+  feeValue: number; // Percent or Toman, depending on feeType
+}
+
+export interface Order extends OrderInput {
+  id: string;
+  assetName: string; // Instrument name when the order was placed
+  portfolioId: string;
+  ocoGroupId?: string; // Filling one order of the group cancels the others
+  status: OrderStatus;
+  createdAt: string; // ISO date
+  closedAt?: string; // ISO date it was filled, cancelled or rejected
+  filledTradeId?: string;
+  note?: string; // Why it was cancelled or rejected
+  fill?: Pick<Trade, 'price' | 'fee' | 'currency' | 'fxRate' | 'lotId'>; // Corrected fill from a tradeEdit; time and amount stay the order's
+}
+
+export type PlanFrequency = 'daily' | 'weekly' | 'monthly';
+
+// Recurring buy (DCA) attached to a portfolio
+export interface PlanInput {
+  instrumentId: string;
+  amount: number; // Invested per execution, in `currency`
+  currency: Currency;
+  frequency: PlanFrequency;
+  startDate: string; // ISO date of the first execution
+  endDate?: string; // ISO date; nothing runs after it
+  active: boolean; // Paused plans skip nothing and run nothing
+}
+
+export interface InvestmentPlan extends PlanInput {
+  id: string;
+  portfolioId: string;
+  lastDueAt?: string; // Last due date that was handled (executed or skipped)
+}
+
+// Outcome of one due date of a plan
+export interface PlanRun {
+  id: string; // Id of the planRun event
+  planId: string;
+  dueAt: string; // ISO date
+  tradeId?: string; // Set when the buy went through
+  skipReason?: string; // Why nothing was bought (Persian)
+}
+
+// Trades grouped into a position lifecycle (open -> closed)
+export interface PositionView {
+  id: string; // generated
+  instrumentId: string;
+  assetName: string;
+  portfolioId: string;
+  status: 'OPEN' | 'CLOSED';
+  side: 'LONG' | 'SHORT';
+  totalBuyAmount: number; // Amount opened (bought, or sold short)
+  remainingAmount: number;
+  avgBuyPrice: number;
+  realizedPnl: number; // accumulated PnL from closing trades
+  totalCost: number; // current cost basis
+  trades: Trade[];
+  startDate: string;
+  endDate?: string;
+  durationDays: number;
+  lastUpdateDate?: string;
+  notes?: TradeNotes; // The position's own; its trades keep theirs
+}
+
+// Margin mode of a portfolio: allows leverage and short positions (negative Asset.amount)
+export interface MarginSettings {
+  leverage: number; // Max gross exposure as a multiple of equity
+  maintenanceMargin: number; // Percent of exposure; equity below it liquidates the positions
+  borrowRate: number; // Annual percent charged on borrowed cash and shorted value
 }
 
 export interface Portfolio {
   id: string;
   name: string;
   allocation: number; // Budget allocated to this portfolio (in Toman)
+  costBasisMethod?: CostBasisMethod; // Defaults to weighted average
+  margin?: MarginSettings; // Unset = cash account
+  targets?: PortfolioTargets; // Unset = no rebalancing targets
+  accruedInterest?: number; // Margin interest accrued but not yet charged
+  interestAccruedAt?: string; // ISO date interest was last accrued up to
   assets: Asset[];
   children: Portfolio[]; // Nested portfolios
 }
 
+// Target weights in percent of the portfolio's market value; together they add up to 100
+export interface PortfolioTargets {
+  assets: Record<string, number>; // instrumentId -> percent
+  children: Record<string, number>; // child portfolioId -> percent
+}
+
+// A move between two portfolios that is not a trade: no PnL, no fee, no cash movement
+export interface PortfolioTransfer {
+  id: string;
+  kind: 'asset' | 'budget';
+  fromPortfolioId: string;
+  toPortfolioId: string;
+  amount: number; // Units for assets, Toman for budget
+  instrumentId?: string; // Asset transfers only
+  cost?: number; // Asset transfers: cost basis moved with the units (set on replay)
+  withBudget?: boolean; // Asset transfers: the moved cost basis also moves as allocation
+  timestamp: string; // ISO date
+  note?: string;
+}
+
+export type CashTransactionType = 'deposit' | 'withdrawal' | 'fee' | 'trade_settlement' | 'transfer';
+
+export interface CashTransaction {
+  id: string;
+  type: CashTransactionType;
+  amount: number; // Signed, in Toman: positive adds to cash
+  timestamp: string; // ISO date
+  note: string;
+  tradeId?: string; // Set for settlements and fees generated by a trade
+  portfolioId?: string;
+  currency?: Currency; // Set when the cash moved in a non-base currency
+  nativeAmount?: number; // Signed amount in `currency`
+}
+
+// One observed price of an instrument
+export interface PricePoint {
+  timestamp: string; // ISO date
+  time: number; // Same instant in ms, for ordering
+  price: number; // In Toman
+  source: 'trade' | 'manual' | 'import' | 'feed' | 'fx'; // 'fx': the quote currency's rate moved
+}
+
 export interface NetWorthSnapshot {
   date: string; // ISO string
   value: number; // Total Net Worth (Cash + Assets)
 }
 
+// --- Journal (append-only source of truth) ---
+interface JournalEventBase {
+  id: string;
+  timestamp: string; // ISO date the event takes effect
+}
+
+export type JournalEvent = JournalEventBase & (
+  | { type: 'genesis'; cash: number; tetherPrice: number; rootPortfolios: Portfolio[] } // Opening state
+  | { type: 'trade'; trade: Trade } // Event id equals the trade id
+  | { type: 'void'; targetId: string } // Cancels an earlier event (e.g. a deleted trade)
+  | { type: 'tradeEdit'; tradeId: string; trade: Trade } // Replaces an earlier trade event's trade and time; the latest edit wins
+  | { type: 'cash'; kind: Exclude<CashTransactionType, 'trade_settlement'>; amount: number; note: string; currency?: Currency } // Signed amount, in `currency` (base if unset)
+  | { type: 'tetherPrice'; price: number } // Older journals; same as an fxRate event for tether
+  | { type: 'currencyAdd'; currency: CurrencyInfo }
+  | { type: 'fxRate'; currency: Currency; rate: number; effectiveAt?: string; replaces?: string } // Dated entry (event time if unset); `replaces` is the date of a corrected entry
+  | { type: 'fxRateImport'; currency: Currency; rates: { timestamp: string; rate: number }[] }
+  | { type: 'fxConvert'; from: Currency; to: Currency; amount: number; received: number } // Native amounts
+  | { type: 'assetPrice'; portfolioId: string; instrumentId?: string; assetName: string; price: number } // Older journals match by assetName
+  | { type: 'priceImport'; instrumentId: string; prices: { timestamp: string; price: number }[] }
+  | { type: 'marketQuotes'; providerId: string; quotes: { instrumentId: string; price: number }[] } // One tick of a market data feed
+  | { type: 'instrumentAdd'; instrument: Instrument }
+  | { type: 'instrumentEdit'; instrument: Instrument } // Symbol and id never change
+  | { type: 'portfolioAdd'; parentId: string | null; portfolioId: string; name: string; allocation: number; costBasisMethod?: CostBasisMethod }
+  | { type: 'portfolioEdit'; portfolioId: string; name: string; allocation: number; costBasisMethod?: CostBasisMethod }
+  | { type: 'portfolioAllocations'; changes: { portfolioId: string; allocation: number }[] } // Budgets set together, e.g. an allocation repair
+  | { type: 'portfolioDelete'; portfolioId: string }
+  | { type: 'portfolioMove'; portfolioId: string; parentId: string | null; beforeId?: string } // Re-parents or reorders; last among siblings without beforeId
+  | { type: 'portfolioMerge'; portfolioId: string; targetId: string } // Removes the portfolio after handing its assets and children to the target
+  | { type: 'portfolioMargin'; portfolioId: string; margin: MarginSettings | null } // null switches back to a cash account
+  | { type: 'portfolioTargets'; portfolioId: string; targets: PortfolioTargets | null } // null clears the targets
+  | { type: 'orderPlace'; order: Order } // Event id equals the order id; recorded as open
+  | { type: 'orderModify'; orderId: string; amount: number; triggerPrice: number }
+  | { type: 'orderCancel'; orderId: string }
+  | { type: 'planAdd'; plan: InvestmentPlan }
+  | { type: 'planEdit'; plan: InvestmentPlan } // lastDueAt is kept from the current plan
+  | { type: 'planDelete'; planId: string }
+  | { type: 'planRun'; planId: string; dueAt: string; tradeId?: string; skipReason?: string }
+  | { type: 'transfer'; transfer: Omit<PortfolioTransfer, 'cost'> }
+  | { type: 'notes'; target: 'trade' | 'position'; targetId: string; notes: TradeNotes | null } // null clears them
+);
+
+// Everything except `journal` and `selectedPortfolioId` is a projection rebuilt from the journal
 export interface AppState {
-  cash: number; // Total available liquid cash (Toman)
-  tetherPrice: number; // Current Tether price in Toman
+  cash: number; // Total available liquid cash, all currencies valued in Toman
+  cashBalances: Record<Currency, number>; // Cash held per currency, in native units
+  currencies: CurrencyInfo[]; // Base currency first
+  instruments: Instrument[]; // Instrument master, in registration order
+  priceHistory: Record<string, PricePoint[]>; // Per instrument id, oldest first
+  fxRateHistory: FxRate[]; // Dated rate timeline, oldest first; one entry per currency and timestamp
+  tetherPrice: number; // Current Tether price in Toman (mirrors the tether rate)
   rootPortfolios: Portfolio[]; // Top-level portfolios
   tradeHistory: Trade[];
+  orders: Order[]; // Pending and closed orders, in placement order
+  plans: InvestmentPlan[]; // Recurring buys, in creation order
+  planRuns: PlanRun[]; // Every handled due date, newest first
+  transfers: PortfolioTransfer[]; // Moves between portfolios, newest first
+  positionNotes: Record<string, TradeNotes>; // Per position id (see buildPositions)
+  cashTransactions: CashTransaction[]; // Every movement of cash, newest first
   netWorthHistory: NetWorthSnapshot[]; // History of total account value
   selectedPortfolioId: string | null; // Currently selected for viewing/trading
+  reportingCurrency?: Currency; // Currency the dashboard reports in (base if unset)
+  journal: JournalEvent[];
 }
 
+const INITIAL_TIMESTAMP = new Date().toISOString();
+
+const INITIAL_PORTFOLIOS: Portfolio[] = [
+  {
+    id: 'p-1',
+    name: 'سبد بورس',
+    allocation: 300000000,
+    assets: [],
+    children: [
+      {
+        id: 'p-1-1',
+        name: 'صندوق‌های سهامی',
+        allocation: 100000000,
+        assets: [],
+        children: []
+      }
+    ]
+  },
+  {
+    id: 'p-2',
+    name: 'سبد طلا و سکه',
+    allocation: 200000000,
+    assets: [],
+    children: []
+  }
+];
+
+// Currencies every account starts with
+export const initialCurrencies = (tetherPrice: number): CurrencyInfo[] => [
+  { code: BASE_CURRENCY, name: 'تومان', symbol: 'تومان', rate: 1 },
+  { code: 'tether', name: 'تتر', symbol: 'USDT', rate: tetherPrice }
+];
+
 export const INITIAL_STATE: AppState = {
   cash: 1000000000, // 1 Billion Toman default
+  cashBalances: { [BASE_CURRENCY]: 1000000000 },
+  currencies: initialCurrencies(60000),
+  fxRateHistory: [{ currency: 'tether', rate: 60000, timestamp: INITIAL_TIMESTAMP }],
   tetherPrice: 60000,
-  rootPortfolios: [
-    {
-      id: 'p-1',
-      name: 'سبد بورس',
-      allocation: 300000000,
-      assets: [],
-      children: [
-        {
-          id: 'p-1-1',
-          name: 'صندوق‌های سهامی',
-          allocation: 100000000,
-          assets: [],
-          children: []
-        }
-      ]
-    },
-    {
-      id: 'p-2',
-      name: 'سبد طلا و سکه',
-      allocation: 200000000,
-      assets: [],
-      children: []
-    }
-  ],
+  instruments: [],
+  priceHistory: {},
+  rootPortfolios: INITIAL_PORTFOLIOS,
   tradeHistory: [],
+  orders: [],
+  plans: [],
+  planRuns: [],
+  transfers: [],
+  positionNotes: {},
+  cashTransactions: [
+    { id: 'ev-genesis', type: 'deposit', amount: 1000000000, timestamp: INITIAL_TIMESTAMP, note: 'موجودی اولیه' }
+  ],
   netWorthHistory: [
-    { date: new Date().toISOString(), value: 1000000000 }
+    { date: INITIAL_TIMESTAMP, value: 1000000000 }
   ],
-  selectedPortfolioId: 'p-1'
+  selectedPortfolioId: 'p-1',
+  journal: [
+    { id: 'ev-genesis', timestamp: INITIAL_TIMESTAMP, type: 'genesis', cash: 1000000000, tetherPrice: 60000, rootPortfolios: INITIAL_PORTFOLIOS }
+  ]
 };